@@ -1,5 +1,7 @@
 import { describe, test, expect, mock, beforeEach } from 'bun:test';
 import { BaseAgent } from '../../agent/base';
+import { OpencodeAgent } from '../../agent/opencode';
+import type { SessionDetail } from '../../opencode/client';
 import type { ModelInfo, SendOptions, AgentEventHandler } from '../../types/agent';
 
 class TestAgent extends BaseAgent {
@@ -22,6 +24,16 @@ class TestAgent extends BaseAgent {
     return this.createSession(projectPath, model);
   }
   
+  async resumeSession(_sessionId: string, _projectPath: string, _model?: string): Promise<boolean> {
+    return true;
+  }
+  
+  async suspendSession(_sessionId: string): Promise<void> {}
+  
+  async forkSession(_sessionId: string, _projectPath: string, _model?: string): Promise<string> {
+    return 'session_fork';
+  }
+  
   async switchModel(_sessionId: string, _model: string): Promise<void> {}
   
   async clearHistory(_sessionId: string): Promise<void> {}
@@ -151,3 +163,118 @@ describe('BaseAgent', () => {
     expect(info!.messageCount).toBe(5);
   });
 });
+
+describe('OpencodeAgent.resumeSession', () => {
+  async function createAgent(existing: string[]) {
+    const agent = new OpencodeAgent();
+    const wrapper = agent.getWrapper();
+    wrapper.start = mock(async () => 'http://localhost:0');
+    wrapper.getSessionDetail = mock(async (sessionId: string) =>
+      existing.includes(sessionId) ? ({ id: sessionId } as SessionDetail) : null
+    );
+    wrapper.subscribeToEvents = mock(async () => () => {});
+    wrapper.sendPrompt = mock(async () => {});
+    await agent.initialize();
+    return { agent, wrapper };
+  }
+
+  test('should re-subscribe and restore the model of an existing session', async () => {
+    const { agent, wrapper } = await createAgent(['ses_1']);
+    const received: Parameters<AgentEventHandler>[0][] = [];
+    agent.subscribe('ses_1', (event) => received.push(event));
+
+    expect(await agent.resumeSession('ses_1', '/srv/app', 'openai/gpt-4o')).toBe(true);
+    await agent.send('ses_1', 'hello');
+
+    expect(wrapper.subscribeToEvents).toHaveBeenCalledTimes(1);
+    expect(received[0]).toMatchObject({ type: 'session.resumed', projectPath: '/srv/app', model: 'openai/gpt-4o' });
+    expect((wrapper.sendPrompt as ReturnType<typeof mock>).mock.calls[0]![3]).toEqual({ providerID: 'openai', modelID: 'gpt-4o' });
+    expect(await agent.getSessionInfo('ses_1')).toMatchObject({ projectPath: '/srv/app', model: 'openai/gpt-4o' });
+  });
+
+  test('should not subscribe twice to the same session', async () => {
+    const { agent, wrapper } = await createAgent(['ses_1']);
+
+    await agent.resumeSession('ses_1', '/srv/app');
+    await agent.resumeSession('ses_1', '/srv/app');
+
+    expect(wrapper.subscribeToEvents).toHaveBeenCalledTimes(1);
+  });
+
+  test('should report sessions that no longer exist', async () => {
+    const { agent, wrapper } = await createAgent([]);
+
+    expect(await agent.resumeSession('ses_gone', '/srv/app')).toBe(false);
+    expect(wrapper.subscribeToEvents).not.toHaveBeenCalled();
+  });
+});
+
+describe('OpencodeAgent events', () => {
+  async function createAgent() {
+    const agent = new OpencodeAgent();
+    const wrapper = agent.getWrapper();
+    let emit: (event: { type: string; properties: Record<string, unknown> }) => void = () => {};
+    wrapper.start = mock(async () => 'http://localhost:0');
+    wrapper.getSessionDetail = mock(async (sessionId: string) => ({ id: sessionId } as SessionDetail));
+    wrapper.subscribeToEvents = mock(async (_sessionId: string, callback: typeof emit) => {
+      emit = callback;
+      return () => {};
+    });
+    await agent.initialize();
+    await agent.resumeSession('ses_1', '/srv/app');
+    return { agent, emit: (type: string, properties: Record<string, unknown> = {}) => emit({ type, properties }) };
+  }
+
+  test('should complete the message only when the session goes idle', async () => {
+    const { agent, emit } = await createAgent();
+    const received: string[] = [];
+    agent.subscribe('ses_1', (event) => received.push(event.type));
+
+    emit('message.completed', { sessionID: 'ses_1' });
+    emit('session.idle', { sessionID: 'ses_child' });
+    expect(received).not.toContain('message.complete');
+
+    emit('session.idle', { sessionID: 'ses_1' });
+    expect(received.filter(type => type === 'message.complete')).toHaveLength(1);
+  });
+});
+
+describe('OpencodeAgent.forkSession', () => {
+  async function createAgent(forkSupported: boolean) {
+    const agent = new OpencodeAgent();
+    const wrapper = agent.getWrapper();
+    wrapper.start = mock(async () => 'http://localhost:0');
+    wrapper.forkSession = mock(async (sessionId: string) => {
+      if (!forkSupported) throw new Error('fork not supported');
+      return `${sessionId}_fork`;
+    });
+    wrapper.createSession = mock(async () => 'ses_new');
+    wrapper.getSessionMessages = mock(async () => [
+      { info: { role: 'user' }, parts: [{ type: 'text', text: '部署 redis' }] },
+      { info: { role: 'assistant' }, parts: [{ type: 'tool' }, { type: 'text', text: '已完成部署' }] },
+    ]);
+    wrapper.injectContext = mock(async () => {});
+    wrapper.getSessionDetail = mock(async (sessionId: string) => ({ id: sessionId } as SessionDetail));
+    wrapper.subscribeToEvents = mock(async () => () => {});
+    await agent.initialize();
+    return { agent, wrapper };
+  }
+
+  test('should use the native fork when available', async () => {
+    const { agent, wrapper } = await createAgent(true);
+
+    expect(await agent.forkSession('ses_1', '/srv/app', 'openai/gpt-4o')).toBe('ses_1_fork');
+    expect(wrapper.injectContext).not.toHaveBeenCalled();
+    expect(await agent.getSessionInfo('ses_1_fork')).toMatchObject({ projectPath: '/srv/app', model: 'openai/gpt-4o' });
+  });
+
+  test('should seed a new session with the transcript when fork fails', async () => {
+    const { agent, wrapper } = await createAgent(false);
+
+    expect(await agent.forkSession('ses_1', '/srv/app')).toBe('ses_new');
+    const [sessionId, transcript] = (wrapper.injectContext as ReturnType<typeof mock>).mock.calls[0]!;
+    expect(sessionId).toBe('ses_new');
+    expect(transcript).toContain('[用户] 部署 redis');
+    expect(transcript).toContain('[助手] 已完成部署');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect, mock } from 'bun:test';
+import { AgentRegistry, createAgentRegistry } from '../../agent/registry';
+import { OpencodeAgent } from '../../agent/opencode';
+import type { AgentFactoryContext } from '../../agent/registry';
+import type { AgentConfig, IAgentRuntime } from '../../types/agent';
+
+function createStubAgent(id: string, type: string): IAgentRuntime {
+  return { id, type, initialized: false } as unknown as IAgentRuntime;
+}
+
+describe('AgentRegistry', () => {
+  const context = { defaultProjectPath: '/default' };
+
+  test('should create agents through the factory registered for their type', () => {
+    const registry = new AgentRegistry(context);
+    const factory = mock((config: AgentConfig, _context: AgentFactoryContext) => createStubAgent(config.id, config.type));
+    registry.register('custom', factory);
+
+    const agent = registry.create({ id: 'a1', name: 'A1', type: 'custom', enabled: true, options: { foo: 1 } });
+
+    expect(agent.id).toBe('a1');
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory.mock.calls[0]![0].options).toEqual({ foo: 1 });
+    expect(factory.mock.calls[0]![1]).toEqual(context);
+  });
+
+  test('should throw for unknown agent types', () => {
+    const registry = new AgentRegistry(context);
+
+    expect(() => registry.create({ id: 'a1', name: 'A1', type: 'missing', enabled: true })).toThrow('Unknown agent type: missing');
+  });
+
+  test('should reject duplicate factory registration', () => {
+    const registry = new AgentRegistry(context);
+    registry.register('custom', (config) => createStubAgent(config.id, 'custom'));
+
+    expect(() => registry.register('custom', (config) => createStubAgent(config.id, 'custom'))).toThrow();
+  });
+
+  test('should reject factories that ignore the configured id', () => {
+    const registry = new AgentRegistry(context);
+    registry.register('custom', () => createStubAgent('other', 'custom'));
+
+    expect(() => registry.create({ id: 'a1', name: 'A1', type: 'custom', enabled: true })).toThrow();
+  });
+
+  test('should skip disabled agents in createAll', () => {
+    const registry = new AgentRegistry(context);
+    registry.register('custom', (config) => createStubAgent(config.id, 'custom'));
+
+    const agents = registry.createAll([
+      { id: 'on', name: 'On', type: 'custom', enabled: true },
+      { id: 'off', name: 'Off', type: 'custom', enabled: false },
+    ]);
+
+    expect(agents.map(a => a.id)).toEqual(['on']);
+  });
+
+  test('should register the opencode type by default', () => {
+    const registry = createAgentRegistry(context);
+
+    const agent = registry.create({ id: 'vip', name: 'VIP', type: 'opencode', enabled: true });
+
+    expect(registry.has('opencode')).toBe(true);
+    expect(agent).toBeInstanceOf(OpencodeAgent);
+    expect(agent.id).toBe('vip');
+    expect(agent.type).toBe('opencode');
+  });
+});
@@ -57,6 +57,27 @@ describe('CardBuilder', () => {
     expect(card.elements[0]!.text?.content).toContain('Something went wrong');
   });
 
+  test('should build card with action block', () => {
+    const reply: UnifiedReply = {
+      status: 'queued',
+      blocks: [{
+        type: 'action',
+        actions: [{ id: 'queue_cancel', label: '取消排队', value: { taskId: 'turn_1' }, style: 'danger' }],
+      }],
+    };
+
+    const card = builder.buildFromReply(reply);
+
+    expect(card.header?.title?.content).toBe('排队中');
+    expect(card.elements[0]!.tag).toBe('action');
+    expect(card.elements[0]!.actions).toEqual([{
+      tag: 'button',
+      text: { tag: 'plain_text', content: '取消排队' },
+      type: 'danger',
+      value: { taskId: 'turn_1', action: 'queue_cancel' },
+    }]);
+  });
+
   test('should build card with multiple blocks', () => {
     const reply: UnifiedReply = {
       status: 'completed',
@@ -1,12 +1,25 @@
-import { test, expect, describe } from 'bun:test';
+import { test, expect, describe, mock } from 'bun:test';
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
   isCommand,
   parseCommand,
   getCommand,
   getAvailableCommands,
   formatHelpMessage,
+  formatCommandHelp,
+  formatUsage,
+  resolveCommand,
   COMMANDS,
 } from '../commands/parser';
+import { CommandRegistry } from '../commands/registry';
+import { editDistance, suggestCommands } from '../commands/suggest';
+import { createCommandHandler, type CommandHandlerConfig } from '../commands/handler';
+import type { FeishuChannel } from '../channels/feishu';
+import type { IAgentRuntime, ModelInfo } from '../types/agent';
+import type { SessionGroupInfo } from '../types/session';
+import type { RegisteredCommand } from '../types/plugin';
 
 describe('Command Parser', () => {
   describe('isCommand', () => {
@@ -66,6 +79,88 @@ describe('Command Parser', () => {
       const result = parseCommand('/');
       expect(result).toBeNull();
     });
+
+    test('keeps quoted arguments together and honours escapes', () => {
+      expect(parseCommand('/doc_create "Q3 design review"')!.args).toEqual(['Q3 design review']);
+      expect(parseCommand("/fork '已 完成' “中文 引号” a\\ b")!.args).toEqual(['已 完成', '中文 引号', 'a b']);
+      expect(parseCommand('/search "say \\"hi\\""')!.args).toEqual(['say "hi"']);
+      expect(parseCommand("/search don't panic")!.args).toEqual(["don't", 'panic']);
+      expect(parseCommand('/export md --title="Q3 复盘"')!.args).toEqual(['md', '--title=Q3 复盘']);
+    });
+
+    test('stops at the first line and keeps the rest as body', () => {
+      const result = parseCommand('/doc_create 周报\n## 本周\n- 上线');
+
+      expect(result!.args).toEqual(['周报']);
+      expect(result!.body).toBe('## 本周\n- 上线');
+    });
+
+    test('reports unterminated quotes', () => {
+      expect(parseCommand('/doc_create "Q3')!.error).toContain('引号未闭合');
+    });
+  });
+
+  describe('resolveCommand', () => {
+    test('converts typed arguments and joins rest arguments', () => {
+      expect(resolveCommand(COMMANDS.new!, ['2'])).toMatchObject({ success: true, invocation: { args: { index: 2 } } });
+      expect(resolveCommand(COMMANDS.search!, ['登录', '重构'])).toMatchObject({ success: true, invocation: { args: { query: '登录 重构' } } });
+      expect(resolveCommand(COMMANDS.mode!, ['STEER'])).toMatchObject({ success: true, invocation: { args: { mode: 'steer' } } });
+    });
+
+    test('walks into subcommands', () => {
+      const result = resolveCommand(COMMANDS.idle!, ['archive', '7']);
+
+      expect(result).toMatchObject({ success: true, invocation: { subcommands: ['archive'], args: { days: 7 } } });
+    });
+
+    test('parses declared options in both forms', () => {
+      expect(resolveCommand(COMMANDS.export!, ['md', '--title=复盘'])).toMatchObject({
+        success: true,
+        invocation: { args: { format: 'md' }, options: { title: '复盘' } },
+      });
+      expect(resolveCommand(COMMANDS.export!, ['--title', '复盘'])).toMatchObject({
+        success: true,
+        invocation: { args: {}, options: { title: '复盘' } },
+      });
+    });
+
+    test('resolves the model flag and plugin subcommands', () => {
+      expect(resolveCommand(COMMANDS.model!, ['--session', 'gpt-4o'])).toMatchObject({
+        success: true,
+        invocation: { args: { model: 'gpt-4o' }, options: { session: true } },
+      });
+      expect(resolveCommand(COMMANDS.plugin!, ['enable', 'foo'])).toMatchObject({
+        success: true,
+        invocation: { subcommands: ['enable'], args: { name: 'foo' } },
+      });
+      expect(resolveCommand(COMMANDS.plugin!, ['disable'])).toMatchObject({
+        success: false,
+        error: '缺少参数 <插件名>',
+        usage: '/plugin disable <插件名>',
+      });
+      expect(resolveCommand(COMMANDS.model!, ['--session=yes'])).toMatchObject({ success: false, error: '选项 --session 不接受取值' });
+    });
+
+    test('treats dashes as text for commands without options', () => {
+      expect(resolveCommand(COMMANDS.search!, ['--verbose'])).toMatchObject({ success: true, invocation: { args: { query: '--verbose' } } });
+    });
+
+    test('generates usage errors', () => {
+      expect(resolveCommand(COMMANDS.switch_project!, [])).toEqual({
+        success: false,
+        error: '缺少参数 <路径>',
+        usage: '/switch_project <路径...>',
+      });
+      expect(resolveCommand(COMMANDS.idle!, ['archive', 'soon'])).toMatchObject({
+        success: false,
+        error: '参数 <天数> 需要是数字，收到: soon',
+        usage: '/idle archive <天数>',
+      });
+      expect(resolveCommand(COMMANDS.idle!, ['pause'])).toMatchObject({ success: false, error: '未知子命令: pause' });
+      expect(resolveCommand(COMMANDS.export!, ['pdf'])).toMatchObject({ success: false, error: expect.stringContaining('doc|md|json') });
+      expect(resolveCommand(COMMANDS.export!, ['--format=md'])).toMatchObject({ success: false, error: '未知选项 --format' });
+      expect(resolveCommand(COMMANDS.whitelist_add!, ['u1', 'u2'])).toMatchObject({ success: false, error: '多余的参数: u2' });
+    });
   });
 
   describe('getCommand', () => {
@@ -108,6 +203,13 @@ describe('Command Parser', () => {
       expect(message).not.toContain('/whitelist_add');
     });
 
+    test('lists subcommands under their command', () => {
+      const message = formatHelpMessage(true);
+
+      expect(message).toContain('`/idle archive <天数>` 空闲指定天数后归档当前会话群');
+      expect(message).toContain('/help <命令>');
+    });
+
     test('formats help message for admin', () => {
       const message = formatHelpMessage(true);
       
@@ -115,4 +217,276 @@ describe('Command Parser', () => {
       expect(message).toContain('/whitelist_remove');
     });
   });
+
+  describe('formatCommandHelp', () => {
+    test('describes arguments, options and subcommands', () => {
+      const exportHelp = formatCommandHelp(COMMANDS.export!);
+      expect(exportHelp).toContain('用法: `/export [doc|md|json] [--title=<标题>]`');
+      expect(exportHelp).toContain('`--title=<标题>` 导出的标题');
+
+      const idleHelp = formatCommandHelp(COMMANDS.idle!);
+      expect(idleHelp).toContain('（仅管理员）');
+      expect(idleHelp).toContain('- `/idle disband <on|off>` 归档时是否解散群聊');
+
+      expect(formatCommandHelp(COMMANDS.model!)).toContain('用法: `/model [编号或模型ID] [--session]`');
+      const pluginHelp = formatCommandHelp(COMMANDS.plugin!);
+      expect(pluginHelp).toContain('- `/plugin enable <插件名>` 启用插件');
+      expect(pluginHelp).toContain('  - `<插件名>` 文本，必填');
+    });
+
+    test('builds usage from metadata', () => {
+      expect(formatUsage(COMMANDS.idle!)).toBe('/idle [list|keep|archive|disband|reset]');
+      expect(formatUsage(COMMANDS.fork!)).toBe('/fork [标题...]');
+    });
+  });
+
+  describe('CommandRegistry', () => {
+    const pluginCommands = new Map<string, RegisteredCommand>([
+      ['deploy', { handler: async () => 'ok', source: 'ops-plugin', description: '部署当前分支', adminOnly: true }],
+      ['weather', { handler: async () => 'sunny', source: 'fun-plugin' }],
+    ]);
+    const registry = new CommandRegistry({
+      getCommand: (name) => pluginCommands.get(name),
+      listCommands: () => [...pluginCommands.keys()],
+    });
+
+    test('merges built-in and plugin commands', () => {
+      expect(registry.get('help')).toBe(COMMANDS.help!);
+      expect(registry.get('weather')).toMatchObject({ name: 'weather', source: 'fun-plugin', adminOnly: false });
+      expect(registry.get('toString')).toBeUndefined();
+    });
+
+    test('applies admin filtering to plugin commands', () => {
+      expect(registry.list(false).map(c => c.name)).toContain('weather');
+      expect(registry.list(false).map(c => c.name)).not.toContain('deploy');
+      expect(registry.list(true).map(c => c.name)).toContain('deploy');
+    });
+
+    test('shows the plugin source in help', () => {
+      const message = formatHelpMessage(true, registry.list(true));
+
+      expect(message).toContain('部署当前分支（插件 ops-plugin）');
+      expect(formatCommandHelp(registry.get('deploy')!)).toContain('来源: 插件 ops-plugin');
+    });
+  });
+
+  describe('suggestCommands', () => {
+    test('counts swapped letters as one edit', () => {
+      expect(editDistance('modle', 'model')).toBe(1);
+      expect(editDistance('stauts', 'status')).toBe(1);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+
+    test('suggests the closest commands first', () => {
+      const names = Object.keys(COMMANDS);
+
+      expect(suggestCommands('modle', names)[0]).toBe('model');
+      expect(suggestCommands('stauts', names)).toEqual(['status']);
+      expect(suggestCommands('comp', names)).toEqual(['compact']);
+      expect(suggestCommands('deploy', names)).toEqual([]);
+    });
+  });
+
+  describe('CommandRegistry aliases', () => {
+    const registry = new CommandRegistry(undefined, {
+      m: '/model',
+      ship: '/compact && /export doc',
+      help: '/status',
+    });
+
+    test('expands aliases but never shadows commands', () => {
+      expect(registry.getAlias('m')).toBe('/model');
+      expect(registry.getAlias('help')).toBeUndefined();
+      expect(registry.listAliases()).toEqual([['m', '/model'], ['ship', '/compact && /export doc']]);
+    });
+
+    test('suggests aliases and only the commands the user may run', () => {
+      expect(registry.suggest('shp', false)).toContain('ship');
+      expect(registry.suggest('queu', false)).toEqual([]);
+      expect(registry.suggest('queu', true)).toEqual(['queue']);
+    });
+  });
+});
+
+function createHandlerAgent(id: string, models: ModelInfo[] = []) {
+  let created = 0;
+  return {
+    id,
+    listModels: mock(async () => models),
+    createSession: mock(async () => `${id}_ses_${++created}`),
+    suspendSession: mock(async (_sessionId: string) => {}),
+    switchModel: mock(async (_sessionId: string, _model: string) => {}),
+  } as unknown as IAgentRuntime;
+}
+
+function createTestHandler(config: Partial<CommandHandlerConfig> = {}, agent = createHandlerAgent('opencode')) {
+  const sent: string[] = [];
+  const channel = {
+    id: 'feishu',
+    sendTextMessage: mock(async (_chatId: string, text: string) => { sent.push(text); return 'msg_1'; }),
+    sendCard: mock(async () => 'msg_1'),
+  } as unknown as FeishuChannel;
+  const handler = createCommandHandler(channel, agent, {
+    projects: [],
+    availableModels: [],
+    defaultProjectPath: '/srv/default',
+    adminUserIds: [],
+    ...config,
+  });
+  return { handler, sent, agent };
+}
+
+describe('CommandHandler', () => {
+  const member = { chatId: 'oc_group', userId: 'ou_member', isAdmin: false, chatType: 'group' as const };
+  const owner = { ...member, userId: 'ou_owner' };
+  const group: SessionGroupInfo = {
+    chatId: 'oc_group',
+    sessionKey: { channelId: 'feishu', chatId: 'oc_group', keyType: 'chat' },
+    createdAt: Date.now(),
+    createdBy: 'ou_owner',
+  };
+
+  describe('/exit', () => {
+    test('only lets the creator or an admin disband the group', async () => {
+      const deleteSessionGroup = mock(async (_chatId: string) => {});
+      const { handler, sent } = createTestHandler({ getSessionGroup: () => group, deleteSessionGroup });
+
+      await handler.handle('/exit', member);
+
+      expect(deleteSessionGroup).not.toHaveBeenCalled();
+      expect(sent[0]).toContain('只有会话群创建者或管理员');
+
+      await handler.handle('/exit', { ...member, isAdmin: true });
+      expect(deleteSessionGroup).toHaveBeenCalledWith('oc_group');
+    });
+
+    test('disbands the group and forgets every session in it', async () => {
+      const deleteSessionGroup = mock(async (_chatId: string) => {});
+      const onChatDeleted = mock((_chatId: string) => {});
+      const { handler } = createTestHandler({ getSessionGroup: () => group, deleteSessionGroup, onChatDeleted });
+      await handler.handle('/session_mode user_chat', owner);
+      handler.setSessionId('oc_group', 'ses_member', 'opencode', 'ou_member');
+      handler.setSessionId('oc_group', 'ses_owner', 'opencode', 'ou_owner');
+
+      await handler.handle('/exit', owner);
+
+      expect(deleteSessionGroup).toHaveBeenCalledWith('oc_group');
+      expect(onChatDeleted).toHaveBeenCalledWith('oc_group');
+      expect(handler.getKeyType('oc_group')).toBe('chat');
+      expect(handler.getSession('oc_group').sessionId).toBeUndefined();
+
+      await handler.handle('/session_mode user_chat', owner);
+      expect(handler.getSession('oc_group', 'ou_member').sessionId).toBeUndefined();
+    });
+
+    test('refuses outside session groups', async () => {
+      const deleteSessionGroup = mock(async (_chatId: string) => {});
+      const { handler, sent } = createTestHandler({ getSessionGroup: () => undefined, deleteSessionGroup });
+
+      await handler.handle('/exit', owner);
+
+      expect(deleteSessionGroup).not.toHaveBeenCalled();
+      expect(sent[0]).toContain('当前不是会话群');
+    });
+  });
+
+  describe('/switch_project', () => {
+    test('only accepts directories inside the project roots', async () => {
+      const dir = realpathSync(mkdtempSync(join(tmpdir(), 'switch-project-')));
+      const root = join(dir, 'projects');
+      mkdirSync(join(root, 'app'), { recursive: true });
+      mkdirSync(join(dir, 'outside'));
+      const context = { chatId: 'chat_1', userId: 'ou_a', isAdmin: false };
+      try {
+        const { handler, sent } = createTestHandler({ projectRoots: [root] });
+
+        await handler.handle(`/switch_project ${join(dir, 'outside')}`, context);
+        await handler.handle(`/switch_project ${join(root, 'app', '..', '..', 'outside')}`, context);
+
+        expect(sent.every(text => text.includes('不在允许的项目根目录内'))).toBe(true);
+        expect(handler.getSession('chat_1').projectPath).toBe('/srv/default');
+
+        await handler.handle(`/switch_project ${join(root, 'app')}`, context);
+        expect(handler.getSession('chat_1').projectPath).toBe(join(root, 'app'));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('/new_session', () => {
+    test('replaces the session mapping of the chat', async () => {
+      const onSessionChange = mock((_key: string, _session: unknown) => {});
+      const { handler, agent } = createTestHandler({ onSessionChange });
+      const context = { chatId: 'chat_1', userId: 'ou_a', isAdmin: false };
+      handler.setSessionId('chat_1', 'ses_old', 'opencode');
+
+      await handler.handle('/new_session', context);
+
+      expect(agent.suspendSession).toHaveBeenCalledWith('ses_old');
+      expect(handler.getSession('chat_1').sessionId).toBe('opencode_ses_1');
+      expect(onSessionChange).toHaveBeenLastCalledWith('chat_1', expect.objectContaining({ sessionId: 'opencode_ses_1', agentId: 'opencode' }));
+    });
+  });
+
+  describe('/model', () => {
+    test('lists and validates the models of the session agent', async () => {
+      const claude = createHandlerAgent('claude', [{ id: 'claude-sonnet', name: 'Claude Sonnet' }]);
+      const { handler, sent } = createTestHandler(
+        { getAgent: (id) => id === 'claude' ? claude : undefined },
+        createHandlerAgent('opencode', [{ id: 'gpt-4o', name: 'GPT-4o' }])
+      );
+      const context = { chatId: 'chat_1', userId: 'ou_a', isAdmin: false };
+      handler.setSessionId('chat_1', 'ses_claude', 'claude');
+
+      await handler.handle('/model', context);
+      expect(sent[0]).toContain('claude-sonnet');
+      expect(sent[0]).not.toContain('gpt-4o');
+
+      await handler.handle('/model gpt-4o', context);
+      expect(sent[1]).toContain('无效的模型');
+
+      await handler.handle('/model claude-sonnet', context);
+      expect(claude.switchModel).toHaveBeenCalledWith('ses_claude', 'claude-sonnet');
+      expect(handler.getSession('chat_1').model).toBe('claude-sonnet');
+    });
+
+    test('switches only the current session with --session', async () => {
+      const { handler, agent, sent } = createTestHandler({}, createHandlerAgent('opencode', [{ id: 'gpt-4o', name: 'GPT-4o' }]));
+      const context = { chatId: 'chat_1', userId: 'ou_a', isAdmin: false };
+
+      await handler.handle('/model --session gpt-4o', context);
+      expect(sent[0]).toContain('当前没有会话');
+
+      handler.setSessionId('chat_1', 'ses_1', 'opencode');
+      await handler.handle('/model --session gpt-4o', context);
+
+      expect(agent.switchModel).toHaveBeenCalledWith('ses_1', 'gpt-4o');
+      expect(handler.getSession('chat_1').model).toBeUndefined();
+      expect(sent[1]).toContain('当前会话已切换到模型: GPT-4o');
+    });
+  });
+
+  describe('/plugin', () => {
+    test('enables and disables discovered plugins', async () => {
+      const plugins = [{ name: 'foo', version: '1.0.0', loaded: false }];
+      const setPluginEnabled = mock(async (name: string, enabled: boolean) => {
+        plugins.find(p => p.name === name)!.loaded = enabled;
+      });
+      const { handler, sent } = createTestHandler({ listPlugins: () => plugins, setPluginEnabled });
+      const admin = { chatId: 'chat_1', userId: 'ou_admin', isAdmin: true };
+
+      await handler.handle('/plugin enable foo', admin);
+      expect(setPluginEnabled).toHaveBeenCalledWith('foo', true);
+
+      await handler.handle('/plugin list', admin);
+      expect(sent[1]).toContain('`foo` v1.0.0 已启用');
+
+      await handler.handle('/plugin disable bar', admin);
+      expect(sent[2]).toContain('未找到插件: bar');
+
+      await handler.handle('/plugin disable foo', admin);
+      expect(setPluginEnabled).toHaveBeenLastCalledWith('foo', false);
+    });
+  });
 });
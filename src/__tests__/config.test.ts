@@ -1,8 +1,8 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { loadConfig, CONFIG_DIR, CONFIG_FILE } from '../config';
+import { loadConfig, getProjectInstructions, getProjectRoots, getCommandAliases, canUseProject, CONFIG_DIR, CONFIG_FILE } from '../config';
 import { mkdirSync, writeFileSync, rmSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
-import { tmpdir } from 'node:os';
+import { tmpdir, homedir } from 'node:os';
 
 describe('Config', () => {
   const testDir = join(tmpdir(), 'opencode-bot-test-' + Date.now());
@@ -63,6 +63,23 @@ level = "debug"
     expect(config.agents).toEqual([]);
     expect(config.bindings.defaultAgent).toBe('opencode');
     expect(config.bindings.rules).toEqual([]);
+    expect(config.queue).toEqual({
+      maxConcurrency: 10,
+      collectWindowMs: 0,
+      taskTimeoutMs: 0,
+      maxPerUser: 0,
+      maxPerGroup: 0,
+      adminWeight: 2,
+      persist: true,
+    });
+    expect(config.session).toEqual({
+      idleTimeoutMinutes: 30,
+      archiveAfterDays: 7,
+      disbandOnArchive: false,
+      autoCompact: true,
+      compactAtPercent: 80,
+      memoryFlush: true,
+    });
     expect(config.mcp.servers).toEqual({});
     expect(config.mcp.clients).toEqual([]);
     expect(config.hooks.enabled).toBe(true);
@@ -95,6 +112,29 @@ enabled = true
     expect(agent.enabled).toBe(true);
   });
   
+  test('should reject a default agent that is not an enabled agent', () => {
+    const tomlContent = `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[agents]]
+id = "opencode"
+type = "opencode"
+
+[[agents]]
+id = "premium"
+type = "opencode"
+enabled = false
+
+[bindings]
+default_agent = "premium"
+`;
+    writeFileSync(testConfigFile, tomlContent);
+    
+    expect(() => loadConfig({ configFile: testConfigFile })).toThrow('默认 Agent premium 不在已启用的 [[agents]] 中');
+  });
+  
   test('should load bindings config from TOML', () => {
     const tomlContent = `
 [feishu]
@@ -107,6 +147,8 @@ default_agent = "custom-agent"
 [[bindings.rules]]
 id = "vip"
 agent_id = "premium"
+fallback_agents = ["opencode"]
+timeout_ms = 600000
 priority = 10
 [bindings.rules.match]
 user_id = ["ou_vip1", "ou_vip2"]
@@ -120,10 +162,194 @@ user_id = ["ou_vip1", "ou_vip2"]
     const rule = config.bindings.rules[0]!;
     expect(rule.id).toBe('vip');
     expect(rule.agentId).toBe('premium');
+    expect(rule.fallbackAgents).toEqual(['opencode']);
+    expect(rule.timeoutMs).toBe(600000);
     expect(rule.priority).toBe(10);
     expect(rule.match?.userId).toEqual(['ou_vip1', 'ou_vip2']);
   });
   
+  test('should load declarative binding conditions from TOML', () => {
+    const tomlContent = `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[bindings.rules]]
+id = "evening"
+agent_id = "cheap"
+[bindings.rules.match]
+message_type = ["image", "post"]
+mentioned_bot = true
+is_session_group = false
+time_window = { start = "19:00", end = "08:00", weekdays = [1, 2, 3, 4, 5], timezone = "Asia/Shanghai" }
+not = { user_id = "ou_blocked" }
+any = [{ chat_type = "group" }, { message_pattern = "^deploy" }]
+`;
+    writeFileSync(testConfigFile, tomlContent);
+    
+    const config = loadConfig({ configFile: testConfigFile });
+    
+    const match = config.bindings.rules[0]!.match!;
+    expect(match.messageType).toEqual(['image', 'post']);
+    expect(match.mentionedBot).toBe(true);
+    expect(match.isSessionGroup).toBe(false);
+    expect(match.timeWindow).toEqual({ start: '19:00', end: '08:00', weekdays: [1, 2, 3, 4, 5], timezone: 'Asia/Shanghai' });
+    expect(match.not?.userId).toBe('ou_blocked');
+    expect(match.any).toHaveLength(2);
+    expect(match.any?.[1]?.messagePattern).toBe('^deploy');
+  });
+  
+  test('should reject invalid binding time windows', () => {
+    const tomlContent = `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[bindings.rules]]
+id = "bad"
+agent_id = "cheap"
+[bindings.rules.match]
+time_window = { start = "25:00", timezone = "Mars/Olympus" }
+`;
+    writeFileSync(testConfigFile, tomlContent);
+    
+    expect(() => loadConfig({ configFile: testConfigFile })).toThrow('配置验证失败');
+  });
+  
+  test('should load queue and timeout config from TOML', () => {
+    const tomlContent = `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[queue]
+max_concurrency = 4
+collect_window_ms = 800
+task_timeout_ms = 60000
+max_per_user = 2
+admin_weight = 3
+persist = false
+
+[[projects]]
+path = "/srv/infra"
+name = "infra"
+timeout_ms = 900000
+`;
+    writeFileSync(testConfigFile, tomlContent);
+    
+    const config = loadConfig({ configFile: testConfigFile });
+    
+    expect(config.queue).toEqual({
+      maxConcurrency: 4,
+      collectWindowMs: 800,
+      taskTimeoutMs: 60000,
+      maxPerUser: 2,
+      maxPerGroup: 0,
+      adminWeight: 3,
+      persist: false,
+    });
+    expect(config.projects[0]!.timeoutMs).toBe(900000);
+  });
+  
+  test('should load per-project settings from TOML', () => {
+    writeFileSync(join(testDir, 'AGENTS.md'), '部署前先跑 terraform plan');
+    const tomlContent = `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[projects]]
+path = "${testDir}"
+name = "infra"
+system_prompt = "你是运维助手"
+instructions_file = "AGENTS.md"
+model = "anthropic/claude-sonnet-4"
+agent = "ops"
+queue_mode = "followup"
+allowed_users = ["ou_ops"]
+`;
+    writeFileSync(testConfigFile, tomlContent);
+
+    const project = loadConfig({ configFile: testConfigFile }).projects[0]!;
+
+    expect(project).toMatchObject({
+      model: 'anthropic/claude-sonnet-4',
+      agent: 'ops',
+      queueMode: 'followup',
+      allowedUsers: ['ou_ops'],
+    });
+    expect(getProjectInstructions(project)).toBe('你是运维助手\n\n部署前先跑 terraform plan');
+    expect(canUseProject(project, 'ou_ops', false)).toBe(true);
+    expect(canUseProject(project, 'ou_dev', false)).toBe(false);
+    expect(canUseProject(project, 'ou_dev', true)).toBe(true);
+  });
+
+  test('should reject an unknown project queue mode', () => {
+    writeFileSync(testConfigFile, `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[projects]]
+path = "/srv/app"
+queue_mode = "fifo"
+`);
+
+    expect(() => loadConfig({ configFile: testConfigFile })).toThrow();
+  });
+
+  test('should fall back to configured projects when no project roots are set', () => {
+    writeFileSync(testConfigFile, `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[[projects]]
+path = "/srv/app"
+`);
+    expect(getProjectRoots(loadConfig({ configFile: testConfigFile }), '/srv/default')).toEqual(['/srv/app', '/srv/default']);
+
+    writeFileSync(testConfigFile, `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[admin]
+project_roots = ["/srv/repos", "~/work"]
+`);
+    expect(getProjectRoots(loadConfig({ configFile: testConfigFile }), '/srv/default')).toEqual(['/srv/repos', join(homedir(), 'work')]);
+  });
+
+  test('should load command aliases from TOML', () => {
+    writeFileSync(testConfigFile, `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[commands.aliases]
+"/m" = "/model"
+"/Ship" = "/compact && /export doc"
+`);
+
+    expect(getCommandAliases(loadConfig({ configFile: testConfigFile }))).toEqual({
+      m: '/model',
+      ship: '/compact && /export doc',
+    });
+  });
+
+  test('should reject aliases that do not expand to commands', () => {
+    writeFileSync(testConfigFile, `
+[feishu]
+app_id = "test_id"
+app_secret = "test_secret"
+
+[commands.aliases]
+"/ship" = "/compact && export doc"
+`);
+
+    expect(() => loadConfig({ configFile: testConfigFile })).toThrow();
+  });
+
   test('should load MCP config from TOML', () => {
     const tomlContent = `
 [feishu]
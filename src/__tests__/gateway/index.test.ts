@@ -1,9 +1,15 @@
 import { describe, test, expect, beforeEach, mock } from 'bun:test';
-import { Gateway } from '../../gateway/gateway';
-import type { IChannel, ChannelCapabilities, ChannelCapability, ChannelEventHandler, ChannelEventType, CardUpdateResult } from '../../types/channel';
-import type { IAgentRuntime, AgentEventHandler, ModelInfo } from '../../types/agent';
-import type { Binding } from '../../types/binding';
-import type { UnifiedReply } from '../../types/message';
+import { Gateway, type GatewayDependencies, type CompletedTurn } from '../../gateway/gateway';
+import { createHookManager } from '../../hooks';
+import type { AgentSwitchedHook } from '../../types/hook';
+import type { IChannel, ChannelCapabilities, ChannelCapability, ChannelEventHandler, ChannelEventType, CardUpdateResult, CardActionEvent } from '../../types/channel';
+import type { IAgentRuntime, AgentEventHandler, AnyAgentEvent, ModelInfo, SendOptions } from '../../types/agent';
+import type { Binding, BindingContext } from '../../types/binding';
+import type { SessionKey } from '../../types/session';
+import type { UnifiedReply, ActionBlock } from '../../types/message';
+import type { MessageEvent } from '../../types/channel';
+import { MemoryQueueStore, getPendingMessageId, toPersistedEvent } from '../../queue/store';
+import { SessionManager } from '../../session/manager';
 
 function createMockChannel(id: string, type: string = 'test'): IChannel {
   let connected = false;
@@ -41,6 +47,9 @@ function createMockAgent(id: string, type: string = 'test'): IAgentRuntime {
     shutdown: mock(async () => { initialized = false; }),
     createSession: mock(async (_projectPath: string, _model?: string) => 'session_123'),
     getOrCreateSession: mock(async (_projectPath: string, _model?: string) => 'session_123'),
+    resumeSession: mock(async (_sessionId: string, _projectPath: string, _model?: string) => true),
+    suspendSession: mock(async (_sessionId: string) => {}),
+    forkSession: mock(async (_sessionId: string, _projectPath: string, _model?: string) => 'session_fork'),
     switchModel: mock(async (_sessionId: string, _model: string) => {}),
     clearHistory: mock(async (_sessionId: string) => {}),
     send: mock(async (_sessionId: string, _message: string) => {}),
@@ -54,6 +63,49 @@ function createMockAgent(id: string, type: string = 'test'): IAgentRuntime {
   };
 }
 
+function createStreamingAgent(
+  id: string,
+  respond: (message: string, sessionId: string) => AnyAgentEvent[] = (message, sessionId) => [
+    { type: 'message.delta', sessionId, timestamp: Date.now(), messageId: 'm1', delta: `echo: ${message}` },
+    { type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm1', content: [] },
+  ]
+): IAgentRuntime & { sent: string[] } {
+  const agent = createMockAgent(id) as IAgentRuntime & { sent: string[] };
+  const handlers = new Set<AgentEventHandler>();
+  agent.sent = [];
+  agent.createSession = mock(async () => `${id}_session`);
+  agent.subscribe = mock((_sessionId: string, handler: AgentEventHandler) => {
+    handlers.add(handler);
+    return () => handlers.delete(handler);
+  });
+  agent.send = mock(async (sessionId: string, message: string) => {
+    agent.sent.push(message);
+    setTimeout(() => {
+      for (const event of respond(message, sessionId)) {
+        for (const handler of [...handlers]) handler(event);
+      }
+    }, 5);
+  });
+  return agent;
+}
+
+function createMessageEvent(content: string, overrides: Partial<MessageEvent> = {}): MessageEvent {
+  return {
+    type: 'message',
+    eventId: `evt_${content}`,
+    channelId: 'ch1',
+    timestamp: Date.now(),
+    messageId: `om_${content}`,
+    chatId: 'chat_1',
+    chatType: 'private',
+    senderId: 'user_1',
+    senderType: 'user',
+    messageType: 'text',
+    content,
+    ...overrides,
+  };
+}
+
 describe('Gateway', () => {
   let gateway: Gateway;
 
@@ -298,4 +350,922 @@ describe('Gateway', () => {
       expect(a2.initialize).toHaveBeenCalled();
     });
   });
+
+  describe('Message Dispatch', () => {
+    function createDispatchGateway(bindings: Binding[] = [], extra: Partial<GatewayDependencies> = {}) {
+      const sessions = new Map<string, string>();
+      return new Gateway(
+        { defaultAgent: 'default-agent', bindings },
+        {
+          ...extra,
+          resolveSession: async (context, agent) => {
+            const key = `${context.chatId}:${agent.id}`;
+            let sessionId = sessions.get(key);
+            if (!sessionId) {
+              sessionId = await agent.createSession('/test');
+              sessions.set(key, sessionId);
+            }
+            return sessionId;
+          },
+        }
+      );
+    }
+
+    test('should stream the agent reply back through the channel', async () => {
+      const dispatchGateway = createDispatchGateway();
+      const channel = createMockChannel('ch1', 'feishu');
+      const agent = createStreamingAgent('default-agent');
+      dispatchGateway.registerChannel(channel);
+      dispatchGateway.registerAgent(agent);
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      expect(agent.sent).toEqual(['hello']);
+      expect(channel.sendMessage).toHaveBeenCalledTimes(1);
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const last = updates[updates.length - 1]![1] as UnifiedReply;
+      expect(last.status).toBe('completed');
+      expect(last.blocks).toContainEqual({ type: 'text', content: 'echo: hello' });
+    });
+
+    test('should route messages to the agent selected by bindings', async () => {
+      const dispatchGateway = createDispatchGateway([
+        { id: 'vip', agentId: 'premium-agent', priority: 10, enabled: true, match: { userId: 'vip_user' } },
+      ]);
+      const defaultAgent = createStreamingAgent('default-agent');
+      const premiumAgent = createStreamingAgent('premium-agent');
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(defaultAgent);
+      dispatchGateway.registerAgent(premiumAgent);
+
+      await dispatchGateway.dispatch(createMessageEvent('from vip', { senderId: 'vip_user' }));
+      await dispatchGateway.dispatch(createMessageEvent('from normal'));
+
+      expect(premiumAgent.sent).toEqual(['from vip']);
+      expect(defaultAgent.sent).toEqual(['from normal']);
+    });
+
+    test('should let the project agent replace the default route but not a matched binding', async () => {
+      const dispatchGateway = createDispatchGateway(
+        [{ id: 'vip', agentId: 'premium-agent', priority: 10, enabled: true, match: { userId: 'vip_user' } }],
+        { getDefaultAgent: () => 'project-agent' }
+      );
+      const premiumAgent = createStreamingAgent('premium-agent');
+      const projectAgent = createStreamingAgent('project-agent');
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(createStreamingAgent('default-agent'));
+      dispatchGateway.registerAgent(premiumAgent);
+      dispatchGateway.registerAgent(projectAgent);
+
+      await dispatchGateway.dispatch(createMessageEvent('from vip', { senderId: 'vip_user' }));
+      await dispatchGateway.dispatch(createMessageEvent('from normal'));
+
+      expect(premiumAgent.sent).toEqual(['from vip']);
+      expect(projectAgent.sent).toEqual(['from normal']);
+    });
+
+    test('should explain routes with the same project agent dispatch picks', () => {
+      const dispatchGateway = createDispatchGateway(
+        [{ id: 'vip', agentId: 'premium-agent', priority: 10, enabled: true, match: { userId: 'vip_user' } }],
+        { getDefaultAgent: () => 'project-agent' }
+      );
+      const context = { channelId: 'ch1', channelType: 'feishu', chatId: 'chat1', chatType: 'private' as const };
+
+      expect(dispatchGateway.explainRoute({ ...context, userId: 'user1' }).result.agentId).toBe('project-agent');
+      expect(dispatchGateway.explainRoute({ ...context, userId: 'vip_user' }).result.agentId).toBe('premium-agent');
+    });
+
+    test('should send the project system prompt with each turn', async () => {
+      const dispatchGateway = createDispatchGateway([], { getSystemPrompt: () => '你是运维助手' });
+      const agent = createStreamingAgent('default-agent');
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(agent);
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      expect((agent.send as ReturnType<typeof mock>).mock.calls[0]![2]).toEqual({ systemPrompt: '你是运维助手' });
+    });
+
+    test('should run turns of the same chat one after another', async () => {
+      const dispatchGateway = createDispatchGateway([], { getQueueMode: () => 'followup' });
+      const agent = createStreamingAgent('default-agent');
+      const order: string[] = [];
+      const originalSend = agent.send;
+      agent.send = mock(async (sessionId: string, message: string) => {
+        order.push(`start:${message}`);
+        await originalSend(sessionId, message);
+      });
+      agent.subscribe = ((subscribe) => mock((sessionId: string, handler: AgentEventHandler) =>
+        subscribe(sessionId, (event) => {
+          if (event.type === 'message.complete') order.push('complete');
+          handler(event);
+        })
+      ))(agent.subscribe);
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(agent);
+
+      await Promise.all([
+        dispatchGateway.dispatch(createMessageEvent('first')),
+        dispatchGateway.dispatch(createMessageEvent('second')),
+      ]);
+
+      expect(order).toEqual(['start:first', 'complete', 'start:second', 'complete']);
+    });
+
+    test('should skip messages handled by the interceptor', async () => {
+      const dispatchGateway = createDispatchGateway([], {
+        interceptMessage: async (event) => event.content.startsWith('/'),
+      });
+      const agent = createStreamingAgent('default-agent');
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(agent);
+
+      await dispatchGateway.dispatch(createMessageEvent('/help'));
+
+      expect(agent.sent).toEqual([]);
+    });
+
+    test('should report completed turns with the prompt and reply', async () => {
+      const completed: CompletedTurn[] = [];
+      const dispatchGateway = createDispatchGateway([], { onTurnCompleted: (turn) => { completed.push(turn); } });
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(createStreamingAgent('default-agent'));
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      expect(completed).toHaveLength(1);
+      expect(completed[0]).toMatchObject({ agentId: 'default-agent', prompt: 'hello', reply: 'echo: hello' });
+      expect(completed[0]!.sessionId).toBeTruthy();
+    });
+
+    test('should pass token usage and model from the final event to completed turns', async () => {
+      const completed: CompletedTurn[] = [];
+      const dispatchGateway = createDispatchGateway([], { onTurnCompleted: (turn) => { completed.push(turn); } });
+      dispatchGateway.registerChannel(createMockChannel('ch1'));
+      dispatchGateway.registerAgent(createStreamingAgent('default-agent', (_message, sessionId) => [
+        { type: 'message.delta', sessionId, timestamp: Date.now(), messageId: 'm1', delta: 'done' },
+        {
+          type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm1', content: [],
+          usage: { inputTokens: 10, outputTokens: 5, contextTokens: 42000 }, model: 'openai/gpt-4o',
+        },
+      ]));
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      expect(completed[0]).toMatchObject({ model: 'openai/gpt-4o', usage: { contextTokens: 42000 } });
+    });
+
+    test('should mark the reply as failed on agent error', async () => {
+      const dispatchGateway = createDispatchGateway();
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent', (_message, sessionId) => [
+        { type: 'error', sessionId, timestamp: Date.now(), message: 'provider down', recoverable: false },
+      ]);
+      dispatchGateway.registerChannel(channel);
+      dispatchGateway.registerAgent(agent);
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const last = updates[updates.length - 1]![1] as UnifiedReply;
+      expect(last.status).toBe('error');
+      expect(last.blocks).toContainEqual({ type: 'error', message: 'provider down' });
+    });
+
+    test('should report an error when the routed agent is missing', async () => {
+      const dispatchGateway = createDispatchGateway();
+      const channel = createMockChannel('ch1');
+      dispatchGateway.registerChannel(channel);
+
+      await dispatchGateway.dispatch(createMessageEvent('hello'));
+
+      const reply = (channel.sendMessage as ReturnType<typeof mock>).mock.calls[0]![1] as UnifiedReply;
+      expect(reply.status).toBe('error');
+    });
+  });
+
+  describe('Agent Fallback', () => {
+    const failing = (recoverable: boolean) => (_message: string, sessionId: string): AnyAgentEvent[] => [
+      { type: 'error', sessionId, timestamp: Date.now(), message: 'provider down', recoverable },
+    ];
+
+    function createFallbackGateway(hookManager = createHookManager()) {
+      return new Gateway(
+        {
+          defaultAgent: 'default-agent',
+          bindings: [{
+            id: 'with-fallback',
+            agentId: 'primary',
+            fallbackAgents: ['backup'],
+            priority: 10,
+            enabled: true,
+          }],
+        },
+        {
+          hookManager,
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+    }
+
+    test('should replay the turn on the fallback agent after a non-recoverable error', async () => {
+      const hookManager = createHookManager();
+      const switched: AgentSwitchedHook[] = [];
+      const backup = createStreamingAgent('backup');
+      hookManager.register('agent.switched', async (event) => {
+        expect(backup.sent).toEqual([]);
+        switched.push(event as AgentSwitchedHook);
+      });
+      const fallbackGateway = createFallbackGateway(hookManager);
+      const channel = createMockChannel('ch1');
+      const primary = createStreamingAgent('primary', failing(false));
+      fallbackGateway.registerChannel(channel);
+      fallbackGateway.registerAgent(primary);
+      fallbackGateway.registerAgent(backup);
+
+      await fallbackGateway.dispatch(createMessageEvent('hello'));
+
+      expect(primary.sent).toEqual(['hello']);
+      expect(backup.sent).toEqual(['hello']);
+      expect(switched).toHaveLength(1);
+      expect(switched[0]!.fromAgent).toBe('primary');
+      expect(switched[0]!.toAgent).toBe('backup');
+      expect(switched[0]!.reason).toContain('provider down');
+      expect(switched[0]!.sessionId).toBe('primary_session');
+
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const last = updates[updates.length - 1]![1] as UnifiedReply;
+      expect(last.status).toBe('completed');
+      expect(last.blocks).toContainEqual({ type: 'text', content: 'echo: hello' });
+    });
+
+    test('should fall back when send throws', async () => {
+      const fallbackGateway = createFallbackGateway();
+      const primary = createStreamingAgent('primary');
+      primary.send = mock(async () => { throw new Error('connection refused'); });
+      const backup = createStreamingAgent('backup');
+      fallbackGateway.registerChannel(createMockChannel('ch1'));
+      fallbackGateway.registerAgent(primary);
+      fallbackGateway.registerAgent(backup);
+
+      await fallbackGateway.dispatch(createMessageEvent('hello'));
+
+      expect(backup.sent).toEqual(['hello']);
+    });
+
+    test('should not fall back on recoverable errors', async () => {
+      const fallbackGateway = createFallbackGateway();
+      const channel = createMockChannel('ch1');
+      const primary = createStreamingAgent('primary', failing(true));
+      const backup = createStreamingAgent('backup');
+      fallbackGateway.registerChannel(channel);
+      fallbackGateway.registerAgent(primary);
+      fallbackGateway.registerAgent(backup);
+
+      await fallbackGateway.dispatch(createMessageEvent('hello'));
+
+      expect(backup.sent).toEqual([]);
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      expect((updates[updates.length - 1]![1] as UnifiedReply).status).toBe('error');
+    });
+
+    test('should use fallback agents when the primary is not registered', async () => {
+      const fallbackGateway = createFallbackGateway();
+      const backup = createStreamingAgent('backup');
+      fallbackGateway.registerChannel(createMockChannel('ch1'));
+      fallbackGateway.registerAgent(backup);
+
+      await fallbackGateway.dispatch(createMessageEvent('hello'));
+
+      expect(backup.sent).toEqual(['hello']);
+    });
+  });
+
+  describe('Collect Mode', () => {
+    function createCollectGateway(collectWindowMs: number) {
+      return new Gateway(
+        { defaultAgent: 'default-agent', collectWindowMs },
+        { resolveSession: (_context, agent) => agent.createSession('/test') }
+      );
+    }
+
+    test('should merge rapid-fire messages into one prompt', async () => {
+      const collectGateway = createCollectGateway(30);
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent');
+      collectGateway.registerChannel(channel);
+      collectGateway.registerAgent(agent);
+
+      const first = collectGateway.dispatch(createMessageEvent('look at foo.ts'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const second = collectGateway.dispatch(createMessageEvent('the login part'));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const third = collectGateway.dispatch(createMessageEvent('and fix the test'));
+      await Promise.all([first, second, third]);
+
+      expect(agent.sent).toEqual(['look at foo.ts\n\nthe login part\n\nand fix the test']);
+      expect(channel.sendMessage).toHaveBeenCalledTimes(1);
+
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const last = updates[updates.length - 1]![1] as UnifiedReply;
+      expect(last.blocks[0]).toEqual({ type: 'text', content: '📨 收到 3 条消息，合并处理' });
+    });
+
+    test('should merge image attachments into the same send', async () => {
+      const collectGateway = createCollectGateway(20);
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent');
+      collectGateway.registerChannel(channel);
+      collectGateway.registerAgent(agent);
+
+      await Promise.all([
+        collectGateway.dispatch(createMessageEvent('', { attachments: [{ type: 'image', id: 'img_1' }] })),
+        collectGateway.dispatch(createMessageEvent('what is wrong here?')),
+      ]);
+
+      expect(agent.send).toHaveBeenCalledTimes(1);
+      const options = (agent.send as ReturnType<typeof mock>).mock.calls[0]![2] as SendOptions;
+      expect(options.images).toHaveLength(1);
+      expect(agent.sent).toEqual(['what is wrong here?']);
+    });
+
+    test('should not merge messages of different senders in a shared chat', async () => {
+      const collectGateway = createCollectGateway(20);
+      const agent = createStreamingAgent('default-agent');
+      collectGateway.registerChannel(createMockChannel('ch1'));
+      collectGateway.registerAgent(agent);
+
+      await Promise.all([
+        collectGateway.dispatch(createMessageEvent('deploy api', { chatType: 'group' })),
+        collectGateway.dispatch(createMessageEvent('rollback web', { chatType: 'group', senderId: 'user_2' })),
+        collectGateway.dispatch(createMessageEvent('to staging', { chatType: 'group' })),
+      ]);
+
+      expect(agent.sent).toEqual(['rollback web', 'deploy api\n\nto staging']);
+    });
+
+    test('should start separate turns for messages outside the window', async () => {
+      const collectGateway = createCollectGateway(5);
+      const agent = createStreamingAgent('default-agent');
+      collectGateway.registerChannel(createMockChannel('ch1'));
+      collectGateway.registerAgent(agent);
+
+      await collectGateway.dispatch(createMessageEvent('first'));
+      await collectGateway.dispatch(createMessageEvent('second'));
+
+      expect(agent.sent).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('Steer Mode', () => {
+    test('should abort the running turn and start the correction in the same session', async () => {
+      const steerGateway = new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'steer',
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent', (message, sessionId) => message === 'slow task' ? [] : [
+        { type: 'message.delta', sessionId, timestamp: Date.now(), messageId: 'm2', delta: `echo: ${message}` },
+        { type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm2', content: [] },
+      ]);
+      steerGateway.registerChannel(channel);
+      steerGateway.registerAgent(agent);
+
+      const first = steerGateway.dispatch(createMessageEvent('slow task'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await steerGateway.dispatch(createMessageEvent('use the other file'));
+      await first;
+
+      expect(agent.abort).toHaveBeenCalledWith('default-agent_session');
+      expect(agent.sent).toEqual(['slow task', 'use the other file']);
+
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls.map(call => call[1] as UnifiedReply);
+      const statuses = updates.map(u => u.status);
+      expect(statuses).toContain('superseded');
+      expect(statuses[statuses.length - 1]).toBe('completed');
+      expect(statuses.indexOf('superseded')).toBeLessThan(statuses.lastIndexOf('completed'));
+    });
+
+    test('should drop queued collect messages for a correction without reporting an error', async () => {
+      const steerGateway = new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: (context) => context.messageText === 'use the other file' ? 'steer' : 'collect',
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent', (message, sessionId) => message === 'slow task' ? [] : [
+        { type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm2', content: [] },
+      ]);
+      steerGateway.registerChannel(channel);
+      steerGateway.registerAgent(agent);
+
+      const first = steerGateway.dispatch(createMessageEvent('slow task'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const queued = steerGateway.dispatch(createMessageEvent('also check logs'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await steerGateway.dispatch(createMessageEvent('use the other file'));
+      await Promise.all([first, queued]);
+
+      expect(agent.sent).toEqual(['slow task', 'use the other file']);
+      const replies = [
+        ...(channel.sendMessage as ReturnType<typeof mock>).mock.calls.map(call => call[1] as UnifiedReply),
+        ...(channel.updateMessage as ReturnType<typeof mock>).mock.calls.map(call => call[1] as UnifiedReply),
+      ];
+      expect(replies.map(r => r.status)).not.toContain('error');
+    });
+
+    test('should not interrupt running turns in followup mode', async () => {
+      const followupGateway = new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'followup',
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+      const agent = createStreamingAgent('default-agent');
+      followupGateway.registerChannel(createMockChannel('ch1'));
+      followupGateway.registerAgent(agent);
+
+      await Promise.all([
+        followupGateway.dispatch(createMessageEvent('first')),
+        followupGateway.dispatch(createMessageEvent('second')),
+      ]);
+
+      expect(agent.abort).not.toHaveBeenCalled();
+      expect(agent.sent).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('Per-User Sessions', () => {
+    function createPerUserGateway(keyType: 'chat' | 'user_chat') {
+      return new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'steer',
+          getSessionKeyType: () => keyType,
+          resolveSession: (context, agent) => agent.createSession(`/test/${context.userId}`),
+        }
+      );
+    }
+
+    test('should give every member of a user_chat group their own lane', () => {
+      const perUser = createPerUserGateway('user_chat');
+      const shared = createPerUserGateway('chat');
+      const context = { channelId: 'ch1', channelType: 'test', chatId: 'chat_1', chatType: 'group' as const, userId: 'user_1' };
+
+      expect(perUser.getLaneKey(context)).toBe('ch1:chat_1:user_1');
+      expect(perUser.getLaneKey({ ...context, userId: 'user_2' })).toBe('ch1:chat_1:user_2');
+      expect(shared.getLaneKey(context)).toBe('ch1:chat_1');
+    });
+
+    test('should not let one member steer the turn of another', async () => {
+      const perUser = createPerUserGateway('user_chat');
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent', (message, sessionId) => message === 'slow task' ? [] : [
+        { type: 'message.delta', sessionId, timestamp: Date.now(), messageId: 'm2', delta: `echo: ${message}` },
+        { type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm2', content: [] },
+      ]);
+      perUser.registerChannel(channel);
+      perUser.registerAgent(agent);
+
+      const first = perUser.dispatch(createMessageEvent('slow task', { chatType: 'group' }));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await perUser.dispatch(createMessageEvent('other question', { chatType: 'group', senderId: 'user_2' }));
+      await first;
+
+      expect(agent.abort).not.toHaveBeenCalled();
+      const replyTargets = (channel.sendMessage as ReturnType<typeof mock>).mock.calls.map(call => (call[2] as { replyTo?: string } | undefined)?.replyTo);
+      expect(replyTargets).toEqual(['om_slow task', 'om_other question']);
+    });
+  });
+
+  describe('Session Lifecycle', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const HOUR = 60 * 60 * 1000;
+
+    function createLifecycleGateway(manager: SessionManager, resolveSession: GatewayDependencies['resolveSession']) {
+      const sessionKey = (context: BindingContext): SessionKey =>
+        ({ channelId: context.channelId, chatId: context.chatId, userId: context.userId, keyType: 'chat' });
+      return new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          onTurnStarted: (context, turn) => manager.startTurn(sessionKey(context), {
+            agentId: turn.agentId,
+            agentSessionId: turn.sessionId,
+            projectPath: '/test',
+            messageId: String(context.metadata?.messageId ?? ''),
+          }),
+          onTurnEnded: (context) => manager.completeTask(sessionKey(context)),
+          resolveSession,
+        }
+      );
+    }
+
+    test('should keep a session group busy during a turn and active after it', async () => {
+      const channel = createMockChannel('feishu');
+      const agent = createStreamingAgent('default-agent');
+      const manager = new SessionManager(
+        { keyType: 'chat', idleTimeoutMs: HOUR, archiveAfterMs: 7 * DAY },
+        {
+          getAgent: () => agent,
+          getChannel: () => channel,
+          createChat: async () => ({ chatId: 'chat_1' }),
+        }
+      );
+      const group = await manager.createSessionGroup('user_1', '/test', { agentId: 'default-agent' });
+      const session = manager.getSession(group.sessionKey)!;
+      group.createdAt = session.lastActiveAt = Date.now() - 8 * DAY;
+
+      const lifecycleGateway = createLifecycleGateway(manager, async () => session.agentSessionId);
+      const originalSend = agent.send;
+      agent.send = mock(async (sessionId: string, message: string) => {
+        await manager.checkIdleSessions();
+        await originalSend(sessionId, message);
+      });
+      lifecycleGateway.registerChannel(channel);
+      lifecycleGateway.registerAgent(agent);
+
+      await lifecycleGateway.dispatch(createMessageEvent('hello', { channelId: 'feishu' }));
+      await manager.checkIdleSessions();
+
+      expect(agent.sent).toEqual(['hello']);
+      expect(agent.suspendSession).not.toHaveBeenCalled();
+      expect(manager.getIdleStatus(group.chatId)?.status).toBe('active');
+      expect(session.messageCount).toBe(1);
+      manager.shutdown();
+    });
+
+    test('should suspend the session of a plain chat after it idles', async () => {
+      const channel = createMockChannel('feishu');
+      const agent = createStreamingAgent('default-agent');
+      const manager = new SessionManager(
+        { keyType: 'chat', idleTimeoutMs: HOUR },
+        { getAgent: () => agent, getChannel: () => channel }
+      );
+      const lifecycleGateway = createLifecycleGateway(manager, (_context, routed) => routed.createSession('/test'));
+      lifecycleGateway.registerChannel(channel);
+      lifecycleGateway.registerAgent(agent);
+
+      await lifecycleGateway.dispatch(createMessageEvent('hello', { channelId: 'feishu' }));
+      await manager.checkIdleSessions(Date.now() + HOUR / 2);
+      expect(agent.suspendSession).not.toHaveBeenCalled();
+
+      await manager.checkIdleSessions(Date.now() + 2 * HOUR);
+      expect(agent.suspendSession).toHaveBeenCalledWith('default-agent_session');
+      expect(manager.getSession({ channelId: 'feishu', chatId: 'chat_1', keyType: 'chat' })?.status).toBe('idle');
+      manager.shutdown();
+    });
+  });
+
+  describe('Queue Card', () => {
+    function createQueueGateway() {
+      return new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'followup',
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+    }
+
+    function getCardActionHandler(channel: IChannel): ChannelEventHandler {
+      const call = (channel.on as ReturnType<typeof mock>).mock.calls.find(c => c[0] === 'card_action');
+      return call![1] as ChannelEventHandler;
+    }
+
+    test('should post a queue position card and reuse it for the reply', async () => {
+      const queueGateway = createQueueGateway();
+      const channel = createMockChannel('ch1');
+      let sent = 0;
+      channel.sendMessage = mock(async (_chatId: string, _message: UnifiedReply) => `msg_${++sent}`);
+      const agent = createStreamingAgent('default-agent');
+      queueGateway.registerChannel(channel);
+      queueGateway.registerAgent(agent);
+
+      await Promise.all([
+        queueGateway.dispatch(createMessageEvent('first')),
+        queueGateway.dispatch(createMessageEvent('second')),
+      ]);
+
+      const sendCalls = (channel.sendMessage as ReturnType<typeof mock>).mock.calls;
+      expect(sendCalls).toHaveLength(2);
+      const queuedIndex = sendCalls.findIndex(call => (call[1] as UnifiedReply).status === 'queued');
+      expect(queuedIndex).not.toBe(-1);
+      const queued = sendCalls[queuedIndex]![1] as UnifiedReply;
+      const queueCardId = `msg_${queuedIndex + 1}`;
+      expect(queued.blocks[0]).toMatchObject({ type: 'text', content: expect.stringContaining('排队中 (第 1 位)') });
+      expect(queued.blocks[1]).toMatchObject({ type: 'action' });
+
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const secondCardUpdates = updates.filter(call => call[0] === queueCardId).map(call => (call[1] as UnifiedReply).status);
+      expect(secondCardUpdates[0]).toBe('pending');
+      expect(secondCardUpdates[secondCardUpdates.length - 1]).toBe('completed');
+      expect(agent.sent).toEqual(['first', 'second']);
+    });
+
+    test('should cancel a queued message from the card button', async () => {
+      const queueGateway = createQueueGateway();
+      const channel = createMockChannel('ch1');
+      let sent = 0;
+      channel.sendMessage = mock(async (_chatId: string, _message: UnifiedReply) => `msg_${++sent}`);
+      const agent = createStreamingAgent('default-agent');
+      queueGateway.registerChannel(channel);
+      queueGateway.registerAgent(agent);
+
+      const first = queueGateway.dispatch(createMessageEvent('first'));
+      const second = queueGateway.dispatch(createMessageEvent('second'));
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      const sendCalls = (channel.sendMessage as ReturnType<typeof mock>).mock.calls;
+      const queuedIndex = sendCalls.findIndex(call => (call[1] as UnifiedReply).status === 'queued');
+      const queueCardId = `msg_${queuedIndex + 1}`;
+      const action = (sendCalls[queuedIndex]![1] as UnifiedReply).blocks[1] as ActionBlock;
+      await getCardActionHandler(channel)({
+        type: 'card_action',
+        eventId: 'evt_cancel',
+        channelId: 'ch1',
+        timestamp: Date.now(),
+        messageId: queueCardId,
+        chatId: 'chat_1',
+        operatorId: 'user_1',
+        actionId: 'button',
+        actionValue: { ...action.actions[0]!.value, action: action.actions[0]!.id },
+      } as CardActionEvent);
+
+      await Promise.all([first, second]);
+
+      expect(agent.sent).toEqual(['first']);
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      const cancelled = updates.find(call => call[0] === queueCardId && (call[1] as UnifiedReply).status === 'cancelled');
+      expect(cancelled).toBeDefined();
+      const errors = (channel.sendMessage as ReturnType<typeof mock>).mock.calls.filter(call => (call[1] as UnifiedReply).status === 'error');
+      expect(errors).toHaveLength(0);
+    });
+
+    test('should cancel every message of a collected batch without reporting errors', async () => {
+      const queueGateway = new Gateway(
+        { defaultAgent: 'default-agent', collectWindowMs: 10 },
+        { resolveSession: (_context, agent) => agent.createSession('/test') }
+      );
+      const channel = createMockChannel('ch1');
+      let sent = 0;
+      channel.sendMessage = mock(async (_chatId: string, _message: UnifiedReply) => `msg_${++sent}`);
+      const agent = createStreamingAgent('default-agent');
+      const send = agent.send;
+      agent.send = mock(async (sessionId: string, message: string) => {
+        if (message === 'slow task') await new Promise(resolve => setTimeout(resolve, 60));
+        await send(sessionId, message);
+      });
+      queueGateway.registerChannel(channel);
+      queueGateway.registerAgent(agent);
+
+      const first = queueGateway.dispatch(createMessageEvent('slow task'));
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const merged = [
+        queueGateway.dispatch(createMessageEvent('also this')),
+        queueGateway.dispatch(createMessageEvent('and that')),
+      ];
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const sendCalls = (channel.sendMessage as ReturnType<typeof mock>).mock.calls;
+      const queuedCalls = sendCalls.filter(call => (call[1] as UnifiedReply).status === 'queued');
+      expect(queuedCalls).toHaveLength(1);
+      const action = (queuedCalls[0]![1] as UnifiedReply).blocks[1] as ActionBlock;
+      await getCardActionHandler(channel)({
+        type: 'card_action',
+        eventId: 'evt_cancel',
+        channelId: 'ch1',
+        timestamp: Date.now(),
+        messageId: `msg_${sendCalls.indexOf(queuedCalls[0]!) + 1}`,
+        chatId: 'chat_1',
+        operatorId: 'user_1',
+        actionId: 'button',
+        actionValue: { ...action.actions[0]!.value, action: action.actions[0]!.id },
+      } as CardActionEvent);
+
+      await Promise.all([first, ...merged]);
+
+      expect(agent.sent).toEqual(['slow task']);
+      const errors = (channel.sendMessage as ReturnType<typeof mock>).mock.calls.filter(call => (call[1] as UnifiedReply).status === 'error');
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('Task Timeout', () => {
+    test('should abort the agent and mark the reply as timed out', async () => {
+      const timeoutGateway = new Gateway(
+        {
+          defaultAgent: 'default-agent',
+          bindings: [{ id: 'slow', agentId: 'default-agent', timeoutMs: 20, priority: 10, enabled: true }],
+        },
+        {
+          getQueueMode: () => 'followup',
+          getTaskTimeout: () => 60000,
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent', () => []);
+      timeoutGateway.registerChannel(channel);
+      timeoutGateway.registerAgent(agent);
+
+      await timeoutGateway.dispatch(createMessageEvent('never finishes'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      expect(agent.abort).toHaveBeenCalledWith('default-agent_session');
+      const updates = (channel.updateMessage as ReturnType<typeof mock>).mock.calls;
+      expect((updates[updates.length - 1]![1] as UnifiedReply).status).toBe('timeout');
+      const errors = (channel.sendMessage as ReturnType<typeof mock>).mock.calls.filter(call => (call[1] as UnifiedReply).status === 'error');
+      expect(errors).toHaveLength(0);
+    });
+
+    test('should use the project timeout when the binding has none', async () => {
+      const timeoutGateway = new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'followup',
+          getTaskTimeout: () => 20,
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+      const agent = createStreamingAgent('default-agent', () => []);
+      timeoutGateway.registerChannel(createMockChannel('ch1'));
+      timeoutGateway.registerAgent(agent);
+
+      await timeoutGateway.dispatch(createMessageEvent('never finishes'));
+
+      expect(agent.abort).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not cut short the turn completion handler', async () => {
+      const completed: CompletedTurn[] = [];
+      const timeoutGateway = new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          getQueueMode: () => 'followup',
+          getTaskTimeout: () => 20,
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+          onTurnCompleted: async (turn) => {
+            await new Promise(resolve => setTimeout(resolve, 40));
+            completed.push(turn);
+          },
+        }
+      );
+      const agent = createStreamingAgent('default-agent');
+      timeoutGateway.registerChannel(createMockChannel('ch1'));
+      timeoutGateway.registerAgent(agent);
+
+      await timeoutGateway.dispatch(createMessageEvent('hello'));
+
+      expect(completed).toHaveLength(1);
+      expect(agent.abort).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Durable Queue', () => {
+    function createDurableGateway(store: MemoryQueueStore, extra: Partial<GatewayDependencies> = {}) {
+      return new Gateway(
+        { defaultAgent: 'default-agent' },
+        {
+          ...extra,
+          queueStore: store,
+          getQueueMode: () => 'followup',
+          resolveSession: (_context, agent) => agent.createSession('/test'),
+        }
+      );
+    }
+
+    function getCardActionHandler(channel: IChannel): ChannelEventHandler {
+      const call = (channel.on as ReturnType<typeof mock>).mock.calls.find(c => c[0] === 'card_action');
+      return call![1] as ChannelEventHandler;
+    }
+
+    test('should keep messages in the store until their turn finishes', async () => {
+      const store = new MemoryQueueStore();
+      const durableGateway = createDurableGateway(store);
+      const statuses: string[] = [];
+      const agent = createStreamingAgent('default-agent');
+      const send = agent.send;
+      agent.send = mock(async (sessionId: string, message: string, options?: SendOptions) => {
+        statuses.push(store.get('ch1:om_hello')?.status ?? 'missing');
+        return send(sessionId, message, options);
+      });
+      durableGateway.registerChannel(createMockChannel('ch1'));
+      durableGateway.registerAgent(agent);
+
+      await durableGateway.dispatch(createMessageEvent('hello', {
+        attachments: [{ type: 'image', id: 'img_1', data: Buffer.from('bytes') }],
+        raw: { secret: true },
+      }));
+
+      expect(statuses).toEqual(['running']);
+      expect(store.load()).toHaveLength(0);
+    });
+
+    test('should strip raw payloads and attachment bytes before persisting', () => {
+      const persisted = toPersistedEvent(createMessageEvent('hello', {
+        attachments: [{ type: 'image', id: 'img_1', data: Buffer.from('bytes') }],
+        raw: { secret: true },
+      }));
+
+      expect(persisted).not.toHaveProperty('raw');
+      expect(persisted.attachments).toEqual([{ type: 'image', id: 'img_1' }]);
+    });
+
+    test('should replay queued messages in order after a restart', async () => {
+      const store = new MemoryQueueStore();
+      for (const [index, content] of ['first', 'second'].entries()) {
+        const event = createMessageEvent(content);
+        store.save({ id: getPendingMessageId(event), event: toPersistedEvent(event), status: 'queued', enqueuedAt: index });
+      }
+      const durableGateway = createDurableGateway(store);
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent');
+      durableGateway.registerChannel(channel);
+      durableGateway.registerAgent(agent);
+
+      await durableGateway.start();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(agent.sent).toEqual(['first', 'second']);
+      const notices = (channel.sendMessage as ReturnType<typeof mock>).mock.calls
+        .filter(call => (call[1] as UnifiedReply).blocks.some(b => b.type === 'text' && b.content.includes('机器人已重启')));
+      expect(notices).toHaveLength(1);
+      expect(store.load()).toHaveLength(0);
+    });
+
+    test('should drop redelivered channel events but still replay persisted ones', async () => {
+      const store = new MemoryQueueStore();
+      const processed = new Set<string>();
+      const isDuplicateMessage = (event: MessageEvent) => {
+        if (processed.has(event.messageId)) return true;
+        processed.add(event.messageId);
+        return false;
+      };
+      const queued = createMessageEvent('queued before restart');
+      processed.add(queued.messageId);
+      store.save({ id: getPendingMessageId(queued), event: toPersistedEvent(queued), status: 'queued', enqueuedAt: 0 });
+      const durableGateway = createDurableGateway(store, { isDuplicateMessage });
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent');
+      durableGateway.registerChannel(channel);
+      durableGateway.registerAgent(agent);
+
+      await durableGateway.start();
+      await new Promise(resolve => setTimeout(resolve, 30));
+      const onMessage = (channel.on as ReturnType<typeof mock>).mock.calls.find(c => c[0] === 'message')![1] as ChannelEventHandler;
+      await onMessage(createMessageEvent('hello'));
+      await onMessage(createMessageEvent('hello', { eventId: 'evt_retry' }));
+      await onMessage(queued);
+
+      expect(agent.sent).toEqual(['queued before restart', 'hello']);
+    });
+
+    test('should offer interrupted messages for retry', async () => {
+      const store = new MemoryQueueStore();
+      const event = createMessageEvent('half done');
+      store.save({ id: getPendingMessageId(event), event: toPersistedEvent(event), status: 'running', enqueuedAt: Date.now() });
+      const durableGateway = createDurableGateway(store);
+      const channel = createMockChannel('ch1');
+      const agent = createStreamingAgent('default-agent');
+      durableGateway.registerChannel(channel);
+      durableGateway.registerAgent(agent);
+
+      await durableGateway.start();
+
+      expect(agent.sent).toEqual([]);
+      expect(store.get('ch1:om_half done')?.status).toBe('interrupted');
+      const card = (channel.sendMessage as ReturnType<typeof mock>).mock.calls
+        .map(call => call[1] as UnifiedReply)
+        .find(reply => reply.status === 'interrupted');
+      expect(card).toBeDefined();
+      const action = card!.blocks.find(b => b.type === 'action') as ActionBlock;
+
+      const click = (operatorId: string) => getCardActionHandler(channel)({
+        type: 'card_action',
+        eventId: `evt_retry_${operatorId}`,
+        channelId: 'ch1',
+        timestamp: Date.now(),
+        messageId: 'msg_123',
+        chatId: 'chat_1',
+        operatorId,
+        actionId: 'button',
+        actionValue: { ...action.actions[0]!.value, action: action.actions[0]!.id },
+      } as CardActionEvent);
+
+      await click('someone_else');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(agent.sent).toEqual([]);
+
+      await click('user_1');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(agent.sent).toEqual(['half done']);
+      expect(store.load()).toHaveLength(0);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
-import { BindingsRouter } from '../../gateway/router';
+import { BindingsRouter, matchTimeWindow } from '../../gateway/router';
 import type { Binding, BindingContext } from '../../types/binding';
 
 describe('BindingsRouter', () => {
@@ -226,4 +226,187 @@ describe('BindingsRouter', () => {
     expect(bindings).toHaveLength(2);
     expect(bindings.every(b => b.agentId === 'agent-a')).toBe(true);
   });
+
+  describe('declarative conditions', () => {
+    const baseContext: BindingContext = {
+      channelId: 'feishu',
+      channelType: 'feishu',
+      chatId: 'chat_1',
+      chatType: 'group',
+      userId: 'user_1',
+    };
+
+    test('should match by message type', () => {
+      router.addBinding({
+        id: 'vision',
+        agentId: 'vision-agent',
+        priority: 10,
+        enabled: true,
+        match: { messageType: ['image', 'post'] },
+      });
+
+      expect(router.route({ ...baseContext, messageType: 'image' }).agentId).toBe('vision-agent');
+      expect(router.route({ ...baseContext, messageType: 'text' }).agentId).toBe('default-agent');
+    });
+
+    test('should match by bot mention and session group flags', () => {
+      router.addBinding({
+        id: 'mentioned',
+        agentId: 'mention-agent',
+        priority: 10,
+        enabled: true,
+        match: { mentionedBot: true, isSessionGroup: false },
+      });
+
+      const mentioned = router.route({ ...baseContext, mentionedBot: true });
+      expect(mentioned.agentId).toBe('mention-agent');
+      expect(mentioned.matchedBy).toEqual(['mentionedBot', 'isSessionGroup']);
+      expect(router.route({ ...baseContext, mentionedBot: true, isSessionGroup: true }).agentId).toBe('default-agent');
+      expect(router.route(baseContext).agentId).toBe('default-agent');
+    });
+
+    test('should match by time window in the configured timezone', () => {
+      router.addBinding({
+        id: 'evening',
+        agentId: 'cheap-agent',
+        priority: 10,
+        enabled: true,
+        match: { timeWindow: { start: '19:00', end: '08:00', timezone: 'Asia/Shanghai' } },
+      });
+
+      // 2026-10-19 12:30 UTC = 20:30 Asia/Shanghai
+      const evening = Date.UTC(2026, 9, 19, 12, 30);
+      // 2026-10-19 04:00 UTC = 12:00 Asia/Shanghai
+      const noon = Date.UTC(2026, 9, 19, 4, 0);
+
+      expect(router.route({ ...baseContext, timestamp: evening }).agentId).toBe('cheap-agent');
+      expect(router.route({ ...baseContext, timestamp: noon }).agentId).toBe('default-agent');
+    });
+
+    test('should support not and any combinators', () => {
+      router.addBinding({
+        id: 'combo',
+        agentId: 'combo-agent',
+        priority: 10,
+        enabled: true,
+        match: {
+          not: { userId: 'blocked_user' },
+          any: [{ messageType: 'image' }, { messagePattern: '^deploy' }],
+        },
+      });
+
+      expect(router.route({ ...baseContext, messageType: 'image' }).agentId).toBe('combo-agent');
+      expect(router.route({ ...baseContext, messageType: 'text', messageText: 'deploy now' }).agentId).toBe('combo-agent');
+      expect(router.route({ ...baseContext, messageType: 'text', messageText: 'hello' }).agentId).toBe('default-agent');
+      expect(router.route({ ...baseContext, userId: 'blocked_user', messageType: 'image' }).agentId).toBe('default-agent');
+    });
+  });
+
+  describe('explain', () => {
+    const baseContext: BindingContext = {
+      channelId: 'feishu',
+      channelType: 'feishu',
+      chatId: 'chat_1',
+      chatType: 'group',
+      userId: 'user_1',
+      messageText: 'deploy now',
+    };
+
+    test('should report every binding with per-condition results', () => {
+      router.addBinding({
+        id: 'admin',
+        agentId: 'admin-agent',
+        priority: 20,
+        enabled: true,
+        match: { userId: 'admin_user', chatType: 'group' },
+      });
+      router.addBinding({
+        id: 'deploy',
+        agentId: 'deploy-agent',
+        priority: 10,
+        enabled: true,
+        match: { messagePattern: '^deploy' },
+      });
+      router.addBinding({
+        id: 'group',
+        agentId: 'group-agent',
+        priority: 5,
+        enabled: true,
+        match: { chatType: 'group' },
+      });
+
+      const explanation = router.explain(baseContext);
+
+      expect(explanation.result.agentId).toBe('deploy-agent');
+      expect(explanation.evaluations.map(e => e.binding.id)).toEqual(['admin', 'deploy', 'group']);
+
+      const [admin, deploy, group] = explanation.evaluations;
+      expect(admin!.matched).toBe(false);
+      expect(admin!.checks).toEqual([
+        { condition: 'chatType', passed: true, expected: 'group', actual: 'group' },
+        { condition: 'userId', passed: false, expected: 'admin_user', actual: 'user_1' },
+      ]);
+      expect(deploy!.selected).toBe(true);
+      expect(group!.matched).toBe(true);
+      expect(group!.selected).toBe(false);
+    });
+
+    test('should mark disabled bindings and fall back to default', () => {
+      router.addBinding({
+        id: 'off',
+        agentId: 'off-agent',
+        priority: 10,
+        enabled: false,
+        match: { chatType: 'group' },
+      });
+
+      const explanation = router.explain(baseContext);
+
+      expect(explanation.result.agentId).toBe('default-agent');
+      expect(explanation.result.matchedBy).toEqual(['default']);
+      expect(explanation.evaluations[0]!.enabled).toBe(false);
+      expect(explanation.evaluations[0]!.matched).toBe(false);
+    });
+
+    test('should summarize nested combinators', () => {
+      router.addBinding({
+        id: 'combo',
+        agentId: 'combo-agent',
+        priority: 10,
+        enabled: true,
+        match: { not: { userId: 'user_1' } },
+      });
+
+      const [combo] = router.explain(baseContext).evaluations;
+
+      expect(combo!.checks[0]).toMatchObject({ condition: 'not', passed: false, actual: 'userId✓' });
+    });
+  });
+
+  describe('matchTimeWindow', () => {
+    // 2026-10-19 is a Monday
+    const mondayNoonUtc = Date.UTC(2026, 9, 19, 12, 0);
+
+    test('should handle same-day windows', () => {
+      expect(matchTimeWindow({ start: '09:00', end: '18:00', timezone: 'UTC' }, mondayNoonUtc)).toBe(true);
+      expect(matchTimeWindow({ start: '13:00', end: '18:00', timezone: 'UTC' }, mondayNoonUtc)).toBe(false);
+    });
+
+    test('should handle windows crossing midnight', () => {
+      expect(matchTimeWindow({ start: '22:00', end: '13:00', timezone: 'UTC' }, mondayNoonUtc)).toBe(true);
+      expect(matchTimeWindow({ start: '22:00', end: '06:00', timezone: 'UTC' }, mondayNoonUtc)).toBe(false);
+    });
+
+    test('should filter by weekday with 0 and 7 both meaning Sunday', () => {
+      expect(matchTimeWindow({ weekdays: [1, 2, 3, 4, 5], timezone: 'UTC' }, mondayNoonUtc)).toBe(true);
+      expect(matchTimeWindow({ weekdays: [6, 7], timezone: 'UTC' }, mondayNoonUtc)).toBe(false);
+      expect(matchTimeWindow({ weekdays: [7], timezone: 'UTC' }, Date.UTC(2026, 9, 18, 12, 0))).toBe(true);
+    });
+
+    test('should evaluate weekday in the configured timezone', () => {
+      // Monday 20:00 UTC is already Tuesday in Asia/Shanghai
+      const mondayEveningUtc = Date.UTC(2026, 9, 19, 20, 0);
+      expect(matchTimeWindow({ weekdays: [2], timezone: 'Asia/Shanghai' }, mondayEveningUtc)).toBe(true);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { test, expect, describe } from 'bun:test';
-import { extractTextFromPart, extractToolCallFromPart } from '../opencode/client';
+import { extractTextFromPart, extractToolCallFromPart, extractTokenUsage } from '../opencode/client';
 
 describe('OpenCode Client', () => {
   describe('extractTextFromPart', () => {
@@ -99,4 +99,35 @@ describe('OpenCode Client', () => {
       expect(toolCall).toBeNull();
     });
   });
+
+  describe('extractTokenUsage', () => {
+    test('sums input, output and cache tokens into the context size', () => {
+      const usage = extractTokenUsage({
+        role: 'assistant',
+        tokens: { input: 1200, output: 300, reasoning: 50, cache: { read: 40000, write: 500 } },
+      });
+      expect(usage).toEqual({
+        inputTokens: 1200,
+        outputTokens: 300,
+        cacheReadTokens: 40000,
+        cacheWriteTokens: 500,
+        contextTokens: 42000,
+      });
+    });
+
+    test('counts only the summary for compaction messages', () => {
+      const usage = extractTokenUsage({
+        role: 'assistant',
+        summary: true,
+        tokens: { input: 90000, output: 2500, cache: { read: 0, write: 0 } },
+      });
+      expect(usage!.contextTokens).toBe(2500);
+    });
+
+    test('returns null for user messages and messages without tokens', () => {
+      expect(extractTokenUsage({ role: 'user' })).toBeNull();
+      expect(extractTokenUsage({ role: 'assistant', tokens: { input: 0, output: 0, cache: { read: 0, write: 0 } } })).toBeNull();
+      expect(extractTokenUsage(null)).toBeNull();
+    });
+  });
 });
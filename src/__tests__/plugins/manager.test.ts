@@ -183,6 +183,16 @@ describe('PluginAPI', () => {
     expect(() => api.registerCommand('dup-cmd', async () => '')).toThrow();
   });
 
+  test('registerCommand should keep metadata and refuse built-in names', () => {
+    const manager = createPluginManager({}, { ...createMockDeps(), isReservedCommand: (name) => name === 'help' });
+    const api = (manager as any).createPluginAPI('test-plugin');
+
+    api.registerCommand('Deploy', async () => '', { description: '部署', adminOnly: true });
+
+    expect(manager.getCommand('deploy')).toMatchObject({ source: 'test-plugin', description: '部署', adminOnly: true });
+    expect(() => api.registerCommand('help', async () => '')).toThrow('built-in');
+  });
+
   test('registerHook should call hookManager', () => {
     const deps = createMockDeps();
     const registerSpy = mock(() => 'hook_id');
@@ -158,6 +158,282 @@ describe('LaneQueue', () => {
     expect(collectRejected).toBe(true);
   });
 
+  test('should start a steer task ahead of queued followup tasks', async () => {
+    const order: string[] = [];
+
+    const running = queue.enqueue('session_1', async () => { await sleep(20); });
+    const followup = queue.enqueue('session_1', async () => { order.push('followup'); }, { mode: 'followup' });
+    const steer = queue.enqueue('session_1', async () => { order.push('steer'); }, { mode: 'steer' });
+
+    await Promise.all([running, followup, steer]);
+    expect(order).toEqual(['steer', 'followup']);
+  });
+
+  test('should interrupt the running task when a steer task arrives', async () => {
+    const interrupted: string[] = [];
+    let releaseFirst: () => void = () => {};
+
+    const first = queue.enqueue('session_1', () => new Promise<void>(resolve => { releaseFirst = resolve; }), {
+      interrupt: () => {
+        interrupted.push('first');
+        releaseFirst();
+      },
+    });
+    await sleep(10);
+
+    const steer = queue.enqueue('session_1', async () => 'steered', { mode: 'steer' });
+
+    await first;
+    expect(await steer).toBe('steered');
+    expect(interrupted).toEqual(['first']);
+  });
+
+  test('should not interrupt the running task for followup tasks', async () => {
+    let interrupted = false;
+
+    const first = queue.enqueue('session_1', async () => { await sleep(20); }, {
+      interrupt: () => { interrupted = true; },
+    });
+    const followup = queue.enqueue('session_1', async () => {}, { mode: 'followup' });
+
+    await Promise.all([first, followup]);
+    expect(interrupted).toBe(false);
+  });
+
+  test('should collect payloads arriving within the window into one task', async () => {
+    const collectQueue = new LaneQueue({ collectWindowMs: 20 });
+    const batches: string[][] = [];
+    const handler = async (payloads: string[]) => {
+      batches.push(payloads);
+      return payloads.length;
+    };
+
+    const results = await Promise.all([
+      collectQueue.collect('session_1', 'a', handler),
+      collectQueue.collect('session_1', 'b', handler),
+      collectQueue.collect('session_2', 'c', handler),
+    ]);
+
+    expect(batches).toEqual([['a', 'b'], ['c']]);
+    expect(results).toEqual([2, 2, 1]);
+  });
+
+  test('should start a new batch once the window has closed, even while the lane is busy', async () => {
+    const collectQueue = new LaneQueue({ collectWindowMs: 0 });
+    const batches: string[][] = [];
+    const handler = async (payloads: string[]) => { batches.push(payloads); };
+
+    const busy = collectQueue.enqueue('session_1', async () => { await sleep(30); });
+    await sleep(5);
+    const first = collectQueue.collect('session_1', 'a', handler);
+    await sleep(10);
+    const second = collectQueue.collect('session_1', 'b', handler);
+
+    await Promise.all([busy, first, second]);
+    expect(batches).toEqual([['a'], ['b']]);
+  });
+
+  test('should keep the payloads of different users in separate batches', async () => {
+    const collectQueue = new LaneQueue({ collectWindowMs: 20 });
+    const batches: string[][] = [];
+    const handler = async (payloads: string[]) => { batches.push(payloads); };
+
+    await Promise.all([
+      collectQueue.collect('session_1', 'a1', handler, { userId: 'user_a' }),
+      collectQueue.collect('session_1', 'b1', handler, { userId: 'user_b' }),
+      collectQueue.collect('session_1', 'a2', handler, { userId: 'user_a' }),
+    ]);
+
+    expect(batches).toEqual([['b1'], ['a1', 'a2']]);
+  });
+
+  test('should reject pending collected payloads on abort', async () => {
+    const collectQueue = new LaneQueue({ collectWindowMs: 50 });
+    let rejected = false;
+
+    const pending = collectQueue.collect('session_1', 'a', async () => {}).catch(() => { rejected = true; });
+    expect(await collectQueue.abort('session_1')).toBe(1);
+
+    await pending;
+    expect(rejected).toBe(true);
+  });
+
+  test('should report position of waiting tasks and notify as the queue moves', async () => {
+    const events: string[] = [];
+    queue.subscribe((event) => events.push(`${event.type}:${event.taskId}`));
+
+    const first = queue.enqueue('session_1', async () => { await sleep(20); }, { id: 'a' });
+    const second = queue.enqueue('session_1', async () => {}, { id: 'b' });
+    const third = queue.enqueue('session_1', async () => {}, { id: 'c' });
+
+    expect(queue.getTaskPosition('session_1', 'a')).toBe(0);
+    expect(queue.getTaskPosition('session_1', 'b')).toBe(1);
+    expect(queue.getTaskPosition('session_1', 'c')).toBe(2);
+
+    await Promise.all([first, second, third]);
+
+    expect(events).toEqual([
+      'started:a',
+      'waiting:b',
+      'waiting:c',
+      'started:b',
+      'moved:c',
+      'started:c',
+    ]);
+  });
+
+  test('should estimate wait from recent task durations', async () => {
+    await queue.enqueue('session_1', async () => { await sleep(30); });
+    expect(queue.getAverageTaskDuration()).toBeGreaterThanOrEqual(25);
+
+    const running = queue.enqueue('session_1', async () => { await sleep(30); });
+    const waiting = queue.enqueue('session_1', async () => {}, { id: 'waiting' });
+
+    expect(queue.estimateWait('session_1', 'waiting')).toBeGreaterThanOrEqual(25);
+    await Promise.all([running, waiting]);
+    expect(queue.estimateWait('session_1', 'waiting')).toBeUndefined();
+  });
+
+  test('should cancel a waiting task', async () => {
+    const events: string[] = [];
+    queue.subscribe((event) => events.push(`${event.type}:${event.taskId}`));
+
+    const running = queue.enqueue('session_1', async () => { await sleep(10); });
+    const cancelled = queue.enqueue('session_1', async () => 'ran', { id: 'x' });
+
+    expect(queue.cancel('session_1', 'x')).toBe(true);
+    expect(queue.cancel('session_1', 'x')).toBe(false);
+    await expect(cancelled).rejects.toThrow('Task cancelled');
+    await running;
+    expect(events).toContain('cancelled:x');
+  });
+
+  test('should abort the handler signal and release the lane on timeout', async () => {
+    const timeoutQueue = new LaneQueue({ taskTimeoutMs: 20 });
+    let aborted = false;
+
+    const hanging = timeoutQueue.enqueue('session_1', (signal) => new Promise<void>(() => {
+      signal.addEventListener('abort', () => { aborted = true; });
+    }));
+    const next = timeoutQueue.enqueue('session_1', async () => 'next');
+
+    await expect(hanging).rejects.toThrow('Task timeout');
+    expect(aborted).toBe(true);
+    expect(await next).toBe('next');
+  });
+
+  test('should prefer per-task timeout over the queue default', async () => {
+    const timeoutQueue = new LaneQueue({ taskTimeoutMs: 5000 });
+
+    const task = timeoutQueue.enqueue('session_1', () => new Promise<void>(() => {}), { timeoutMs: 10 });
+
+    await expect(task).rejects.toThrow('Task timeout');
+  });
+
+  test('should run afterRun in the lane without counting it against the timeout', async () => {
+    const timeoutQueue = new LaneQueue({ taskTimeoutMs: 20 });
+    const order: string[] = [];
+
+    const task = timeoutQueue.enqueue('session_1', async () => 'done', {
+      afterRun: async (result) => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        order.push(`after:${result}`);
+      },
+    });
+    const next = timeoutQueue.enqueue('session_1', async () => { order.push('next'); });
+
+    expect(await task).toBe('done');
+    await next;
+    expect(order).toEqual(['after:done', 'next']);
+  });
+
+  describe('fair scheduling', () => {
+    test('should round-robin free slots across users instead of lane order', async () => {
+      const fairQueue = new LaneQueue({ maxConcurrency: 1 });
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        await sleep(5);
+      };
+
+      const blocker = fairQueue.enqueue('blocker', task('blocker'), { userId: 'carol' });
+      const tasks = [
+        fairQueue.enqueue('alice_1', task('alice_1'), { userId: 'alice' }),
+        fairQueue.enqueue('alice_2', task('alice_2'), { userId: 'alice' }),
+        fairQueue.enqueue('alice_3', task('alice_3'), { userId: 'alice' }),
+        fairQueue.enqueue('bob_1', task('bob_1'), { userId: 'bob' }),
+      ];
+
+      await Promise.all([blocker, ...tasks]);
+
+      expect(started.slice(0, 3)).toEqual(['blocker', 'alice_1', 'bob_1']);
+    });
+
+    test('should give weighted users more slots', async () => {
+      const fairQueue = new LaneQueue({ maxConcurrency: 1, userWeights: { admin: 2 } });
+      const started: string[] = [];
+      const task = (name: string) => async () => {
+        started.push(name);
+        await sleep(2);
+      };
+
+      const blocker = fairQueue.enqueue('blocker', task('blocker'), { userId: 'carol' });
+      const tasks = [
+        ...['u1', 'u2', 'u3'].map(key => fairQueue.enqueue(key, task(key), { userId: 'user' })),
+        ...['a1', 'a2', 'a3'].map(key => fairQueue.enqueue(key, task(key), { userId: 'admin' })),
+      ];
+
+      await Promise.all([blocker, ...tasks]);
+
+      expect(started.slice(1, 4)).toEqual(['a1', 'u1', 'a2']);
+    });
+
+    test('should respect per-user concurrency caps', async () => {
+      const fairQueue = new LaneQueue({ maxConcurrency: 5, maxConcurrencyPerUser: 1 });
+      let running = 0;
+      let peak = 0;
+      const task = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(5);
+        running--;
+      };
+
+      await Promise.all(['a', 'b', 'c'].map(key => fairQueue.enqueue(key, task, { userId: 'alice' })));
+
+      expect(peak).toBe(1);
+    });
+
+    test('should respect per-group concurrency caps', async () => {
+      const fairQueue = new LaneQueue({ maxConcurrency: 5, maxConcurrencyPerGroup: 2 });
+      let running = 0;
+      let peak = 0;
+      const task = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await sleep(5);
+        running--;
+      };
+
+      await Promise.all(['a', 'b', 'c'].map(user => fairQueue.enqueue(`g:${user}`, task, { userId: user, groupId: 'g' })));
+
+      expect(peak).toBe(2);
+    });
+
+    test('should expose a snapshot of lanes by user', async () => {
+      const fairQueue = new LaneQueue({ maxConcurrency: 1 });
+      const running = fairQueue.enqueue('s1', async () => { await sleep(10); }, { userId: 'alice' });
+      const waiting = fairQueue.enqueue('s2', async () => {}, { userId: 'bob' });
+
+      const snapshot = fairQueue.getSnapshot();
+      expect(snapshot).toContainEqual(expect.objectContaining({ sessionKey: 's1', userId: 'alice', processing: true, pending: 0 }));
+      expect(snapshot).toContainEqual(expect.objectContaining({ sessionKey: 's2', userId: 'bob', processing: false, pending: 1 }));
+
+      await Promise.all([running, waiting]);
+      expect(fairQueue.getSnapshot()).toEqual([]);
+    });
+  });
+
   test('should clear queue for specific session', () => {
     queue.enqueue('session_1', async () => { await sleep(1000); });
     queue.enqueue('session_1', async () => {}).catch(() => {});
@@ -0,0 +1,80 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseQueueStore } from '../../queue/store';
+import { BotDatabase } from '../../storage/database';
+import type { PendingMessage } from '../../queue/store';
+
+function createPending(id: string, enqueuedAt: number): PendingMessage {
+  return {
+    id,
+    status: 'queued',
+    enqueuedAt,
+    event: {
+      type: 'message',
+      eventId: `evt_${id}`,
+      channelId: 'ch1',
+      timestamp: enqueuedAt,
+      messageId: id,
+      chatId: 'chat_1',
+      chatType: 'private',
+      senderId: 'user_1',
+      senderType: 'user',
+      messageType: 'text',
+      content: `message ${id}`,
+    },
+  };
+}
+
+describe('DatabaseQueueStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'queue-store-'));
+    path = join(dir, 'bot.db');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function reopen(run: (store: DatabaseQueueStore) => void): void {
+    const database = new BotDatabase(path);
+    try {
+      run(new DatabaseQueueStore(database));
+    } finally {
+      database.close();
+    }
+  }
+
+  test('should survive a reload in enqueue order', () => {
+    reopen((store) => {
+      store.save(createPending('b', 2));
+      store.save(createPending('a', 1));
+      store.setStatus('b', 'running');
+    });
+
+    reopen((store) => {
+      expect(store.load().map(m => [m.id, m.status])).toEqual([['a', 'queued'], ['b', 'running']]);
+      expect(store.get('a')?.event.content).toBe('message a');
+    });
+  });
+
+  test('should forget removed messages', () => {
+    reopen((store) => {
+      store.save(createPending('a', 1));
+      store.remove('a');
+    });
+
+    reopen((store) => expect(store.load()).toEqual([]));
+  });
+
+  test('should start empty on a fresh database', () => {
+    reopen((store) => {
+      expect(store.load()).toEqual([]);
+      expect(store.get('a')).toBeUndefined();
+    });
+  });
+});
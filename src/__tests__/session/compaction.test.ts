@@ -1,12 +1,12 @@
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { CompactionManager } from '../../session/compaction';
-import { SessionManager } from '../../session/manager';
-import type { SessionKey } from '../../types/session';
+import type { CompactionTarget } from '../../session/compaction';
 import type { IAgentRuntime } from '../../types/agent';
 
-function createMockAgent(): IAgentRuntime {
-  let summarizeCalled = false;
-  
+function createMockAgent(): IAgentRuntime & { _summarizeCalls: number } {
+  let summarizeCalls = 0;
+  let contextTokens = 100000;
+
   return {
     id: 'mock-agent',
     type: 'mock',
@@ -15,112 +15,130 @@ function createMockAgent(): IAgentRuntime {
     shutdown: async () => {},
     createSession: async () => `session_${Date.now()}`,
     getOrCreateSession: async () => `session_${Date.now()}`,
+    resumeSession: async () => true,
+    suspendSession: async () => {},
+    forkSession: async () => `fork_${Date.now()}`,
     switchModel: async () => {},
     clearHistory: async () => {},
     send: async () => {},
     abort: async () => true,
     executeCommand: async () => 'executed',
     summarize: async () => {
-      summarizeCalled = true;
+      summarizeCalls++;
+      contextTokens = 8000;
       return true;
     },
     subscribe: () => () => {},
     unsubscribe: () => {},
-    listModels: async () => [],
-    getSessionInfo: async () => null,
-    get _summarizeCalled() { return summarizeCalled; },
-  } as IAgentRuntime & { _summarizeCalled: boolean };
+    listModels: async () => [
+      { id: 'openai/gpt-4o', name: 'GPT-4o', contextWindow: 128000 },
+      { id: 'local/tiny', name: 'Tiny' },
+    ],
+    getSessionInfo: async () => ({ contextTokens }),
+    get _summarizeCalls() { return summarizeCalls; },
+  };
 }
 
 describe('CompactionManager', () => {
-  let sessionManager: SessionManager;
   let compactionManager: CompactionManager;
-  let mockAgent: IAgentRuntime;
-  
+  let mockAgent: ReturnType<typeof createMockAgent>;
+  let notices: string[];
+
+  const target: CompactionTarget = {
+    chatId: 'chat_compact',
+    agentId: 'mock-agent',
+    sessionId: 'ses_1',
+    model: 'openai/gpt-4o',
+  };
+
   beforeEach(() => {
     mockAgent = createMockAgent();
-    
-    sessionManager = new SessionManager(
-      { keyType: 'chat' },
-      {
-        getAgent: () => mockAgent,
-        getChannel: () => undefined,
-      }
-    );
-    
+    notices = [];
+
     compactionManager = new CompactionManager(
       {
-        autoCompactEnabled: false,
-        compactThreshold: 10,
+        compactAtPercent: 80,
         preCompactMemoryFlush: false,
       },
       {
-        sessionManager,
-        getAgent: () => mockAgent,
+        getAgent: (id) => id === 'mock-agent' ? mockAgent : undefined,
+        notify: async (_chatId, text) => { notices.push(text); },
       }
     );
   });
-  
+
   afterEach(() => {
     compactionManager.shutdown();
-    sessionManager.shutdown();
   });
-  
-  test('should compact session successfully', async () => {
-    const key: SessionKey = {
-      channelId: 'feishu',
-      chatId: 'chat_compact',
-      keyType: 'chat',
-    };
-    
-    await sessionManager.createSession(key, '/project');
-    const result = await compactionManager.compact(key);
-    
-    expect(result.success).toBe(true);
+
+  test('should compact session and report token counts', async () => {
+    const result = await compactionManager.compact(target);
+
+    expect(result).toEqual({ success: true, beforeTokens: 100000, afterTokens: 8000 });
   });
-  
-  test('should return error for non-existent session', async () => {
-    const key: SessionKey = {
-      channelId: 'feishu',
-      chatId: 'non_existent',
-      keyType: 'chat',
-    };
-    
-    const result = await compactionManager.compact(key);
+
+  test('should return error for unknown agent', async () => {
+    const result = await compactionManager.compact({ ...target, agentId: 'missing' });
     expect(result.success).toBe(false);
     expect(result.error).toContain('not found');
   });
-  
-  test('should compact if needed based on threshold', async () => {
-    const key: SessionKey = {
-      channelId: 'feishu',
-      chatId: 'chat_threshold',
-      keyType: 'chat',
-    };
-    
-    await sessionManager.createSession(key, '/project');
-    
-    const resultBelowThreshold = await compactionManager.compactIfNeeded(key);
-    expect(resultBelowThreshold).toBeNull();
-    
-    sessionManager.updateSession(key, { messageCount: 15 });
-    
-    const resultAboveThreshold = await compactionManager.compactIfNeeded(key);
-    expect(resultAboveThreshold).not.toBeNull();
-    expect(resultAboveThreshold!.success).toBe(true);
+
+  test('should track usage against the model context window', async () => {
+    const result = await compactionManager.recordUsage(target, { contextTokens: 64000 });
+
+    expect(result).toBeNull();
+    expect(compactionManager.getUsage('ses_1')).toMatchObject({ tokens: 64000, contextWindow: 128000, percent: 50 });
+    expect(mockAgent._summarizeCalls).toBe(0);
+  });
+
+  test('should auto-compact at the configured percentage and notify before and after', async () => {
+    const result = await compactionManager.recordUsage(target, { contextTokens: 110000 });
+
+    expect(result).toEqual({ success: true, beforeTokens: 110000, afterTokens: 8000 });
+    expect(mockAgent._summarizeCalls).toBe(1);
+    expect(notices).toEqual([
+      '🗜️ 上下文已占用 86%（110.0k / 128.0k tokens），正在自动压缩...',
+      '✅ 上下文压缩完成：110.0k → 8.0k tokens',
+    ]);
+    expect(compactionManager.getUsage('ses_1')).toMatchObject({ tokens: 8000, percent: 6 });
+  });
+
+  test('should not auto-compact when the context window is unknown', async () => {
+    const result = await compactionManager.recordUsage({ ...target, model: 'local/tiny' }, { contextTokens: 500000 });
+
+    expect(result).toBeNull();
+    expect(compactionManager.getUsage('ses_1')).toMatchObject({ tokens: 500000, percent: undefined });
+    expect(mockAgent._summarizeCalls).toBe(0);
   });
-  
-  test('should not compact if message count below threshold', async () => {
-    const key: SessionKey = {
-      channelId: 'feishu',
-      chatId: 'chat_below',
-      keyType: 'chat',
+
+  test('should flush memory before summarizing', async () => {
+    const order: string[] = [];
+    const summarize = mockAgent.summarize;
+    mockAgent.summarize = async (sessionId) => {
+      order.push('summarize');
+      return summarize(sessionId);
     };
-    
-    await sessionManager.createSession(key, '/project');
-    sessionManager.updateSession(key, { messageCount: 5 });
-    
-    const result = await compactionManager.compactIfNeeded(key);
+    const manager = new CompactionManager({}, {
+      getAgent: () => mockAgent,
+      flushMemory: async (flushed) => {
+        order.push(`flush:${flushed.projectPath}`);
+        return true;
+      },
+    });
+
+    await manager.compact({ ...target, projectPath: '/srv/app' });
+    expect(order).toEqual(['flush:/srv/app', 'summarize']);
+  });
+
+  test('should only record usage when auto-compaction is disabled', async () => {
+    const manager = new CompactionManager(
+      { autoCompactEnabled: false },
+      { getAgent: () => mockAgent }
+    );
+
+    const result = await manager.recordUsage(target, { contextTokens: 120000 });
     expect(result).toBeNull();
+    expect(manager.getUsage('ses_1')?.percent).toBe(94);
+    expect(mockAgent._summarizeCalls).toBe(0);
   });
 });
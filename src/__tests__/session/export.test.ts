@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'bun:test';
+import { buildSessionExport, renderExportMarkdown, renderExportJson } from '../../session/export';
+import type { SessionTranscript } from '../../session/export';
+
+const transcript: SessionTranscript = {
+  sessionId: 'ses_1',
+  title: 'Redis 连接泄漏',
+  projectPath: '/srv/app',
+  model: 'openai/gpt-4o',
+  messages: [
+    {
+      info: { role: 'user', time: { created: Date.UTC(2026, 0, 2, 3, 4) } },
+      parts: [{ type: 'text', text: '为什么 redis 连接数一直涨？' }],
+    },
+    {
+      info: { role: 'assistant', time: { created: Date.UTC(2026, 0, 2, 3, 5) } },
+      parts: [
+        { type: 'reasoning', text: '先看连接池配置' },
+        { type: 'tool', tool: 'bash', state: { status: 'completed', title: 'grep pool', input: { command: 'grep -r pool src' } } },
+        { type: 'tool', tool: 'edit', state: { status: 'error', error: 'permission denied' } },
+        { type: 'text', text: '连接没有在 finally 中释放。' },
+      ],
+    },
+    { info: { role: 'assistant' }, parts: [{ type: 'step-start' }] },
+  ],
+  summary: {
+    files: 1,
+    additions: 1,
+    deletions: 1,
+    diffs: [{ file: 'src/redis.ts', before: 'const a = 1;\nclient.get();', after: 'const a = 1;\nclient.release();', additions: 1, deletions: 1 }],
+  },
+};
+
+describe('Session export', () => {
+  test('should keep prompts, replies and tool calls but skip reasoning and empty messages', () => {
+    const data = buildSessionExport(transcript, 0);
+
+    expect(data.messages).toHaveLength(2);
+    expect(data.messages[0]).toMatchObject({ role: 'user', text: '为什么 redis 连接数一直涨？', tools: [] });
+    expect(data.messages[1]!.text).toBe('连接没有在 finally 中释放。');
+    expect(data.messages[1]!.tools.map(t => [t.name, t.state])).toEqual([['bash', 'completed'], ['edit', 'error']]);
+    expect(data.changes).toMatchObject({ files: 1, additions: 1, deletions: 1 });
+  });
+
+  test('should collapse tool calls into one line for documents', () => {
+    const markdown = renderExportMarkdown(buildSessionExport(transcript, 0));
+
+    expect(markdown).toStartWith('# Redis 连接泄漏\n');
+    expect(markdown).toContain('## 👤 用户（2026-01-02 03:04）');
+    expect(markdown).toContain('> 🔧 工具调用 2 次：✅ bash，❌ edit');
+    expect(markdown).toContain('- `src/redis.ts` +1 -1');
+    expect(markdown).not.toContain('<details>');
+    expect(markdown).not.toContain('先看连接池配置');
+  });
+
+  test('should expand tool inputs and diffs in Markdown files', () => {
+    const markdown = renderExportMarkdown(buildSessionExport(transcript, 0), { expandDetails: true });
+
+    expect(markdown).toContain('<details><summary>🔧 工具调用 2 次');
+    expect(markdown).toContain('"command": "grep -r pool src"');
+    expect(markdown).toContain('```diff\n-client.get();\n+client.release();\n```');
+  });
+
+  test('should render JSON that round-trips', () => {
+    const data = buildSessionExport(transcript, 0);
+    expect(JSON.parse(renderExportJson(data))).toEqual(JSON.parse(JSON.stringify(data)));
+  });
+});
@@ -2,6 +2,9 @@ import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import { SessionManager } from '../../session/manager';
 import type { SessionKey } from '../../types/session';
 import type { IAgentRuntime } from '../../types/agent';
+import type { IChannel } from '../../types/channel';
+import type { UnifiedReply } from '../../types/message';
+import { BotDatabase } from '../../storage/database';
 
 function createMockAgent(): IAgentRuntime {
   return {
@@ -12,6 +15,9 @@ function createMockAgent(): IAgentRuntime {
     shutdown: async () => {},
     createSession: async () => `session_${Date.now()}`,
     getOrCreateSession: async () => `session_${Date.now()}`,
+    resumeSession: async () => true,
+    suspendSession: async () => {},
+    forkSession: async () => `fork_${Date.now()}`,
     switchModel: async () => {},
     clearHistory: async () => {},
     send: async () => {},
@@ -243,4 +249,200 @@ describe('SessionManager', () => {
     expect(sessionManager.getSession(userKey)).toBeDefined();
     expect(sessionManager.getSession(userChatKey)).toBeDefined();
   });
+
+  test('should restore sessions and dedupe events from the database after a restart', async () => {
+    const database = new BotDatabase(':memory:');
+    const deps = { getAgent: () => mockAgent, getChannel: () => undefined, database };
+    const key: SessionKey = { channelId: 'feishu', chatId: 'chat_db', keyType: 'chat' };
+
+    const first = new SessionManager({ keyType: 'chat' }, deps);
+    const created = await first.createSession(key, '/project', 'test-model');
+    first.markEventProcessed('evt_1');
+    first.shutdown();
+
+    const second = new SessionManager({ keyType: 'chat' }, deps);
+    expect(second.getSession(key)?.agentSessionId).toBe(created.agentSessionId);
+    expect(second.isDuplicateEvent('evt_1')).toBe(true);
+    second.shutdown();
+    database.close();
+  });
+
+  test('should resume restored sessions and drop the ones the agent lost', async () => {
+    const database = new BotDatabase(':memory:');
+    const deps = { getAgent: () => mockAgent, getChannel: () => undefined, database };
+    const kept: SessionKey = { channelId: 'feishu', chatId: 'chat_kept', keyType: 'chat' };
+    const lost: SessionKey = { channelId: 'feishu', chatId: 'chat_lost', keyType: 'chat' };
+
+    let counter = 0;
+    mockAgent.createSession = async () => `session_${++counter}`;
+    const first = new SessionManager({ keyType: 'chat' }, deps);
+    await first.createSession(kept, '/project');
+    const lostSession = await first.createSession(lost, '/project');
+    first.shutdown();
+
+    mockAgent.resumeSession = async (sessionId) => sessionId !== lostSession.agentSessionId;
+    const second = new SessionManager({ keyType: 'chat' }, deps);
+
+    expect(await second.resumeSessions()).toEqual({ resumed: 1, dropped: 1 });
+    expect(second.getSession(kept)).toBeDefined();
+    expect(second.getSession(lost)).toBeUndefined();
+    second.shutdown();
+    database.close();
+  });
+
+  describe('idle lifecycle', () => {
+    const HOUR = 60 * 60 * 1000;
+    const DAY = 24 * HOUR;
+
+    function createIdleManager(overrides: { disbandOnArchive?: boolean } = {}) {
+      const suspended: string[] = [];
+      const renamed: Array<[string, string]> = [];
+      const deleted: string[] = [];
+      const sent: UnifiedReply[] = [];
+      mockAgent.suspendSession = async (sessionId) => { suspended.push(sessionId); };
+      const channel = { sendMessage: async (_chatId: string, reply: UnifiedReply) => { sent.push(reply); return 'msg_1'; } } as unknown as IChannel;
+
+      const manager = new SessionManager(
+        { keyType: 'chat', idleTimeoutMs: HOUR, archiveAfterMs: 7 * DAY, ...overrides },
+        {
+          getAgent: () => mockAgent,
+          getChannel: () => channel,
+          createChat: async () => ({ chatId: 'oc_group' }),
+          updateChatName: async (chatId, name) => { renamed.push([chatId, name]); return true; },
+          deleteChat: async (chatId) => { deleted.push(chatId); return true; },
+        }
+      );
+      return { manager, suspended, renamed, deleted, sent };
+    }
+
+    test('should suspend idle sessions and resume them on next use', async () => {
+      const { manager, suspended } = createIdleManager();
+      const key: SessionKey = { channelId: 'feishu', chatId: 'chat_idle', keyType: 'chat' };
+      const session = await manager.createSession(key, '/project');
+      const resumed: string[] = [];
+      mockAgent.resumeSession = async (sessionId) => { resumed.push(sessionId); return true; };
+
+      await manager.checkIdleSessions(Date.now() + 2 * HOUR);
+      expect(suspended).toEqual([session.agentSessionId]);
+      expect(manager.getSession(key)?.status).toBe('idle');
+
+      await manager.checkIdleSessions(Date.now() + 3 * HOUR);
+      expect(suspended).toHaveLength(1);
+
+      const woken = await manager.getOrCreateSession(key, '/project');
+      expect(woken.agentSessionId).toBe(session.agentSessionId);
+      expect(woken.status).toBe('active');
+      expect(resumed).toEqual([session.agentSessionId]);
+      manager.shutdown();
+    });
+
+    test('should archive idle session groups and restore them on activity', async () => {
+      const { manager, renamed, sent, deleted } = createIdleManager();
+      const group = await manager.createSessionGroup('ou_a', '/project');
+      await manager.updateSessionGroupTitle(group.chatId, 'redis');
+
+      await manager.checkIdleSessions(Date.now() + 8 * DAY);
+
+      expect(manager.getIdleStatus(group.chatId)?.status).toBe('archived');
+      expect(renamed[renamed.length - 1]![1]).toStartWith('[已归档] o');
+      const summary = sent[0]!.blocks[0];
+      expect(summary).toMatchObject({ type: 'text', content: expect.stringContaining('会话已归档') });
+      expect(deleted).toEqual([]);
+
+      await manager.getOrCreateSession(group.sessionKey, '/project');
+      expect(manager.getIdleStatus(group.chatId)?.status).not.toBe('archived');
+      expect(renamed[renamed.length - 1]![1]).not.toContain('已归档');
+      manager.shutdown();
+    });
+
+    test('should disband archived groups when configured', async () => {
+      const { manager, deleted } = createIdleManager({ disbandOnArchive: true });
+      const group = await manager.createSessionGroup('ou_a', '/project');
+
+      await manager.checkIdleSessions(Date.now() + 8 * DAY);
+
+      expect(deleted).toEqual([group.chatId]);
+      expect(manager.isSessionGroup(group.chatId)).toBe(false);
+      manager.shutdown();
+    });
+
+    test('should honour per-group overrides', async () => {
+      const { manager, renamed } = createIdleManager();
+      const kept = await manager.createSessionGroup('ou_a', '/project');
+      manager.setIdlePolicy(kept.chatId, { keep: true });
+
+      await manager.checkIdleSessions(Date.now() + 30 * DAY);
+
+      expect(renamed).toEqual([]);
+      expect(manager.getIdleStatus(kept.chatId)).toMatchObject({ archiveAfterMs: undefined, overridden: true });
+
+      manager.setIdlePolicy(kept.chatId, { archiveAfterMs: 60 * DAY });
+      await manager.checkIdleSessions(Date.now() + 30 * DAY);
+      expect(renamed).toEqual([]);
+      manager.shutdown();
+    });
+  });
+
+  describe('fork', () => {
+    test('should fork a session into a new group and record lineage', async () => {
+      let chatCount = 0;
+      const forked: Array<[string, string]> = [];
+      mockAgent.forkSession = async (sessionId, projectPath) => {
+        forked.push([sessionId, projectPath]);
+        return `fork_of_${sessionId}`;
+      };
+
+      const manager = new SessionManager(
+        { keyType: 'chat' },
+        {
+          getAgent: () => mockAgent,
+          getChannel: () => undefined,
+          createChat: async () => ({ chatId: `oc_group_${++chatCount}` }),
+          updateChatName: async () => true,
+        }
+      );
+
+      const parent = await manager.createSessionGroup('ou_a', '/project');
+      const parentSessionId = manager.getSession(parent.sessionKey)!.agentSessionId;
+
+      const child = await manager.createSessionGroup('ou_a', '/project', {
+        title: 'redis',
+        forkFrom: { chatId: parent.chatId, agentSessionId: parentSessionId },
+      });
+
+      expect(forked).toEqual([[parentSessionId, '/project']]);
+      expect(manager.getSession(child.sessionKey)?.agentSessionId).toBe(`fork_of_${parentSessionId}`);
+      expect(child).toMatchObject({ parentChatId: parent.chatId, parentSessionId, title: 'redis' });
+
+      const grandchild = await manager.createSessionGroup('ou_a', '/project', {
+        forkFrom: { chatId: child.chatId, agentSessionId: `fork_of_${parentSessionId}` },
+      });
+
+      expect(manager.getLineage(parent.chatId).children.map(g => g.chatId)).toEqual([child.chatId]);
+      const lineage = manager.getLineage(grandchild.chatId);
+      expect(lineage.parentChatId).toBe(child.chatId);
+      expect(lineage.ancestors.map(g => g.chatId)).toEqual([parent.chatId, child.chatId]);
+      manager.shutdown();
+    });
+
+    test('should reopen an existing agent session in a new group', async () => {
+      const created: string[] = [];
+      mockAgent.resumeSession = async (sessionId) => sessionId === 'ses_old';
+      const manager = new SessionManager(
+        { keyType: 'chat' },
+        {
+          getAgent: () => mockAgent,
+          getChannel: () => undefined,
+          createChat: async () => { created.push('oc_reopened'); return { chatId: 'oc_reopened' }; },
+        }
+      );
+
+      const group = await manager.createSessionGroup('ou_a', '/project', { resumeSessionId: 'ses_old' });
+      expect(manager.getSession(group.sessionKey)?.agentSessionId).toBe('ses_old');
+
+      await expect(manager.createSessionGroup('ou_a', '/project', { resumeSessionId: 'ses_gone' })).rejects.toThrow('Session not found');
+      expect(created).toEqual(['oc_reopened']);
+      manager.shutdown();
+    });
+  });
 });
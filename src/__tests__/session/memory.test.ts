@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { BotDatabase } from '../../storage/database';
+import { ProjectMemory, MEMORY_FLUSH_PROMPT } from '../../session/memory';
+import type { ProjectMemoryDependencies } from '../../session/memory';
+import type { IAgentRuntime, AgentEventHandler } from '../../types/agent';
+
+function createReplyingAgent(reply: string): IAgentRuntime & { sent: string[] } {
+  const handlers = new Set<AgentEventHandler>();
+  const sent: string[] = [];
+
+  return {
+    id: 'mock-agent',
+    type: 'mock',
+    initialized: true,
+    sent,
+    initialize: async () => {},
+    shutdown: async () => {},
+    createSession: async () => 'ses_1',
+    getOrCreateSession: async () => 'ses_1',
+    resumeSession: async () => true,
+    suspendSession: async () => {},
+    forkSession: async () => 'ses_2',
+    switchModel: async () => {},
+    clearHistory: async () => {},
+    send: async (sessionId, message) => {
+      sent.push(message);
+      queueMicrotask(() => {
+        for (const handler of handlers) {
+          if (reply) handler({ type: 'message.delta', sessionId, timestamp: Date.now(), messageId: 'm1', delta: reply });
+          handler({ type: 'message.complete', sessionId, timestamp: Date.now(), messageId: 'm1', content: [] });
+        }
+      });
+    },
+    abort: async () => true,
+    executeCommand: async () => '',
+    summarize: async () => true,
+    subscribe: (_sessionId, handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    unsubscribe: (_sessionId, handler) => { handlers.delete(handler); },
+    listModels: async () => [],
+    getSessionInfo: async () => null,
+  };
+}
+
+describe('ProjectMemory', () => {
+  let database: BotDatabase;
+  let deps: ProjectMemoryDependencies;
+  let memory: ProjectMemory;
+  let appended: Array<[string, string]>;
+
+  const target = { chatId: 'oc_1', sessionId: 'ses_1', projectPath: '/srv/app' };
+
+  beforeEach(() => {
+    database = new BotDatabase(':memory:');
+    appended = [];
+    deps = {
+      database,
+      createDocument: mock(async (_title: string) => ({ documentId: 'doc_1', url: 'https://feishu.cn/docx/doc_1' })),
+      appendToDocument: async (documentId, content) => {
+        appended.push([documentId, content]);
+        return true;
+      },
+      sendMessage: mock(async (_chatId: string, _text: string) => 'om_1'),
+      pinMessage: mock(async (_messageId: string) => true),
+      getProjectName: (projectPath) => projectPath === '/srv/app' ? 'App' : undefined,
+    };
+    memory = new ProjectMemory({}, deps);
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  test('should ask the agent and append its summary to the project document', async () => {
+    const agent = createReplyingAgent('### 关键决策\n- 改用连接池');
+
+    expect(await memory.flush(target, agent)).toBe(true);
+
+    expect(agent.sent).toEqual([MEMORY_FLUSH_PROMPT]);
+    expect(deps.createDocument).toHaveBeenCalledWith('工作记忆 · App');
+    expect(appended).toHaveLength(1);
+    expect(appended[0]![0]).toBe('doc_1');
+    expect(appended[0]![1]).toContain('### 关键决策\n- 改用连接池');
+    expect(memory.getDocument('/srv/app')).toEqual({ projectPath: '/srv/app', documentId: 'doc_1', url: 'https://feishu.cn/docx/doc_1' });
+  });
+
+  test('should reuse the document and pin the link once per chat', async () => {
+    const agent = createReplyingAgent('- 无');
+
+    await memory.flush(target, agent);
+    await memory.flush({ ...target, sessionId: 'ses_2' }, agent);
+    await memory.flush({ ...target, chatId: 'oc_2' }, agent);
+
+    expect(deps.createDocument).toHaveBeenCalledTimes(1);
+    expect(appended).toHaveLength(3);
+    expect(deps.pinMessage).toHaveBeenCalledTimes(2);
+    expect(database.getMemoryPin('oc_1', '/srv/app')).toBe('om_1');
+  });
+
+  test('should create only one document when sessions flush concurrently', async () => {
+    const agent = createReplyingAgent('- 无');
+
+    await Promise.all([memory.flush(target, agent), memory.flush({ ...target, sessionId: 'ses_2' }, agent)]);
+
+    expect(deps.createDocument).toHaveBeenCalledTimes(1);
+  });
+
+  test('should skip the document when the agent has nothing to say', async () => {
+    expect(await memory.flush(target, createReplyingAgent(''))).toBe(false);
+    expect(deps.createDocument).not.toHaveBeenCalled();
+  });
+});
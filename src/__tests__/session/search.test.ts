@@ -0,0 +1,77 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { BotDatabase } from '../../storage/database';
+import { SessionSearchIndex, buildSnippet } from '../../session/search';
+import type { IndexedTurn } from '../../session/search';
+
+describe('SessionSearchIndex', () => {
+  let database: BotDatabase;
+  let index: SessionSearchIndex;
+
+  function turn(overrides: Partial<IndexedTurn>): IndexedTurn {
+    return {
+      userId: 'ou_a',
+      chatId: 'oc_1',
+      sessionId: 'ses_1',
+      agentId: 'opencode',
+      projectPath: '/srv/app',
+      prompt: '',
+      reply: '',
+      completedAt: 1000,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    database = new BotDatabase(':memory:');
+    index = new SessionSearchIndex(database);
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  test('should return one hit per session with the newest match first', () => {
+    index.recordTurn(turn({ prompt: 'Redis 连接超时', reply: '检查 redis 连接池', completedAt: 1000 }));
+    index.recordTurn(turn({ sessionId: 'ses_2', chatId: 'oc_2', prompt: 'redis 内存告警', completedAt: 2000 }));
+    index.recordTurn(turn({ sessionId: 'ses_3', prompt: 'nginx 配置', completedAt: 3000 }));
+
+    const hits = index.search('ou_a', 'redis');
+
+    expect(hits.map(h => h.sessionId)).toEqual(['ses_2', 'ses_1']);
+    expect(hits[1]).toMatchObject({ matchCount: 2, role: 'assistant', snippet: '检查 redis 连接池', lastMatchedAt: 1000 });
+  });
+
+  test('should require every term and only search the sessions of the user', () => {
+    index.recordTurn(turn({ prompt: 'redis 连接超时' }));
+    index.recordTurn(turn({ sessionId: 'ses_2', prompt: 'redis 内存' }));
+    index.recordTurn(turn({ userId: 'ou_b', sessionId: 'ses_3', prompt: 'redis 连接超时' }));
+
+    expect(index.search('ou_a', 'redis 超时').map(h => h.sessionId)).toEqual(['ses_1']);
+    expect(index.search('ou_a', '   ')).toEqual([]);
+  });
+
+  test('should treat LIKE wildcards literally', () => {
+    index.recordTurn(turn({ prompt: '进度 100%' }));
+    index.recordTurn(turn({ sessionId: 'ses_2', prompt: '进度 1000' }));
+
+    expect(index.search('ou_a', '100%').map(h => h.sessionId)).toEqual(['ses_1']);
+  });
+
+  test('should match and attach titles, keeping only the latest one', () => {
+    index.recordTurn(turn({ prompt: '看一下日志' }));
+    index.recordTitle({ userId: 'ou_a', chatId: 'oc_1', sessionId: 'ses_1', projectPath: '/srv/app', title: '排查日志' });
+    index.recordTitle({ userId: 'ou_a', chatId: 'oc_1', sessionId: 'ses_1', projectPath: '/srv/app', title: '修复 Redis 泄漏' });
+
+    const hits = index.search('ou_a', 'redis');
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ role: 'title', title: '修复 Redis 泄漏' });
+    expect(index.search('ou_a', '日志')[0]!.title).toBe('修复 Redis 泄漏');
+  });
+
+  test('should cut snippets around the first match', () => {
+    const snippet = buildSnippet(`${'a'.repeat(100)} Redis ${'b'.repeat(100)}`, ['redis']);
+    expect(snippet).toStartWith('…');
+    expect(snippet).toEndWith('…');
+    expect(snippet).toContain('Redis');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BotDatabase, MIGRATIONS } from '../../storage/database';
+import type { SessionState } from '../../types/session';
+
+describe('BotDatabase', () => {
+  let database: BotDatabase;
+
+  beforeEach(() => {
+    database = new BotDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  test('should apply all migrations on a fresh database', () => {
+    expect(database.getSchemaVersion()).toBe(MIGRATIONS[MIGRATIONS.length - 1]!.version);
+  });
+
+  test('should only apply migrations newer than the stored version', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bot-db-'));
+    const path = join(dir, 'bot.db');
+    const next = MIGRATIONS[MIGRATIONS.length - 1]!.version + 1;
+    try {
+      new BotDatabase(path).close();
+
+      const upgraded = new BotDatabase(path, [
+        ...MIGRATIONS,
+        { version: next, name: 'add_notes', up: 'CREATE TABLE notes (id TEXT PRIMARY KEY)' },
+      ]);
+      expect(upgraded.getSchemaVersion()).toBe(next);
+      upgraded.close();
+
+      const reopened = new BotDatabase(path, [
+        ...MIGRATIONS,
+        { version: next, name: 'add_notes', up: 'CREATE TABLE notes (id TEXT PRIMARY KEY)' },
+      ]);
+      expect(reopened.getSchemaVersion()).toBe(next);
+      reopened.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should store chat session mappings and preferences separately', () => {
+    database.setChatPreferences('chat_1', { projectPath: '/srv/app', model: 'gpt-4o', queueMode: 'steer' });
+    database.setChatSession('chat_1', 'ses_1', 'opencode');
+    database.setChatSession('chat_1', 'ses_2', 'opencode');
+
+    expect(database.getChatPreferences('chat_1')).toEqual({ projectPath: '/srv/app', model: 'gpt-4o', queueMode: 'steer' });
+    expect(database.getChatSession('chat_1')).toEqual({ chatId: 'chat_1', sessionId: 'ses_2', agentId: 'opencode' });
+
+    database.deleteChatSession('chat_1');
+    expect(database.getChatSession('chat_1')).toBeUndefined();
+    expect(database.getChatPreferences('chat_1')).toBeDefined();
+  });
+
+  test('should keep per-member preferences next to the chat key type', () => {
+    database.setChatPreferences('chat_1', { projectPath: '/srv/app', keyType: 'user_chat' });
+    database.setChatPreferences('chat_1:ou_a', { projectPath: '/srv/other', model: 'gpt-4o' });
+
+    expect(database.getChatPreferences('chat_1')?.keyType).toBe('user_chat');
+    expect(database.getChatPreferences('chat_1:ou_a')).toEqual({ projectPath: '/srv/other', model: 'gpt-4o', queueMode: undefined, keyType: undefined });
+  });
+
+  test('should delete a chat together with its member keys', () => {
+    database.setChatPreferences('oc_a', { keyType: 'user_chat' });
+    database.setChatSession('oc_a:ou_1', 'ses_1');
+    database.setChatPreferences('oc_a:ou_1', { model: 'gpt-4o' });
+    database.setChatSession('oc_ab', 'ses_2');
+
+    database.deleteChatState('oc_a');
+
+    expect(database.getChatPreferences('oc_a')).toBeUndefined();
+    expect(database.getChatSession('oc_a:ou_1')).toBeUndefined();
+    expect(database.getChatPreferences('oc_a:ou_1')).toBeUndefined();
+    expect(database.getChatSession('oc_ab')?.sessionId).toBe('ses_2');
+  });
+
+  test('should replace the whitelist', () => {
+    database.replaceWhitelist(['ou_a', 'ou_b']);
+    database.replaceWhitelist(['ou_b', 'ou_c']);
+
+    expect(database.getWhitelist().sort()).toEqual(['ou_b', 'ou_c']);
+  });
+
+  test('should snapshot session manager state', () => {
+    const state: SessionState = {
+      key: { channelId: 'feishu', chatId: 'chat_1', keyType: 'chat' },
+      agentSessionId: 'ses_1',
+      agentId: 'opencode',
+      status: 'active',
+      projectPath: '/srv/app',
+      createdAt: 1,
+      lastActiveAt: 2,
+      messageCount: 3,
+    };
+    const group = { chatId: 'chat_1', sessionKey: state.key, createdAt: 1, createdBy: 'ou_a' };
+
+    database.replaceSessionState([{ key: 'feishu:chat:chat_1', state }], [group]);
+    database.replaceSessionState([{ key: 'feishu:chat:chat_1', state }], [group]);
+
+    expect(database.loadSessions()).toEqual([{ key: 'feishu:chat:chat_1', state }]);
+    expect(database.loadSessionGroups()).toEqual([group]);
+  });
+
+  test('should record and prune processed events', () => {
+    database.markEventProcessed('evt_old', 100);
+    database.markEventProcessed('evt_new', 300);
+
+    expect(database.getEventProcessedAt('evt_new')).toBe(300);
+    expect(database.pruneProcessedEvents(200)).toBe(1);
+    expect(database.getEventProcessedAt('evt_old')).toBeUndefined();
+  });
+});
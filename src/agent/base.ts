@@ -21,6 +21,9 @@ export abstract class BaseAgent implements IAgentRuntime {
   
   abstract createSession(projectPath: string, model?: string): Promise<string>;
   abstract getOrCreateSession(projectPath: string, model?: string): Promise<string>;
+  abstract resumeSession(sessionId: string, projectPath: string, model?: string): Promise<boolean>;
+  abstract suspendSession(sessionId: string): Promise<void>;
+  abstract forkSession(sessionId: string, projectPath: string, model?: string): Promise<string>;
   abstract switchModel(sessionId: string, model: string): Promise<void>;
   abstract clearHistory(sessionId: string): Promise<void>;
   
@@ -34,6 +37,7 @@ export abstract class BaseAgent implements IAgentRuntime {
     model?: string;
     projectPath?: string;
     messageCount?: number;
+    contextTokens?: number;
   } | null>;
 
   subscribe(sessionId: string, handler: AgentEventHandler): () => void {
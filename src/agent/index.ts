@@ -1,3 +1,4 @@
 export * from '../types/agent';
 export { BaseAgent } from './base';
 export { OpencodeAgent, type OpencodeAgentConfig } from './opencode';
+export { AgentRegistry, createAgentRegistry, type AgentFactory, type AgentFactoryContext } from './registry';
@@ -1,31 +1,38 @@
 import { BaseAgent } from './base';
-import type { ModelInfo, SendOptions, AnyAgentEvent } from '../types/agent';
+import type { ModelInfo, SendOptions, AnyAgentEvent, TokenUsage } from '../types/agent';
 import {
   OpencodeWrapper,
   createOpencodeWrapper,
   extractTextFromPart,
   extractToolCallFromPart,
   extractSubtaskFromPart,
+  extractTokenUsage,
   parseModelId,
   type OpencodeEventData,
 } from '../opencode/client';
 import { logger } from '../utils/logger';
 
+const FORK_TRANSCRIPT_MESSAGES = 40;
+const FORK_TRANSCRIPT_CHARS = 16000;
+
 export interface OpencodeAgentConfig {
+  id?: string;
   directory?: string;
 }
 
 export class OpencodeAgent extends BaseAgent {
-  readonly id = 'opencode';
+  readonly id: string;
   readonly type = 'opencode';
 
   private wrapper: OpencodeWrapper;
   private sessionUnsubscribers = new Map<string, () => void>();
   private sessionModels = new Map<string, string>();
   private sessionProjects = new Map<string, string>();
+  private sessionUsage = new Map<string, { usage: TokenUsage; model?: string }>();
 
   constructor(config: OpencodeAgentConfig = {}) {
     super();
+    this.id = config.id ?? 'opencode';
     this.wrapper = createOpencodeWrapper({ directory: config.directory });
   }
 
@@ -34,7 +41,7 @@ export class OpencodeAgent extends BaseAgent {
     
     await this.wrapper.start();
     this.setInitialized(true);
-    logger.info('OpencodeAgent initialized');
+    logger.info('OpencodeAgent initialized', { agentId: this.id });
   }
 
   async shutdown(): Promise<void> {
@@ -73,6 +80,108 @@ export class OpencodeAgent extends BaseAgent {
     return this.createSession(projectPath, model);
   }
 
+  async resumeSession(sessionId: string, projectPath: string, model?: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    if (this.sessionUnsubscribers.has(sessionId)) {
+      if (model) {
+        this.sessionModels.set(sessionId, model);
+      }
+      return true;
+    }
+
+    const detail = await this.wrapper.getSessionDetail(sessionId);
+    if (!detail) {
+      logger.warn('Session no longer exists, cannot resume', { sessionId });
+      return false;
+    }
+
+    this.sessionProjects.set(sessionId, projectPath);
+    if (model) {
+      this.sessionModels.set(sessionId, model);
+    }
+
+    await this.setupEventSubscription(sessionId);
+
+    this.notifyHandlers(sessionId, {
+      type: 'session.resumed',
+      sessionId,
+      timestamp: Date.now(),
+      projectPath,
+      model,
+    });
+
+    logger.info('Session resumed', { sessionId, projectPath, model });
+    return true;
+  }
+
+  async forkSession(sessionId: string, projectPath: string, model?: string): Promise<string> {
+    this.ensureInitialized();
+
+    let forkedId: string;
+    try {
+      forkedId = await this.wrapper.forkSession(sessionId);
+    } catch (error) {
+      logger.warn('Session fork failed, seeding a new session with the transcript', { sessionId, error });
+      forkedId = await this.wrapper.createSession();
+      const transcript = await this.buildForkTranscript(sessionId);
+      if (transcript) {
+        await this.wrapper.injectContext(forkedId, transcript);
+      }
+    }
+
+    this.sessionProjects.set(forkedId, projectPath);
+    if (model) {
+      this.sessionModels.set(forkedId, model);
+    }
+
+    await this.setupEventSubscription(forkedId);
+
+    this.notifyHandlers(forkedId, {
+      type: 'session.created',
+      sessionId: forkedId,
+      timestamp: Date.now(),
+      projectPath,
+      model,
+    });
+
+    logger.info('Session forked', { from: sessionId, to: forkedId });
+    return forkedId;
+  }
+
+  private async buildForkTranscript(sessionId: string): Promise<string | null> {
+    const messages = await this.wrapper.getSessionMessages(sessionId);
+    const lines: string[] = [];
+
+    for (const message of messages.slice(-FORK_TRANSCRIPT_MESSAGES)) {
+      const info = message.info as Record<string, unknown> | undefined;
+      const parts = (message.parts as unknown[] | undefined) ?? [];
+      const text = parts
+        .filter(part => (part as Record<string, unknown>).type === 'text')
+        .map(part => extractTextFromPart(part))
+        .filter((t): t is string => !!t)
+        .join('\n')
+        .trim();
+      if (text) {
+        lines.push(`[${info?.role === 'user' ? '用户' : '助手'}] ${text}`);
+      }
+    }
+
+    if (lines.length === 0) return null;
+
+    const transcript = lines.join('\n\n');
+    return `以下是分叉前的对话记录，请在此基础上继续：\n\n${transcript.slice(-FORK_TRANSCRIPT_CHARS)}`;
+  }
+
+  async suspendSession(sessionId: string): Promise<void> {
+    this.sessionUnsubscribers.get(sessionId)?.();
+    this.sessionUnsubscribers.delete(sessionId);
+    this.sessionModels.delete(sessionId);
+    this.sessionProjects.delete(sessionId);
+    this.sessionUsage.delete(sessionId);
+    logger.info('Session suspended', { sessionId });
+  }
+
   async switchModel(sessionId: string, model: string): Promise<void> {
     this.sessionModels.set(sessionId, model);
   }
@@ -97,7 +206,8 @@ export class OpencodeAgent extends BaseAgent {
       sessionId, 
       message, 
       images, 
-      modelSelection ?? undefined
+      modelSelection ?? undefined,
+      options?.systemPrompt
     );
   }
 
@@ -134,6 +244,7 @@ export class OpencodeAgent extends BaseAgent {
       id: m.id,
       name: m.name,
       provider: m.providerId,
+      contextWindow: m.contextWindow,
     }));
   }
 
@@ -141,16 +252,22 @@ export class OpencodeAgent extends BaseAgent {
     model?: string;
     projectPath?: string;
     messageCount?: number;
+    contextTokens?: number;
   } | null> {
     const detail = await this.wrapper.getSessionDetail(sessionId);
     if (!detail) return null;
     
     const messages = await this.wrapper.getSessionMessages(sessionId);
+    const usage = messages
+      .map(message => extractTokenUsage(message.info))
+      .filter((u): u is TokenUsage => u !== null)
+      .pop();
     
     return {
       model: this.sessionModels.get(sessionId),
       projectPath: this.sessionProjects.get(sessionId),
       messageCount: messages.length,
+      contextTokens: usage?.contextTokens,
     };
   }
 
@@ -161,6 +278,11 @@ export class OpencodeAgent extends BaseAgent {
     return this.wrapper.summarizeSession(sessionId, modelSelection ?? undefined);
   }
 
+  async injectContext(sessionId: string, text: string): Promise<void> {
+    this.ensureInitialized();
+    await this.wrapper.injectContext(sessionId, text);
+  }
+
   async replyQuestion(requestId: string, answers: string[][]): Promise<boolean> {
     return this.wrapper.replyQuestion(requestId, answers);
   }
@@ -290,16 +412,33 @@ export class OpencodeAgent extends BaseAgent {
         }
         break;
 
-      case 'message.completed':
-      case 'session.idle':
+      case 'message.updated': {
+        const info = properties.info as Record<string, unknown> | undefined;
+        const usage = info?.sessionID === sessionId ? extractTokenUsage(info) : null;
+        if (usage) {
+          const model = info?.providerID && info.modelID ? `${info.providerID}/${info.modelID}` : undefined;
+          this.sessionUsage.set(sessionId, { usage, model });
+        }
+        break;
+      }
+
+      // Assistant messages complete after every tool step, only the session going idle ends the turn;
+      // idle events of child sessions are forwarded too and must not end the parent's turn
+      case 'session.idle': {
+        if (properties.sessionID && properties.sessionID !== sessionId) break;
+        const last = this.sessionUsage.get(sessionId);
+        this.sessionUsage.delete(sessionId);
         this.notifyHandlers(sessionId, {
           type: 'message.complete',
           sessionId,
           timestamp: Date.now(),
           messageId: (properties.messageID as string) ?? '',
           content: [],
+          usage: last?.usage,
+          model: last?.model,
         });
         break;
+      }
 
       case 'session.error':
         this.notifyHandlers(sessionId, {
@@ -0,0 +1,75 @@
+import type { AgentConfig, IAgentRuntime } from '../types/agent';
+import { OpencodeAgent } from './opencode';
+import { logger } from '../utils/logger';
+
+export interface AgentFactoryContext {
+  defaultProjectPath: string;
+}
+
+export type AgentFactory = (config: AgentConfig, context: AgentFactoryContext) => IAgentRuntime;
+
+export class AgentRegistry {
+  private factories = new Map<string, AgentFactory>();
+  private context: AgentFactoryContext;
+
+  constructor(context: AgentFactoryContext) {
+    this.context = context;
+  }
+
+  register(type: string, factory: AgentFactory): void {
+    if (this.factories.has(type)) {
+      throw new Error(`Agent type ${type} already registered`);
+    }
+    this.factories.set(type, factory);
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  getTypes(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(config: AgentConfig): IAgentRuntime {
+    const factory = this.factories.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown agent type: ${config.type}`);
+    }
+
+    const agent = factory(config, this.context);
+    if (agent.id !== config.id) {
+      throw new Error(`Agent factory for ${config.type} returned id ${agent.id}, expected ${config.id}`);
+    }
+
+    logger.debug('Agent created', { agentId: config.id, type: config.type });
+    return agent;
+  }
+
+  createAll(configs: AgentConfig[]): IAgentRuntime[] {
+    const agents: IAgentRuntime[] = [];
+
+    for (const config of configs) {
+      if (!config.enabled) {
+        logger.info('Agent disabled, skipping', { agentId: config.id });
+        continue;
+      }
+      agents.push(this.create(config));
+    }
+
+    return agents;
+  }
+}
+
+function createOpencodeAgent(config: AgentConfig, context: AgentFactoryContext): IAgentRuntime {
+  const options = config.options ?? {};
+  const directory = typeof options.directory === 'string' ? options.directory : context.defaultProjectPath;
+
+  return new OpencodeAgent({ id: config.id, directory });
+}
+
+export function createAgentRegistry(context: AgentFactoryContext): AgentRegistry {
+  const registry = new AgentRegistry(context);
+  registry.register('opencode', createOpencodeAgent);
+  return registry;
+}
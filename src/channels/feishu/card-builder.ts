@@ -19,11 +19,15 @@ export interface FeishuCard {
 }
 
 const STATUS_TEMPLATES: Record<ReplyStatus, string> = {
+  queued: 'wathet',
   pending: 'blue',
   streaming: 'blue',
   completed: 'green',
   error: 'red',
   cancelled: 'orange',
+  timeout: 'orange',
+  superseded: 'grey',
+  interrupted: 'orange',
 };
 
 export class CardBuilder {
@@ -43,11 +47,15 @@ export class CardBuilder {
 
   private buildHeader(status: ReplyStatus): FeishuCard['header'] {
     const titles: Record<ReplyStatus, string> = {
+      queued: '排队中',
       pending: '处理中...',
       streaming: '生成中...',
       completed: '完成',
       error: '错误',
       cancelled: '已取消',
+      timeout: '已超时',
+      superseded: '已被新消息打断',
+      interrupted: '已中断',
     };
 
     return {
@@ -137,6 +145,18 @@ export class CardBuilder {
             },
           });
           break;
+
+        case 'action':
+          elements.push({
+            tag: 'action',
+            actions: block.actions.map(action => ({
+              tag: 'button',
+              text: { tag: 'plain_text', content: action.label },
+              type: action.style ?? 'default',
+              value: { ...action.value, action: action.id },
+            })),
+          });
+          break;
       }
     }
 
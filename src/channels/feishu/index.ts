@@ -60,6 +60,7 @@ export class FeishuChannel extends BaseChannel {
 
   private client: FeishuClient;
   private cardBuilder: CardBuilder;
+  private botOpenId?: string;
 
   constructor(config: FeishuChannelConfig) {
     super();
@@ -109,6 +110,8 @@ export class FeishuChannel extends BaseChannel {
 
   async connect(): Promise<void> {
     await this.client.start();
+    const botInfo = await this.client.getBotInfo();
+    this.botOpenId = botInfo?.openId;
     this.setConnected(true);
     logger.info('FeishuChannel connected');
   }
@@ -125,7 +128,9 @@ export class FeishuChannel extends BaseChannel {
     options?: SendMessageOptions
   ): Promise<string> {
     const card = this.cardBuilder.buildFromReply(message);
-    const messageId = await this.client.sendCard(chatId, card);
+    // 被引用的消息可能已撤回，回复失败时退回普通发送
+    let messageId = options?.replyTo ? await this.client.replyCard(options.replyTo, card) : null;
+    messageId ??= await this.client.sendCard(chatId, card);
     
     if (!messageId) {
       throw new Error('Failed to send message');
@@ -182,10 +187,18 @@ export class FeishuChannel extends BaseChannel {
     return this.client.sendTextMessage(chatId, text);
   }
 
+  async sendCard(chatId: string, card: object): Promise<string | null> {
+    return this.client.sendCard(chatId, card);
+  }
+
   async sendCardToUser(userId: string, card: object): Promise<string | null> {
     return this.client.sendCardToUser(userId, card);
   }
 
+  async sendFile(chatId: string, fileName: string, data: Buffer): Promise<string | null> {
+    return this.client.sendFile(chatId, fileName, data);
+  }
+
   private async handleMessage(event: MessageEvent): Promise<void> {
     const text = event.messageType === 'text' 
       ? cleanMentionsFromText(parseTextContent(event.content), event.mentions)
@@ -204,6 +217,8 @@ export class FeishuChannel extends BaseChannel {
       messageType: event.messageType,
       content: text,
       mentions: event.mentions,
+      mentionedBot: this.botOpenId !== undefined
+        && (event.mentions ?? []).some(m => m.id === this.botOpenId),
     };
 
     if (event.messageType === 'image') {
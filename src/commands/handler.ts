@@ -1,30 +1,72 @@
+import { realpathSync, statSync } from 'node:fs';
+import { resolve, sep } from 'node:path';
 import type { FeishuChannel } from '../channels/feishu';
-import type { OpencodeAgent } from '../agent/opencode';
+import type { IAgentRuntime } from '../types/agent';
 import type { ProjectConfig, ModelConfig } from '../config';
+import { findProject, canUseProject, expandHome } from '../config';
+import type { RouteExplanation } from '../types/binding';
+import type { QueueMode, LaneSnapshot } from '../queue/lane-queue';
+import type { CompactionResult, SessionGroupInfo, SessionGroupIdleStatus, SessionIdlePolicy, SessionKeyType, SessionLineage } from '../types/session';
+import { formatTokens } from '../session/compaction';
+import type { ContextUsage } from '../session/compaction';
+import type { ExportFormat, SessionTranscript } from '../session/export';
+import { buildSessionExport, renderExportMarkdown, renderExportJson } from '../session/export';
+import type { SessionSearchHit } from '../session/search';
+import {
+  createRouteExplanationCard,
+  createSessionSearchCard,
+  createUnknownCommandCard,
+  SEARCH_REOPEN_ACTION,
+  RUN_COMMAND_ACTION,
+} from '../feishu/menu';
 import {
   parseCommand,
-  getCommand,
+  resolveCommand,
   formatHelpMessage,
+  formatCommandHelp,
   formatCommandError,
+  formatUsageError,
   formatCommandSuccess,
 } from './parser';
+import type { CommandInvocation } from './parser';
+import { CommandRegistry } from './registry';
+import type { CommandEntry } from './registry';
 import { logger } from '../utils/logger';
 
 export interface CommandContext {
   chatId: string;
   userId: string;
   isAdmin: boolean;
+  chatType?: 'private' | 'group';
 }
 
 export interface CommandResult {
   handled: boolean;
   message?: string;
+  /** The command was rejected before it ran (unknown, not permitted or bad usage); stops alias macros. */
+  failed?: boolean;
 }
 
 export interface SessionState {
   projectPath: string;
   model?: string;
   sessionId?: string;
+  agentId?: string;
+  queueMode?: QueueMode;
+  keyType?: SessionKeyType;
+}
+
+export interface SessionGroupResult {
+  chatId: string;
+  sessionId: string;
+  agentId: string;
+}
+
+export interface ReopenTarget {
+  sessionId: string;
+  agentId?: string;
+  projectPath: string;
+  title?: string;
 }
 
 export interface CommandHandlerConfig {
@@ -33,67 +75,175 @@ export interface CommandHandlerConfig {
   defaultProjectPath: string;
   defaultModel?: string;
   adminUserIds: string[];
+  /** Built-in and plugin commands; defaults to the built-in commands only. */
+  commands?: CommandRegistry;
+  /** Directories `/switch_project` may point at, including their subdirectories. */
+  projectRoots?: string[];
+  getAgent?: (agentId: string) => IAgentRuntime | undefined;
+  explainRoute?: (context: CommandContext, text: string) => RouteExplanation;
+  getQueueSnapshot?: () => LaneSnapshot[];
+  listIdleStatus?: () => SessionGroupIdleStatus[];
+  setIdlePolicy?: (chatId: string, policy: SessionIdlePolicy | undefined) => boolean;
+  forkSession?: (context: CommandContext, session: SessionState, title?: string) => Promise<SessionGroupResult>;
+  getSessionLineage?: (chatId: string) => SessionLineage;
+  loadTranscript?: (session: SessionState) => Promise<SessionTranscript | null>;
+  searchSessions?: (userId: string, query: string) => SessionSearchHit[];
+  reopenSession?: (context: CommandContext, target: ReopenTarget) => Promise<SessionGroupResult>;
+  compactSession?: (context: CommandContext, session: SessionState) => Promise<CompactionResult>;
+  getContextUsage?: (session: SessionState) => ContextUsage | undefined;
+  getSessionGroup?: (chatId: string) => SessionGroupInfo | undefined;
+  deleteSessionGroup?: (chatId: string) => Promise<void>;
   whitelist?: Set<string>;
   onWhitelistChange?: (whitelist: Set<string>) => void;
+  /** `key` is the chat id, or `chatId:userId` for members of a `user_chat` chat. */
+  loadSession?: (key: string) => SessionState | undefined;
+  onSessionChange?: (key: string, session: SessionState) => void;
+  /** Drops the stored state of a chat and of all its members, e.g. when `/exit` disbands a session group. */
+  onChatDeleted?: (chatId: string) => void;
+  listPlugins?: () => PluginStatus[];
+  setPluginEnabled?: (name: string, enabled: boolean) => Promise<void>;
+}
+
+export interface PluginStatus {
+  name: string;
+  version: string;
+  loaded: boolean;
+}
+
+const QUEUE_MODE_DESCRIPTIONS: Record<QueueMode, string> = {
+  collect: '短时间内的连续消息合并为一次提问',
+  steer: '新消息立即打断当前任务，并按新指令继续',
+  followup: '新消息在当前任务完成后依次处理',
+};
+
+const KEY_TYPE_DESCRIPTIONS: Partial<Record<SessionKeyType, string>> = {
+  chat: '群内所有成员共享一个会话上下文',
+  user_chat: '每位成员在本群拥有独立的会话、模型和项目选择，回复会引用提问消息',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ALIAS_DEPTH = 5;
+const MAX_DOC_CONTEXT_CHARS = 20000;
+
+function formatIdleStatus(status: SessionGroupIdleStatus): string {
+  const archive = status.archiveAfterMs === undefined
+    ? '不自动归档'
+    : `空闲 ${Math.round(status.archiveAfterMs / DAY_MS * 10) / 10} 天后归档${status.disbandOnArchive ? '并解散' : ''}`;
+  const idleMinutes = Math.round((Date.now() - status.lastActiveAt) / 60000);
+  return `\`${status.title ?? status.chatId}\` ${status.status}，已空闲 ${idleMinutes} 分钟，${archive}${status.overridden ? '（已覆盖）' : ''}`;
 }
 
 export class CommandHandler {
   private channel: FeishuChannel;
-  private agent: OpencodeAgent;
+  private agent: IAgentRuntime;
   private config: CommandHandlerConfig;
   private sessions = new Map<string, SessionState>();
   private whitelist: Set<string>;
+  private commands: CommandRegistry;
 
   constructor(
     channel: FeishuChannel,
-    agent: OpencodeAgent,
+    agent: IAgentRuntime,
     config: CommandHandlerConfig
   ) {
     this.channel = channel;
     this.agent = agent;
     this.config = config;
     this.whitelist = config.whitelist ?? new Set();
+    this.commands = config.commands ?? new CommandRegistry();
   }
 
   async handle(text: string, context: CommandContext): Promise<CommandResult> {
+    return this.execute(text, context, 0);
+  }
+
+  private async execute(text: string, context: CommandContext, depth: number): Promise<CommandResult> {
     const parsed = parseCommand(text);
     if (!parsed) {
       return { handled: false };
     }
 
-    const command = getCommand(parsed.command);
+    const command = this.commands.get(parsed.command);
     if (!command) {
-      await this.sendMessage(context.chatId, formatCommandError(`未知命令: ${parsed.command}`));
-      return { handled: true };
+      const alias = this.commands.getAlias(parsed.command);
+      if (alias) {
+        return this.runAlias(parsed.command, alias, parsed.rawArgs, context, depth);
+      }
+      await this.replyUnknownCommand(parsed.command, context);
+      return { handled: true, failed: true };
     }
 
     if (command.adminOnly && !context.isAdmin) {
       await this.sendMessage(context.chatId, formatCommandError('此命令需要管理员权限'));
-      return { handled: true };
+      return { handled: true, failed: true };
     }
 
+    if (parsed.error) {
+      await this.sendMessage(context.chatId, formatCommandError(parsed.error));
+      return { handled: true, failed: true };
+    }
+
+    if (command.run) {
+      return this.handlePluginCommand(command, parsed.args, context);
+    }
+
+    const resolved = resolveCommand(command, parsed.args);
+    if (!resolved.success) {
+      await this.sendMessage(context.chatId, formatUsageError(resolved.error, resolved.usage));
+      return { handled: true, failed: true };
+    }
+
+    const { args, options } = resolved.invocation;
     try {
       switch (parsed.command) {
         case 'help':
-          return this.handleHelp(context);
+          return this.handleHelp(args.command as string | undefined, context);
         case 'new':
-          return this.handleNew(parsed.args, context);
+          return this.handleNew(args.index as number | undefined, context);
         case 'model':
-          return this.handleModel(parsed.args, context);
+          return this.handleModel(args.model as string | undefined, options.session === true, context);
+        case 'mode':
+          return this.handleMode(args.mode as QueueMode | undefined, context);
+        case 'session_mode':
+          return this.handleSessionMode(args.mode as SessionKeyType | undefined, context);
         case 'clear':
           return this.handleClear(context);
+        case 'exit':
+          return this.handleExit(context);
+        case 'switch_project':
+          return this.handleSwitchProject(args.path as string, context);
+        case 'new_session':
+          return this.handleNewSession(context);
         case 'status':
           return this.handleStatus(context);
+        case 'fork':
+          return this.handleFork(args.title as string | undefined, context);
+        case 'export':
+          return this.handleExport((args.format ?? 'doc') as ExportFormat, options.title as string | undefined, context);
+        case 'search':
+          return this.handleSearch(args.query as string, context);
         case 'abort':
           return this.handleAbort(context);
         case 'compact':
           return this.handleCompact(context);
+        case 'route':
+          return this.handleRoute(parsed.rawArgs, context);
+        case 'queue':
+          return this.handleQueue(context);
+        case 'idle':
+          return this.handleIdle(resolved.invocation, context);
+        case 'plugin':
+          return this.handlePlugin(resolved.invocation, context);
         case 'whitelist_add':
-          return this.handleWhitelistAdd(parsed.args, context);
+          return this.handleWhitelistAdd(args.userId as string, context);
         case 'whitelist_remove':
-          return this.handleWhitelistRemove(parsed.args, context);
+          return this.handleWhitelistRemove(args.userId as string, context);
         case 'whitelist_list':
           return this.handleWhitelistList(context);
+        case 'doc_read':
+          return this.handleDocRead(args.url as string, context);
+        case 'doc_create':
+          return this.handleDocCreate(args.title as string, parsed.body, context);
         default:
           await this.sendMessage(context.chatId, formatCommandError(`命令 ${parsed.command} 暂未实现`));
           return { handled: true };
@@ -101,46 +251,162 @@ export class CommandHandler {
     } catch (error) {
       logger.error('Command execution failed', { command: parsed.command, error });
       await this.sendMessage(context.chatId, formatCommandError(`执行失败: ${error instanceof Error ? error.message : '未知错误'}`));
-      return { handled: true };
+      return { handled: true, failed: true };
+    }
+  }
+
+  /**
+   * Runs the steps of an alias in order. Arguments given to the alias are
+   * appended to its last step; a step that is rejected stops the rest.
+   */
+  private async runAlias(name: string, expansion: string, rawArgs: string, context: CommandContext, depth: number): Promise<CommandResult> {
+    if (depth >= MAX_ALIAS_DEPTH) {
+      await this.sendMessage(context.chatId, formatCommandError(`别名 /${name} 嵌套过深，请检查是否循环引用`));
+      return { handled: true, failed: true };
+    }
+
+    const steps = expansion.split(/\s+&&\s+/);
+    if (rawArgs) {
+      steps[steps.length - 1] += ` ${rawArgs}`;
+    }
+
+    for (const step of steps) {
+      const result = await this.execute(step, context, depth + 1);
+      if (!result.handled || result.failed) {
+        if (!result.handled) {
+          await this.sendMessage(context.chatId, formatCommandError(`别名 /${name} 中的 ${step} 不是命令`));
+        }
+        return { handled: true, failed: true };
+      }
+    }
+    return { handled: true };
+  }
+
+  private async replyUnknownCommand(name: string, context: CommandContext): Promise<void> {
+    const suggestions = this.commands.suggest(name, context.isAdmin);
+    if (suggestions.length === 0) {
+      await this.sendMessage(context.chatId, formatCommandError(`未知命令: ${name}，发送 /help 查看全部命令`));
+      return;
     }
+
+    await this.channel.sendCard(context.chatId, createUnknownCommandCard(name, suggestions.map(suggestion => ({
+      name: suggestion,
+      description: this.commands.get(suggestion)?.description ?? this.commands.getAlias(suggestion),
+    })), context.userId));
   }
 
-  getSession(chatId: string): SessionState {
-    let session = this.sessions.get(chatId);
+  /**
+   * Returns the session state of a chat, or of one member when the chat uses
+   * `user_chat` keys. A member's state starts from the chat's project and model.
+   */
+  getSession(chatId: string, userId?: string): SessionState {
+    const key = this.getSessionKey(chatId, userId);
+    let session = this.sessions.get(key);
     if (!session) {
-      session = {
-        projectPath: this.config.defaultProjectPath,
-        model: this.config.defaultModel,
-      };
-      this.sessions.set(chatId, session);
+      session = this.config.loadSession?.(key) ?? this.createSessionState(chatId, key);
+      this.sessions.set(key, session);
     }
     return session;
   }
 
-  setSessionId(chatId: string, sessionId: string): void {
-    const session = this.getSession(chatId);
+  getKeyType(chatId: string): SessionKeyType {
+    return this.getSession(chatId).keyType ?? 'chat';
+  }
+
+  getSessionKey(chatId: string, userId?: string): string {
+    return userId && this.getKeyType(chatId) === 'user_chat' ? `${chatId}:${userId}` : chatId;
+  }
+
+  setSessionId(chatId: string, sessionId: string, agentId?: string, userId?: string): void {
+    const session = this.getSession(chatId, userId);
     session.sessionId = sessionId;
+    session.agentId = agentId;
+    this.saveSession(this.getSessionKey(chatId, userId), session);
+  }
+
+  private createSessionState(chatId: string, key: string): SessionState {
+    if (key === chatId) {
+      return this.getProjectDefaults(this.config.defaultProjectPath);
+    }
+    const chat = this.getSession(chatId);
+    return { projectPath: chat.projectPath, model: chat.model, queueMode: chat.queueMode };
+  }
+
+  private saveSession(key: string, session: SessionState): void {
+    try {
+      this.config.onSessionChange?.(key, session);
+    } catch (error) {
+      logger.error('Failed to persist chat session', { key, error });
+    }
+  }
+
+  private getSessionAgent(session: SessionState): IAgentRuntime {
+    if (session.agentId && session.agentId !== this.agent.id) {
+      return this.config.getAgent?.(session.agentId) ?? this.agent;
+    }
+    return this.agent;
   }
 
   isAdmin(userId: string): boolean {
     return this.config.adminUserIds.includes(userId);
   }
 
-  private async handleHelp(context: CommandContext): Promise<CommandResult> {
-    const help = formatHelpMessage(context.isAdmin);
+  private async handleHelp(name: string | undefined, context: CommandContext): Promise<CommandResult> {
+    if (name) {
+      const key = name.replace(/^\//, '').toLowerCase();
+      const alias = this.commands.getAlias(key);
+      if (alias) {
+        await this.sendMessage(context.chatId, `\`/${key}\` 是 \`${alias}\` 的别名，附加的参数会追加到最后一条命令`);
+        return { handled: true };
+      }
+
+      const command = this.commands.get(key);
+      if (!command || (command.adminOnly && !context.isAdmin)) {
+        await this.sendMessage(context.chatId, formatCommandError(`未知命令: ${name}`));
+        return { handled: true };
+      }
+      await this.sendMessage(context.chatId, formatCommandHelp(command));
+      return { handled: true };
+    }
+
+    let help = formatHelpMessage(context.isAdmin, this.commands.list(context.isAdmin));
+    const aliases = this.commands.listAliases();
+    if (aliases.length > 0) {
+      help += '\n\n**别名：**\n' + aliases.map(([alias, expansion]) => `- \`/${alias}\` → \`${expansion}\``).join('\n');
+    }
     await this.sendMessage(context.chatId, help);
     return { handled: true };
   }
 
-  private async handleNew(args: string[], context: CommandContext): Promise<CommandResult> {
-    if (this.config.projects.length === 0) {
+  private async handlePluginCommand(command: CommandEntry, args: string[], context: CommandContext): Promise<CommandResult> {
+    try {
+      const reply = await command.run!(args, {
+        channelId: this.channel.id,
+        chatId: context.chatId,
+        userId: context.userId,
+        isAdmin: context.isAdmin,
+      });
+      if (reply) {
+        await this.sendMessage(context.chatId, reply);
+      }
+    } catch (error) {
+      logger.error('Plugin command failed', { command: command.name, plugin: command.source, error });
+      await this.sendMessage(context.chatId, formatCommandError(`执行失败: ${error instanceof Error ? error.message : '未知错误'}`));
+      return { handled: true, failed: true };
+    }
+    return { handled: true };
+  }
+
+  private async handleNew(number: number | undefined, context: CommandContext): Promise<CommandResult> {
+    const projects = this.config.projects.filter(p => canUseProject(p, context.userId, context.isAdmin));
+    if (projects.length === 0) {
       await this.sendMessage(context.chatId, formatCommandError('没有配置可用项目'));
       return { handled: true };
     }
 
-    if (args.length === 0) {
+    if (number === undefined) {
       let message = '**可用项目：**\n\n';
-      this.config.projects.forEach((project, index) => {
+      projects.forEach((project, index) => {
         message += `${index + 1}. ${project.name}\n   \`${project.path}\`\n\n`;
       });
       message += '使用 `/new <编号>` 选择项目';
@@ -148,24 +414,114 @@ export class CommandHandler {
       return { handled: true };
     }
 
-    const index = parseInt(args[0]!, 10) - 1;
-    if (isNaN(index) || index < 0 || index >= this.config.projects.length) {
+    const index = number - 1;
+    if (!Number.isInteger(index) || index < 0 || index >= projects.length) {
       await this.sendMessage(context.chatId, formatCommandError('无效的项目编号'));
       return { handled: true };
     }
 
-    const project = this.config.projects[index]!;
-    const session = this.getSession(context.chatId);
-    session.projectPath = project.path;
-    session.sessionId = undefined;
+    const project = projects[index]!;
+    await this.switchProject(context, project.path, project);
+    return { handled: true };
+  }
 
-    await this.sendMessage(context.chatId, formatCommandSuccess(`已切换到项目: ${project.name}`));
+  private async handleSwitchProject(input: string, context: CommandContext): Promise<CommandResult> {
+    const projectPath = this.resolveProjectPath(input);
+    if (!projectPath) {
+      await this.sendMessage(context.chatId, formatCommandError(`目录不存在或不在允许的项目根目录内: ${input}`));
+      return { handled: true };
+    }
+
+    const project = findProject(this.config.projects, projectPath);
+    if (project && !canUseProject(project, context.userId, context.isAdmin)) {
+      await this.sendMessage(context.chatId, formatCommandError(`你没有使用项目 ${project.name} 的权限`));
+      return { handled: true };
+    }
+
+    await this.switchProject(context, projectPath, project);
     return { handled: true };
   }
 
-  private async handleModel(args: string[], context: CommandContext): Promise<CommandResult> {
-    if (args.length === 0) {
-      const models = await this.agent.listModels();
+  /** Points the session at a new project and starts over with that project's settings. */
+  private async switchProject(context: CommandContext, projectPath: string, project?: ProjectConfig): Promise<void> {
+    const session = this.getSession(context.chatId, context.userId);
+    Object.assign(session, this.getProjectDefaults(projectPath, session));
+    session.sessionId = undefined;
+    session.agentId = project?.agent;
+    this.saveSession(this.getSessionKey(context.chatId, context.userId), session);
+
+    const applied = project ? [
+      project.model && `模型 \`${project.model}\``,
+      project.agent && `Agent \`${project.agent}\``,
+      project.queueMode && `模式 \`${project.queueMode}\``,
+      (project.systemPrompt || project.instructionsFile) && '项目指令',
+    ].filter(Boolean) : [];
+    await this.sendMessage(context.chatId, formatCommandSuccess(
+      `已切换到项目: ${project?.name ?? projectPath}${applied.length > 0 ? `\n已应用项目设置：${applied.join('，')}` : ''}`));
+  }
+
+  /**
+   * Resolves a user-supplied directory, following symlinks, and returns it
+   * only when it lies inside one of the allowed project roots.
+   */
+  private resolveProjectPath(input: string): string | null {
+    let resolved: string;
+    try {
+      resolved = realpathSync(resolve(expandHome(input)));
+      if (!statSync(resolved).isDirectory()) return null;
+    } catch {
+      return null;
+    }
+
+    const roots = this.config.projectRoots ?? [...this.config.projects.map(p => p.path), this.config.defaultProjectPath];
+    const allowed = roots.some((root) => {
+      let real: string;
+      try {
+        real = realpathSync(resolve(expandHome(root)));
+      } catch {
+        return false;
+      }
+      return resolved === real || resolved.startsWith(real.endsWith(sep) ? real : real + sep);
+    });
+    return allowed ? resolved : null;
+  }
+
+  /**
+   * Session settings a project imposes when it is picked. Values the project
+   * leaves unset keep those of `base`, or the global defaults without one.
+   */
+  getProjectDefaults(projectPath: string, base?: SessionState): Pick<SessionState, 'projectPath' | 'model' | 'queueMode'> {
+    const project = findProject(this.config.projects, projectPath);
+    return {
+      projectPath,
+      model: project?.model ?? (base ? base.model : this.config.defaultModel),
+      queueMode: project?.queueMode ?? base?.queueMode,
+    };
+  }
+
+  /** Replies with an error and returns false when the chat's project does not admit the sender. */
+  async checkProjectAccess(context: CommandContext): Promise<boolean> {
+    const { projectPath } = this.getSession(context.chatId, context.userId);
+    const project = findProject(this.config.projects, projectPath);
+    if (!project || canUseProject(project, context.userId, context.isAdmin)) {
+      return true;
+    }
+
+    await this.sendMessage(context.chatId, formatCommandError(`你没有使用项目 ${project.name} 的权限，请联系管理员或使用 /new 切换项目`));
+    return false;
+  }
+
+  private async handleModel(choice: string | undefined, sessionOnly: boolean, context: CommandContext): Promise<CommandResult> {
+    const session = this.getSession(context.chatId, context.userId);
+    const agent = this.getSessionAgent(session);
+
+    if (choice && sessionOnly && !session.sessionId) {
+      await this.sendMessage(context.chatId, formatCommandError('当前没有会话，去掉 --session 可设置默认模型'));
+      return { handled: true };
+    }
+
+    if (!choice) {
+      const models = await agent.listModels();
       let message = '**可用模型：**\n\n';
       
       const filtered = this.config.availableModels.length > 0
@@ -180,18 +536,18 @@ export class CommandHandler {
       return { handled: true };
     }
 
-    const models = await this.agent.listModels();
+    const models = await agent.listModels();
     const filtered = this.config.availableModels.length > 0
       ? models.filter(m => this.config.availableModels.some(am => am.id === m.id))
       : models;
 
     let selectedModel: typeof models[0] | undefined;
     
-    const index = parseInt(args[0]!, 10) - 1;
+    const index = parseInt(choice, 10) - 1;
     if (!isNaN(index) && index >= 0 && index < filtered.length) {
       selectedModel = filtered[index];
     } else {
-      selectedModel = filtered.find(m => m.id === args[0] || m.name === args[0]);
+      selectedModel = filtered.find(m => m.id === choice || m.name === choice);
     }
 
     if (!selectedModel) {
@@ -199,42 +555,305 @@ export class CommandHandler {
       return { handled: true };
     }
 
-    const session = this.getSession(context.chatId);
+    if (sessionOnly) {
+      await agent.switchModel(session.sessionId!, selectedModel.id);
+      await this.sendMessage(context.chatId, formatCommandSuccess(`当前会话已切换到模型: ${selectedModel.name}`));
+      return { handled: true };
+    }
+
     session.model = selectedModel.id;
+    this.saveSession(this.getSessionKey(context.chatId, context.userId), session);
 
     if (session.sessionId) {
-      await this.agent.switchModel(session.sessionId, selectedModel.id);
+      await agent.switchModel(session.sessionId, selectedModel.id);
     }
 
     await this.sendMessage(context.chatId, formatCommandSuccess(`已切换到模型: ${selectedModel.name}`));
     return { handled: true };
   }
 
+  private async handleMode(mode: QueueMode | undefined, context: CommandContext): Promise<CommandResult> {
+    const session = this.getSession(context.chatId, context.userId);
+
+    if (!mode) {
+      const current = session.queueMode ?? 'collect';
+      let message = `**当前模式：** \`${current}\`\n\n`;
+      for (const [mode, description] of Object.entries(QUEUE_MODE_DESCRIPTIONS)) {
+        message += `- \`${mode}\`: ${description}\n`;
+      }
+      message += '\n使用 `/mode <模式>` 切换';
+      await this.sendMessage(context.chatId, message);
+      return { handled: true };
+    }
+
+    session.queueMode = mode;
+    this.saveSession(this.getSessionKey(context.chatId, context.userId), session);
+    await this.sendMessage(context.chatId, formatCommandSuccess(`已切换到 ${mode} 模式：${QUEUE_MODE_DESCRIPTIONS[mode]}`));
+    return { handled: true };
+  }
+
+  private async handleSessionMode(keyType: SessionKeyType | undefined, context: CommandContext): Promise<CommandResult> {
+    if (!keyType) {
+      let message = `**当前会话模式：** \`${this.getKeyType(context.chatId)}\`\n\n`;
+      for (const [keyType, description] of Object.entries(KEY_TYPE_DESCRIPTIONS)) {
+        message += `- \`${keyType}\`: ${description}\n`;
+      }
+      message += '\n使用 `/session_mode <模式>` 切换';
+      await this.sendMessage(context.chatId, message);
+      return { handled: true };
+    }
+
+    const description = KEY_TYPE_DESCRIPTIONS[keyType];
+    if (context.chatType !== 'group') {
+      await this.sendMessage(context.chatId, formatCommandError('会话模式只能在群聊中设置'));
+      return { handled: true };
+    }
+
+    const chat = this.getSession(context.chatId);
+    chat.keyType = keyType === 'chat' ? undefined : keyType;
+    this.saveSession(context.chatId, chat);
+    await this.sendMessage(context.chatId, formatCommandSuccess(`已切换到 ${keyType} 模式：${description}`));
+    return { handled: true };
+  }
+
   private async handleClear(context: CommandContext): Promise<CommandResult> {
-    const session = this.getSession(context.chatId);
+    const session = this.getSession(context.chatId, context.userId);
     session.sessionId = undefined;
+    this.saveSession(this.getSessionKey(context.chatId, context.userId), session);
     await this.sendMessage(context.chatId, formatCommandSuccess('会话已清除，下次发消息将创建新会话'));
     return { handled: true };
   }
 
+  private async handleExit(context: CommandContext): Promise<CommandResult> {
+    const group = this.config.getSessionGroup?.(context.chatId);
+    if (!group || !this.config.deleteSessionGroup) {
+      await this.sendMessage(context.chatId, formatCommandError('当前不是会话群，无法退出'));
+      return { handled: true };
+    }
+
+    if (group.createdBy !== context.userId && !context.isAdmin) {
+      await this.sendMessage(context.chatId, formatCommandError('只有会话群创建者或管理员可以删除会话群'));
+      return { handled: true };
+    }
+
+    this.forgetChat(context.chatId);
+
+    await this.sendMessage(context.chatId, '👋 会话已结束，正在解散会话群...');
+    await this.config.deleteSessionGroup(context.chatId);
+    return { handled: true };
+  }
+
+  /** Forgets the chat-level session and every per-member session of a chat. */
+  private forgetChat(chatId: string): void {
+    for (const key of Array.from(this.sessions.keys())) {
+      if (key === chatId || key.startsWith(`${chatId}:`)) {
+        this.sessions.delete(key);
+      }
+    }
+
+    try {
+      this.config.onChatDeleted?.(chatId);
+    } catch (error) {
+      logger.error('Failed to delete chat sessions', { chatId, error });
+    }
+  }
+
+  private async handleNewSession(context: CommandContext): Promise<CommandResult> {
+    const session = this.getSession(context.chatId, context.userId);
+    const agent = this.getSessionAgent(session);
+
+    if (session.sessionId) {
+      await agent.suspendSession(session.sessionId).catch((error) => {
+        logger.warn('Failed to suspend previous session', { sessionId: session.sessionId, error });
+      });
+    }
+
+    const sessionId = await agent.createSession(session.projectPath, session.model);
+    this.setSessionId(context.chatId, sessionId, agent.id, context.userId);
+    await this.sendMessage(context.chatId, formatCommandSuccess(`已创建新会话: \`${sessionId}\`\n项目: \`${session.projectPath}\``));
+    return { handled: true };
+  }
+
   private async handleStatus(context: CommandContext): Promise<CommandResult> {
-    const session = this.getSession(context.chatId);
+    const session = this.getSession(context.chatId, context.userId);
     let message = '**当前状态：**\n\n';
     message += `项目: \`${session.projectPath}\`\n`;
     message += `模型: \`${session.model || '默认'}\`\n`;
+    message += `Agent: \`${session.agentId ?? this.agent.id}\`\n`;
+    message += `模式: \`${session.queueMode ?? 'collect'}\`\n`;
+    if (this.getKeyType(context.chatId) === 'user_chat') {
+      message += '会话模式: `user_chat`（以下为你的独立会话）\n';
+    }
     message += `会话: ${session.sessionId ? `\`${session.sessionId.slice(0, 20)}...\`` : '无'}\n`;
+
+    const usage = this.config.getContextUsage?.(session);
+    if (usage) {
+      message += usage.contextWindow
+        ? `上下文: ${formatTokens(usage.tokens)} / ${formatTokens(usage.contextWindow)} tokens（${usage.percent}%）\n`
+        : `上下文: ${formatTokens(usage.tokens)} tokens\n`;
+    }
+
+    const lineage = this.config.getSessionLineage?.(context.chatId);
+    if (lineage?.parentChatId) {
+      const path = [...lineage.ancestors.map(g => g.title ?? g.chatId), '当前'];
+      if (lineage.ancestors.length === 0) path.unshift(lineage.parentChatId);
+      message += `谱系: ${path.join(' → ')}\n`;
+    }
+    if (lineage && lineage.children.length > 0) {
+      message += `子会话: ${lineage.children.map(g => `\`${g.title ?? g.chatId}\``).join('、')}\n`;
+    }
+
     await this.sendMessage(context.chatId, message);
     return { handled: true };
   }
 
+  private async handleFork(title: string | undefined, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.forkSession) {
+      await this.sendMessage(context.chatId, formatCommandError('会话分叉不可用'));
+      return { handled: true };
+    }
+
+    const session = this.getSession(context.chatId, context.userId);
+    if (!session.sessionId) {
+      await this.sendMessage(context.chatId, formatCommandError('没有活动的会话'));
+      return { handled: true };
+    }
+
+    const result = await this.config.forkSession(context, session, title);
+    this.adoptSession(result, session);
+
+    await this.sendMessage(context.chatId, formatCommandSuccess(`已分叉到新会话群${title ? `「${title}」` : ''}，原会话不受影响`));
+    return { handled: true };
+  }
+
+  private async handleSearch(query: string, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.searchSessions) {
+      await this.sendMessage(context.chatId, formatCommandError('会话搜索不可用'));
+      return { handled: true };
+    }
+
+    const hits = this.config.searchSessions(context.userId, query);
+    await this.channel.sendCard(context.chatId, createSessionSearchCard(query, hits, context.userId));
+    return { handled: true };
+  }
+
+  /** Handles card buttons owned by commands; returns false for actions it does not know. */
+  async handleCardAction(value: unknown, context: CommandContext): Promise<boolean> {
+    const action = value as ({ action?: string; userId?: string; command?: string } & Partial<ReopenTarget>) | undefined;
+    if (action?.action === RUN_COMMAND_ACTION && action.command) {
+      // Suggestion buttons only run for the user whose typo produced them.
+      if (action.userId === context.userId) {
+        await this.handle(action.command, context);
+      }
+      return true;
+    }
+
+    if (action?.action !== SEARCH_REOPEN_ACTION || !action.sessionId || !action.projectPath) {
+      return false;
+    }
+
+    if (action.userId !== context.userId) {
+      logger.warn('Reopen from another user ignored', { sessionId: action.sessionId, operatorId: context.userId });
+      return true;
+    }
+    if (!this.config.reopenSession) {
+      await this.sendMessage(context.chatId, formatCommandError('重新打开会话不可用'));
+      return true;
+    }
+
+    try {
+      const target: ReopenTarget = {
+        sessionId: action.sessionId,
+        agentId: action.agentId,
+        projectPath: action.projectPath,
+        title: action.title,
+      };
+      const project = findProject(this.config.projects, target.projectPath);
+      if (project && !canUseProject(project, context.userId, context.isAdmin)) {
+        await this.sendMessage(context.chatId, formatCommandError(`你没有使用项目 ${project.name} 的权限`));
+        return true;
+      }
+
+      const result = await this.config.reopenSession(context, target);
+      this.adoptSession(result, this.getProjectDefaults(target.projectPath));
+      await this.sendMessage(context.chatId, formatCommandSuccess(`已在新会话群中重新打开${target.title ? `「${target.title}」` : '会话'}`));
+    } catch (error) {
+      logger.error('Failed to reopen session', { sessionId: action.sessionId, error });
+      await this.sendMessage(context.chatId, formatCommandError(`重新打开失败: ${error instanceof Error ? error.message : '未知错误'}`));
+    }
+    return true;
+  }
+
+  /** Seeds the chat state of a freshly created session group so its first message reuses the agent session. */
+  private adoptSession(result: SessionGroupResult, base: Pick<SessionState, 'projectPath' | 'model' | 'queueMode'>): void {
+    const session: SessionState = {
+      projectPath: base.projectPath,
+      model: base.model,
+      queueMode: base.queueMode,
+      sessionId: result.sessionId,
+      agentId: result.agentId,
+    };
+    this.sessions.set(result.chatId, session);
+    this.saveSession(result.chatId, session);
+  }
+
+  private async handleExport(format: ExportFormat, title: string | undefined, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.loadTranscript) {
+      await this.sendMessage(context.chatId, formatCommandError('会话导出不可用'));
+      return { handled: true };
+    }
+
+    const session = this.getSession(context.chatId, context.userId);
+    if (!session.sessionId) {
+      await this.sendMessage(context.chatId, formatCommandError('没有活动的会话'));
+      return { handled: true };
+    }
+
+    const transcript = await this.config.loadTranscript(session);
+    if (!transcript) {
+      await this.sendMessage(context.chatId, formatCommandError('获取会话记录失败'));
+      return { handled: true };
+    }
+
+    const data = buildSessionExport(title ? { ...transcript, title } : transcript);
+
+    if (format === 'doc') {
+      const result = await this.channel.getFeishuClient().createDocument({ title: data.title });
+      if (!result.success || !result.data) {
+        await this.sendMessage(context.chatId, formatCommandError(`创建文档失败: ${result.error ?? '未知错误'}`));
+        return { handled: true };
+      }
+
+      const writeResult = await this.channel.getFeishuClient().getDocumentWriter().writeContent(
+        result.data.documentId,
+        renderExportMarkdown(data)
+      );
+      if (!writeResult.success) {
+        await this.sendMessage(context.chatId, formatCommandError(`文档已创建，但写入失败: ${writeResult.error ?? '未知错误'}\n${result.data.url}`));
+        return { handled: true };
+      }
+
+      await this.sendMessage(context.chatId, formatCommandSuccess(`已导出 ${data.messages.length} 条消息到飞书文档: [${result.data.title}](${result.data.url})`));
+      return { handled: true };
+    }
+
+    const content = format === 'md' ? renderExportMarkdown(data, { expandDetails: true }) : renderExportJson(data);
+    const fileName = `${data.title.replace(/[\\/:*?"<>|\s]+/g, '_')}.${format}`;
+    const messageId = await this.channel.sendFile(context.chatId, fileName, Buffer.from(content, 'utf-8'));
+    if (!messageId) {
+      await this.sendMessage(context.chatId, formatCommandError('发送文件失败'));
+    }
+    return { handled: true };
+  }
+
   private async handleAbort(context: CommandContext): Promise<CommandResult> {
-    const session = this.getSession(context.chatId);
+    const session = this.getSession(context.chatId, context.userId);
     if (!session.sessionId) {
       await this.sendMessage(context.chatId, formatCommandError('没有活动的会话'));
       return { handled: true };
     }
 
-    const success = await this.agent.abort(session.sessionId);
+    const success = await this.getSessionAgent(session).abort(session.sessionId);
     if (success) {
       await this.sendMessage(context.chatId, formatCommandSuccess('已中止当前任务'));
     } else {
@@ -244,13 +863,27 @@ export class CommandHandler {
   }
 
   private async handleCompact(context: CommandContext): Promise<CommandResult> {
-    const session = this.getSession(context.chatId);
+    const session = this.getSession(context.chatId, context.userId);
     if (!session.sessionId) {
       await this.sendMessage(context.chatId, formatCommandError('没有活动的会话'));
       return { handled: true };
     }
 
-    const success = await this.agent.summarize(session.sessionId);
+    if (this.config.compactSession) {
+      await this.sendMessage(context.chatId, '🗜️ 正在压缩会话上下文...');
+      const result = await this.config.compactSession(context, session);
+      if (!result.success) {
+        await this.sendMessage(context.chatId, formatCommandError(`压缩失败${result.error ? `: ${result.error}` : ''}`));
+      } else if (result.beforeTokens !== undefined && result.afterTokens !== undefined) {
+        await this.sendMessage(context.chatId, formatCommandSuccess(
+          `上下文压缩完成：${formatTokens(result.beforeTokens)} → ${formatTokens(result.afterTokens)} tokens`));
+      } else {
+        await this.sendMessage(context.chatId, formatCommandSuccess('上下文压缩完成'));
+      }
+      return { handled: true };
+    }
+
+    const success = await this.getSessionAgent(session).summarize(session.sessionId);
     if (success) {
       await this.sendMessage(context.chatId, formatCommandSuccess('正在压缩会话上下文...'));
     } else {
@@ -259,14 +892,148 @@ export class CommandHandler {
     return { handled: true };
   }
 
-  private async handleWhitelistAdd(args: string[], context: CommandContext): Promise<CommandResult> {
-    if (args.length === 0) {
-      await this.sendMessage(context.chatId, formatCommandError('请提供用户 ID'));
+  private async handleRoute(text: string, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.explainRoute) {
+      await this.sendMessage(context.chatId, formatCommandError('路由解释不可用'));
       return { handled: true };
     }
 
-    const userId = args[0]!;
-    
+    const explanation = this.config.explainRoute(context, text);
+    await this.channel.sendCard(context.chatId, createRouteExplanationCard(explanation));
+    return { handled: true };
+  }
+
+  private async handleQueue(context: CommandContext): Promise<CommandResult> {
+    if (!this.config.getQueueSnapshot) {
+      await this.sendMessage(context.chatId, formatCommandError('队列状态不可用'));
+      return { handled: true };
+    }
+
+    const lanes = this.config.getQueueSnapshot();
+    if (lanes.length === 0) {
+      await this.sendMessage(context.chatId, '**队列为空**');
+      return { handled: true };
+    }
+
+    const byUser = new Map<string, LaneSnapshot[]>();
+    for (const lane of lanes) {
+      const userId = lane.userId ?? '未知用户';
+      byUser.set(userId, [...(byUser.get(userId) ?? []), lane]);
+    }
+
+    const active = lanes.filter(l => l.processing).length;
+    const pending = lanes.reduce((sum, l) => sum + l.pending, 0);
+    let message = `**队列状态：** 运行中 ${active} 个会话，排队 ${pending} 条消息\n`;
+
+    const now = Date.now();
+    for (const [userId, userLanes] of byUser) {
+      const userActive = userLanes.filter(l => l.processing).length;
+      const userPending = userLanes.reduce((sum, l) => sum + l.pending, 0);
+      message += `\n**\`${userId}\`** 运行 ${userActive}，排队 ${userPending}\n`;
+      for (const lane of userLanes) {
+        const state = lane.processing ? '🟢 运行中' : '⏳ 等待中';
+        const waiting = lane.pending > 0 && lane.waitingSince !== undefined
+          ? `，排队 ${lane.pending} 条（已等待 ${Math.round((now - lane.waitingSince) / 1000)} 秒）`
+          : '';
+        message += `- \`${lane.sessionKey}\` ${state}${waiting}\n`;
+      }
+    }
+
+    await this.sendMessage(context.chatId, message);
+    return { handled: true };
+  }
+
+  private async handleIdle({ subcommands, args }: CommandInvocation, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.listIdleStatus || !this.config.setIdlePolicy) {
+      await this.sendMessage(context.chatId, formatCommandError('空闲策略不可用'));
+      return { handled: true };
+    }
+
+    const statuses = this.config.listIdleStatus();
+    const action = subcommands[0];
+
+    if (action === 'list') {
+      if (statuses.length === 0) {
+        await this.sendMessage(context.chatId, '**没有会话群**');
+        return { handled: true };
+      }
+      const message = '**会话群空闲状态：**\n\n' + statuses.map(s => `- ${formatIdleStatus(s)}`).join('\n');
+      await this.sendMessage(context.chatId, message);
+      return { handled: true };
+    }
+
+    const current = statuses.find(s => s.chatId === context.chatId);
+    if (!current) {
+      await this.sendMessage(context.chatId, formatCommandError('当前聊天不是会话群，使用 `/idle list` 查看全部'));
+      return { handled: true };
+    }
+
+    if (!action) {
+      await this.sendMessage(context.chatId, `**空闲策略：** ${formatIdleStatus(current)}`);
+      return { handled: true };
+    }
+
+    let policy: SessionIdlePolicy | undefined;
+    switch (action) {
+      case 'keep':
+        policy = { keep: true };
+        break;
+      case 'archive': {
+        const days = args.days as number;
+        if (days <= 0) {
+          await this.sendMessage(context.chatId, formatCommandError('请提供大于 0 的天数'));
+          return { handled: true };
+        }
+        policy = { archiveAfterMs: days * DAY_MS, disbandOnArchive: current.disbandOnArchive };
+        break;
+      }
+      case 'disband':
+        policy = { archiveAfterMs: current.archiveAfterMs, disbandOnArchive: args.state === 'on' };
+        break;
+      case 'reset':
+        policy = undefined;
+        break;
+    }
+
+    this.config.setIdlePolicy(context.chatId, policy);
+    const updated = this.config.listIdleStatus().find(s => s.chatId === context.chatId) ?? current;
+    await this.sendMessage(context.chatId, formatCommandSuccess(`空闲策略已更新：${formatIdleStatus(updated)}`));
+    return { handled: true };
+  }
+
+  private async handlePlugin({ subcommands, args }: CommandInvocation, context: CommandContext): Promise<CommandResult> {
+    if (!this.config.listPlugins || !this.config.setPluginEnabled) {
+      await this.sendMessage(context.chatId, formatCommandError('插件管理不可用'));
+      return { handled: true };
+    }
+
+    const plugins = this.config.listPlugins();
+    const action = subcommands[0];
+
+    if (action !== 'enable' && action !== 'disable') {
+      const message = plugins.length === 0
+        ? '**没有已发现的插件**'
+        : '**插件列表：**\n\n' + plugins.map(p => `- \`${p.name}\` v${p.version} ${p.loaded ? '已启用' : '未启用'}`).join('\n');
+      await this.sendMessage(context.chatId, message);
+      return { handled: true };
+    }
+
+    const name = args.name as string;
+    const plugin = plugins.find(p => p.name === name);
+    if (!plugin) {
+      await this.sendMessage(context.chatId, formatCommandError(`未找到插件: ${name}，使用 \`/plugin list\` 查看全部`));
+      return { handled: true };
+    }
+
+    const enable = action === 'enable';
+    if (plugin.loaded !== enable) {
+      await this.config.setPluginEnabled(name, enable);
+    }
+    await this.sendMessage(context.chatId, formatCommandSuccess(`插件 ${name} 已${enable ? '启用' : '停用'}`));
+    return { handled: true };
+  }
+
+  private async handleWhitelistAdd(userId: string, context: CommandContext): Promise<CommandResult> {
     if (this.whitelist.has(userId)) {
       await this.sendMessage(context.chatId, formatCommandError(`用户 ${userId} 已在白名单中`));
       return { handled: true };
@@ -279,14 +1046,7 @@ export class CommandHandler {
     return { handled: true };
   }
 
-  private async handleWhitelistRemove(args: string[], context: CommandContext): Promise<CommandResult> {
-    if (args.length === 0) {
-      await this.sendMessage(context.chatId, formatCommandError('请提供用户 ID'));
-      return { handled: true };
-    }
-
-    const userId = args[0]!;
-    
+  private async handleWhitelistRemove(userId: string, context: CommandContext): Promise<CommandResult> {
     if (!this.whitelist.has(userId)) {
       await this.sendMessage(context.chatId, formatCommandError(`用户 ${userId} 不在白名单中`));
       return { handled: true };
@@ -325,6 +1085,67 @@ export class CommandHandler {
     return new Set(this.whitelist);
   }
 
+  private async handleDocRead(url: string, context: CommandContext): Promise<CommandResult> {
+    const result = await this.channel.getFeishuClient().readDocument(url);
+    if (!result.success || !result.data) {
+      await this.sendMessage(context.chatId, formatCommandError(`读取文档失败: ${result.error ?? '未知错误'}`));
+      return { handled: true };
+    }
+
+    const doc = result.data;
+    const title = doc.title || doc.documentId;
+    const truncated = doc.content.length > MAX_DOC_CONTEXT_CHARS;
+    const content = truncated ? doc.content.slice(0, MAX_DOC_CONTEXT_CHARS) : doc.content;
+
+    const injected = await this.injectContext(context,
+      `以下是飞书文档《${title}》的内容${truncated ? `（已截断为前 ${MAX_DOC_CONTEXT_CHARS} 个字符）` : ''}，请在后续对话中参考：\n\n${content}`);
+    if (!injected) return { handled: true };
+
+    await this.sendMessage(context.chatId, formatCommandSuccess(
+      `已读取文档《${title}》（${doc.content.length} 字符）并加入会话上下文${truncated ? '，内容过长已截断' : ''}`));
+    return { handled: true };
+  }
+
+  private async handleDocCreate(title: string, content: string, context: CommandContext): Promise<CommandResult> {
+    const result = await this.channel.getFeishuClient().createDocument({ title, content: content || undefined });
+    if (!result.success || !result.data) {
+      await this.sendMessage(context.chatId, formatCommandError(`创建文档失败: ${result.error ?? '未知错误'}`));
+      return { handled: true };
+    }
+
+    const doc = result.data;
+    const injected = await this.injectContext(context, [
+      `已创建飞书文档《${doc.title}》，文档 ID: ${doc.documentId}，链接: ${doc.url}`,
+      content && `文档初始内容：\n\n${content}`,
+    ].filter(Boolean).join('\n\n'));
+
+    await this.sendMessage(context.chatId, formatCommandSuccess(
+      `已创建文档: [${doc.title}](${doc.url})${injected ? '\n文档信息已加入会话上下文' : ''}`));
+    return { handled: true };
+  }
+
+  /**
+   * Writes text into the chat's session history without asking for a reply,
+   * creating the session first when the chat has none yet.
+   */
+  private async injectContext(context: CommandContext, text: string): Promise<boolean> {
+    const session = this.getSession(context.chatId, context.userId);
+    const agent = this.getSessionAgent(session);
+    if (!agent.injectContext) {
+      await this.sendMessage(context.chatId, formatCommandError(`Agent ${agent.id} 不支持注入上下文`));
+      return false;
+    }
+
+    let sessionId = session.sessionId;
+    if (!sessionId) {
+      sessionId = await agent.createSession(session.projectPath, session.model);
+      this.setSessionId(context.chatId, sessionId, agent.id, context.userId);
+    }
+
+    await agent.injectContext(sessionId, text);
+    return true;
+  }
+
   private async sendMessage(chatId: string, text: string): Promise<void> {
     await this.channel.sendTextMessage(chatId, text);
   }
@@ -332,7 +1153,7 @@ export class CommandHandler {
 
 export function createCommandHandler(
   channel: FeishuChannel,
-  agent: OpencodeAgent,
+  agent: IAgentRuntime,
   config: CommandHandlerConfig
 ): CommandHandler {
   return new CommandHandler(channel, agent, config);
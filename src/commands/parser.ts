@@ -3,110 +3,241 @@
  * 定义和解析机器人命令
  */
 
-export interface Command {
+export interface CommandArg {
+  /** 参数键名，处理函数通过它取值 */
+  name: string;
+  /** 用法中显示的名称 */
+  label: string;
+  /** 取值类型，默认 string */
+  type?: 'string' | 'number';
+  required?: boolean;
+  /** 可选值（不区分大小写，解析后统一为小写） */
+  choices?: readonly string[];
+  /** 吞掉剩余的位置参数并以空格拼接，只能是最后一个参数 */
+  rest?: boolean;
+}
+
+export interface CommandOption {
   name: string;
   description: string;
-  usage: string;
+  /** 取值类型；不设置时为开关（--flag） */
+  type?: 'string' | 'number';
+  /** 用法中显示的取值名称 */
+  label?: string;
+}
+
+export interface Subcommand {
+  name: string;
+  description: string;
+  args?: CommandArg[];
+  options?: CommandOption[];
+  subcommands?: Subcommand[];
+}
+
+export interface Command extends Subcommand {
   adminOnly: boolean;
+  /** 提供该命令的插件名；内置命令不设置 */
+  source?: string;
 }
 
 export interface ParsedCommand {
   command: string;
+  /** 第一行中命令名之后的参数（已去除引号和转义） */
   args: string[];
+  /** 命令名之后的原始文本 */
   rawArgs: string;
+  /** 第一行之后的文本，供需要正文的命令使用 */
+  body: string;
+  /** 引号未闭合等词法错误 */
+  error?: string;
 }
 
+export type ArgValue = string | number;
+
+export interface CommandInvocation {
+  command: Command;
+  /** 依次命中的子命令名 */
+  subcommands: string[];
+  args: Record<string, ArgValue | undefined>;
+  options: Record<string, ArgValue | boolean | undefined>;
+}
+
+export type ResolveResult =
+  | { success: true; invocation: CommandInvocation }
+  | { success: false; error: string; usage: string };
+
 const COMMAND_PREFIX = '/';
 
+const QUOTE_PAIRS: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '“': '”',
+  '‘': '’',
+};
+
 export const COMMANDS: Record<string, Command> = {
   new: {
     name: 'new',
     description: '创建新会话（从预配置项目中选择）',
-    usage: '/new <项目编号>',
+    args: [{ name: 'index', label: '项目编号', type: 'number' }],
     adminOnly: false,
   },
   model: {
     name: 'model',
     description: '切换 AI 模型',
-    usage: '/model <编号或模型ID>',
+    args: [{ name: 'model', label: '编号或模型ID' }],
+    options: [{ name: 'session', description: '只切换当前会话，不改变之后新会话使用的默认模型' }],
+    adminOnly: false,
+  },
+  mode: {
+    name: 'mode',
+    description: '设置新消息在任务运行中的处理方式',
+    args: [{ name: 'mode', label: '模式', choices: ['collect', 'steer', 'followup'] }],
+    adminOnly: false,
+  },
+  session_mode: {
+    name: 'session_mode',
+    description: '设置群内成员共享会话还是各自独立会话',
+    args: [{ name: 'mode', label: '模式', choices: ['chat', 'user_chat'] }],
     adminOnly: false,
   },
   compact: {
     name: 'compact',
     description: '压缩当前会话上下文',
-    usage: '/compact',
     adminOnly: false,
   },
   clear: {
     name: 'clear',
     description: '清除历史，创建新会话',
-    usage: '/clear',
+    adminOnly: false,
+  },
+  fork: {
+    name: 'fork',
+    description: '从当前会话分叉出新的会话群，继承已有上下文',
+    args: [{ name: 'title', label: '标题', rest: true }],
+    adminOnly: false,
+  },
+  export: {
+    name: 'export',
+    description: '导出当前会话到飞书文档或 Markdown/JSON 文件',
+    args: [{ name: 'format', label: '格式', choices: ['doc', 'md', 'json'] }],
+    options: [{ name: 'title', description: '导出的标题，默认使用会话标题', type: 'string', label: '标题' }],
+    adminOnly: false,
+  },
+  search: {
+    name: 'search',
+    description: '搜索历史会话的标题、提问和回复',
+    args: [{ name: 'query', label: '关键词', required: true, rest: true }],
     adminOnly: false,
   },
   exit: {
     name: 'exit',
     description: '退出并删除当前会话群',
-    usage: '/exit',
     adminOnly: false,
   },
   switch_project: {
     name: 'switch_project',
     description: '切换到不同的项目目录',
-    usage: '/switch_project <路径>',
+    args: [{ name: 'path', label: '路径', required: true, rest: true }],
     adminOnly: false,
   },
   new_session: {
     name: 'new_session',
     description: '创建新的 OpenCode 会话',
-    usage: '/new_session',
     adminOnly: false,
   },
   help: {
     name: 'help',
-    description: '显示可用命令',
-    usage: '/help',
+    description: '显示可用命令，或某个命令的详细用法',
+    args: [{ name: 'command', label: '命令' }],
     adminOnly: false,
   },
   abort: {
     name: 'abort',
     description: '中止当前运行的任务',
-    usage: '/abort',
     adminOnly: false,
   },
   status: {
     name: 'status',
     description: '显示当前会话状态',
-    usage: '/status',
     adminOnly: false,
   },
+  route: {
+    name: 'route',
+    description: '解释当前会话的路由决策',
+    args: [{ name: 'text', label: '消息文本', rest: true }],
+    adminOnly: true,
+  },
+  queue: {
+    name: 'queue',
+    description: '按用户查看运行中和排队中的会话',
+    adminOnly: true,
+  },
+  idle: {
+    name: 'idle',
+    description: '查看或覆盖会话群的空闲归档策略',
+    subcommands: [
+      { name: 'list', description: '列出所有会话群的空闲状态' },
+      { name: 'keep', description: '当前会话群永不归档' },
+      {
+        name: 'archive',
+        description: '空闲指定天数后归档当前会话群',
+        args: [{ name: 'days', label: '天数', type: 'number', required: true }],
+      },
+      {
+        name: 'disband',
+        description: '归档时是否解散群聊',
+        args: [{ name: 'state', label: '开关', choices: ['on', 'off'], required: true }],
+      },
+      { name: 'reset', description: '恢复全局空闲策略' },
+    ],
+    adminOnly: true,
+  },
+  plugin: {
+    name: 'plugin',
+    description: '查看、启用或停用插件',
+    subcommands: [
+      { name: 'list', description: '列出已发现的插件及其状态' },
+      {
+        name: 'enable',
+        description: '启用插件',
+        args: [{ name: 'name', label: '插件名', required: true }],
+      },
+      {
+        name: 'disable',
+        description: '停用插件',
+        args: [{ name: 'name', label: '插件名', required: true }],
+      },
+    ],
+    adminOnly: true,
+  },
   whitelist_add: {
     name: 'whitelist_add',
     description: '将用户添加到白名单',
-    usage: '/whitelist_add <用户ID>',
+    args: [{ name: 'userId', label: '用户ID', required: true }],
     adminOnly: true,
   },
   whitelist_remove: {
     name: 'whitelist_remove',
     description: '从白名单移除用户',
-    usage: '/whitelist_remove <用户ID>',
+    args: [{ name: 'userId', label: '用户ID', required: true }],
     adminOnly: true,
   },
   whitelist_list: {
     name: 'whitelist_list',
     description: '列出所有白名单用户',
-    usage: '/whitelist_list',
     adminOnly: true,
   },
   doc_read: {
     name: 'doc_read',
     description: '读取飞书文档内容',
-    usage: '/doc_read <文档URL或token>',
+    args: [{ name: 'url', label: '文档URL或token', required: true }],
     adminOnly: false,
   },
   doc_create: {
     name: 'doc_create',
-    description: '创建新的飞书文档',
-    usage: '/doc_create <标题>',
+    description: '创建新的飞书文档，换行后可附 Markdown 正文',
+    args: [{ name: 'title', label: '标题', required: true, rest: true }],
     adminOnly: false,
   },
 };
@@ -123,22 +254,178 @@ export function parseCommand(text: string): ParsedCommand | null {
   }
 
   const withoutPrefix = trimmed.slice(COMMAND_PREFIX.length);
-  const parts = withoutPrefix.split(/\s+/);
-  const command = parts[0]?.toLowerCase() ?? '';
-  const args = parts.slice(1);
+  const command = withoutPrefix.split(/\s+/)[0]?.toLowerCase() ?? '';
   const rawArgs = withoutPrefix.slice(command.length).trim();
 
   if (!command) {
     return null;
   }
 
+  const { tokens, end, error } = tokenize(rawArgs);
   return {
     command,
-    args,
+    args: tokens,
     rawArgs,
+    body: rawArgs.slice(end).trim(),
+    error,
   };
 }
 
+/**
+ * 按 shell 的习惯切分参数：支持单双引号（含中文引号）和反斜杠转义，
+ * 遇到引号外的换行即停止，其后的内容由调用方作为正文处理
+ */
+export function tokenize(input: string): { tokens: string[]; end: number; error?: string } {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let closing: string | undefined;
+  let i = 0;
+
+  for (; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (closing) {
+      if (char === closing) {
+        closing = undefined;
+      } else if (char === '\\' && closing === '"' && (input[i + 1] === '"' || input[i + 1] === '\\')) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '\n') break;
+
+    if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else if (char === '\\' && i + 1 < input.length && input[i + 1] !== '\n') {
+      current += input[++i];
+      inToken = true;
+    } else if (QUOTE_PAIRS[char] && (!inToken || /^--[^=]+=$/.test(current))) {
+      // 引号只在词首（或选项取值开头）生效，don't 这类单词保持原样
+      closing = QUOTE_PAIRS[char];
+      inToken = true;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (inToken) tokens.push(current);
+  return { tokens, end: i, error: closing ? `引号未闭合，缺少 ${closing}` : undefined };
+}
+
+/**
+ * 按命令声明匹配子命令、选项和参数，并转换参数类型；
+ * 出错时返回错误说明和对应层级的用法
+ */
+export function resolveCommand(command: Command, tokens: string[]): ResolveResult {
+  const path: Subcommand[] = [command];
+  let remaining = tokens;
+
+  for (;;) {
+    const node = path[path.length - 1]!;
+    const next = remaining[0]?.toLowerCase();
+    const sub = node.subcommands?.find(s => s.name === next);
+    if (!sub) break;
+    path.push(sub);
+    remaining = remaining.slice(1);
+  }
+
+  const node = path[path.length - 1]!;
+  const names = path.slice(1).map(s => s.name);
+  const usage = formatUsage(command, names);
+  const fail = (error: string): ResolveResult => ({ success: false, error, usage });
+
+  const declared = path.flatMap(s => s.options ?? []);
+  const options: CommandInvocation['options'] = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < remaining.length; i++) {
+    const token = remaining[i]!;
+    if (token === '--' && declared.length > 0) {
+      positional.push(...remaining.slice(i + 1));
+      break;
+    }
+    if (!token.startsWith('--') || token.length === 2 || declared.length === 0) {
+      positional.push(token);
+      continue;
+    }
+
+    const eq = token.indexOf('=');
+    const name = token.slice(2, eq === -1 ? undefined : eq);
+    const option = declared.find(o => o.name === name);
+    if (!option) {
+      return fail(`未知选项 --${name}`);
+    }
+
+    if (!option.type) {
+      if (eq !== -1) return fail(`选项 --${name} 不接受取值`);
+      options[name] = true;
+      continue;
+    }
+
+    const raw = eq !== -1 ? token.slice(eq + 1) : remaining[++i];
+    if (raw === undefined) {
+      return fail(`选项 --${name} 需要取值`);
+    }
+    const value = convertValue(raw, option.type);
+    if (value === undefined) {
+      return fail(`选项 --${name} 需要是数字`);
+    }
+    options[name] = value;
+  }
+
+  if (node.subcommands && !node.args && positional.length > 0) {
+    return fail(`未知子命令: ${positional[0]}`);
+  }
+
+  const args: CommandInvocation['args'] = {};
+  const declaredArgs = node.args ?? [];
+  let index = 0;
+  for (const arg of declaredArgs) {
+    const raw = arg.rest
+      ? (index < positional.length ? positional.slice(index).join(' ') : undefined)
+      : positional[index];
+    index = arg.rest ? positional.length : index + 1;
+
+    if (raw === undefined || raw === '') {
+      if (arg.required) return fail(`缺少参数 <${arg.label}>`);
+      continue;
+    }
+
+    let value: ArgValue | undefined = raw;
+    if (arg.choices) {
+      value = arg.choices.find(c => c === raw.toLowerCase());
+      if (value === undefined) {
+        return fail(`参数 <${arg.label}> 只能是 ${arg.choices.join('|')}，收到: ${raw}`);
+      }
+    } else {
+      value = convertValue(raw, arg.type ?? 'string');
+      if (value === undefined) {
+        return fail(`参数 <${arg.label}> 需要是数字，收到: ${raw}`);
+      }
+    }
+    args[arg.name] = value;
+  }
+
+  if (index < positional.length) {
+    return fail(`多余的参数: ${positional.slice(index).join(' ')}`);
+  }
+
+  return { success: true, invocation: { command, subcommands: names, args, options } };
+}
+
+function convertValue(raw: string, type: 'string' | 'number'): ArgValue | undefined {
+  if (type === 'string') return raw;
+  const value = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(value) ? value : undefined;
+}
+
 export function getCommand(name: string): Command | null {
   return COMMANDS[name] ?? null;
 }
@@ -147,22 +434,80 @@ export function getAvailableCommands(isAdmin: boolean): Command[] {
   return Object.values(COMMANDS).filter(cmd => !cmd.adminOnly || isAdmin);
 }
 
-export function formatHelpMessage(isAdmin: boolean): string {
-  const commands = getAvailableCommands(isAdmin);
-  
+/** 根据命令声明生成用法，如 `/idle archive <天数>` */
+export function formatUsage(command: Command, subcommands: string[] = []): string {
+  const path: Subcommand[] = [command];
+  for (const name of subcommands) {
+    const sub = path[path.length - 1]!.subcommands?.find(s => s.name === name);
+    if (!sub) break;
+    path.push(sub);
+  }
+
+  const node = path[path.length - 1]!;
+  const parts = [COMMAND_PREFIX + path.map(s => s.name).join(' ')];
+  if (node.subcommands) {
+    parts.push(`[${node.subcommands.map(s => s.name).join('|')}]`);
+  }
+  for (const arg of node.args ?? []) {
+    const label = arg.choices ? arg.choices.join('|') : arg.label + (arg.rest ? '...' : '');
+    parts.push(arg.required ? `<${label}>` : `[${label}]`);
+  }
+  for (const option of path.flatMap(s => s.options ?? [])) {
+    parts.push(option.type ? `[--${option.name}=<${option.label ?? option.name}>]` : `[--${option.name}]`);
+  }
+  return parts.join(' ');
+}
+
+export function formatHelpMessage(isAdmin: boolean, commands: Command[] = getAvailableCommands(isAdmin)): string {
   let message = '**可用命令：**\n\n';
   
   for (const cmd of commands) {
-    message += `\`${cmd.usage}\`\n${cmd.description}\n\n`;
+    message += `\`${formatUsage(cmd)}\`\n${cmd.description}${cmd.source ? `（插件 ${cmd.source}）` : ''}\n`;
+    for (const sub of cmd.subcommands ?? []) {
+      message += `  · \`${formatUsage(cmd, [sub.name])}\` ${sub.description}\n`;
+    }
+    message += '\n';
   }
 
+  message += '使用 `/help <命令>` 查看某个命令的详细用法';
   return message;
 }
 
+/** `/help <命令>` 的详细说明：参数、选项和各级子命令 */
+export function formatCommandHelp(command: Command): string {
+  let message = `**/${command.name}**${command.adminOnly ? '（仅管理员）' : ''}\n${command.description}\n\n`;
+  if (command.source) {
+    message += `来源: 插件 ${command.source}\n`;
+  }
+  message += `用法: \`${formatUsage(command)}\`\n`;
+
+  const describe = (node: Subcommand, names: string[], indent: string) => {
+    for (const arg of node.args ?? []) {
+      const type = arg.choices ? arg.choices.join('|') : arg.type === 'number' ? '数字' : '文本';
+      message += `${indent}- \`<${arg.label}>\` ${type}${arg.required ? '，必填' : '，可选'}\n`;
+    }
+    for (const option of node.options ?? []) {
+      message += `${indent}- \`--${option.name}${option.type ? `=<${option.label ?? option.name}>` : ''}\` ${option.description}\n`;
+    }
+    for (const sub of node.subcommands ?? []) {
+      const subNames = [...names, sub.name];
+      message += `${indent}- \`${formatUsage(command, subNames)}\` ${sub.description}\n`;
+      describe(sub, subNames, indent + '  ');
+    }
+  };
+  describe(command, [], '');
+
+  return message.trimEnd();
+}
+
 export function formatCommandError(message: string): string {
   return `**命令错误：** ${message}`;
 }
 
+export function formatUsageError(error: string, usage: string): string {
+  return `${formatCommandError(error)}\n用法: \`${usage}\``;
+}
+
 export function formatCommandSuccess(message: string): string {
   return `**成功：** ${message}`;
 }
@@ -0,0 +1,85 @@
+import type { CommandHandler as PluginCommandHandler, RegisteredCommand } from '../types/plugin';
+import type { Command } from './parser';
+import { COMMANDS } from './parser';
+import { suggestCommands } from './suggest';
+import { logger } from '../utils/logger';
+
+/** Where plugin-registered commands are looked up, normally the PluginManager. */
+export interface PluginCommandSource {
+  getCommand(name: string): RegisteredCommand | undefined;
+  listCommands(): string[];
+}
+
+export interface CommandEntry extends Command {
+  /** Set for plugin commands; built-in commands are dispatched by CommandHandler. */
+  run?: PluginCommandHandler;
+}
+
+/**
+ * Single view over built-in and plugin commands plus the aliases from
+ * config.toml. Plugin commands are read on every lookup so ones registered or
+ * unloaded at runtime show up immediately.
+ */
+export class CommandRegistry {
+  private plugins?: PluginCommandSource;
+  private aliases = new Map<string, string>();
+
+  constructor(plugins?: PluginCommandSource, aliases: Record<string, string> = {}) {
+    this.plugins = plugins;
+    for (const [name, expansion] of Object.entries(aliases)) {
+      if (this.isBuiltin(name)) {
+        logger.warn('Alias shadows a built-in command and is ignored', { alias: name });
+        continue;
+      }
+      this.aliases.set(name, expansion);
+    }
+  }
+
+  get(name: string): CommandEntry | undefined {
+    if (this.isBuiltin(name)) return COMMANDS[name];
+
+    const registered = this.plugins?.getCommand(name);
+    return registered && toEntry(name, registered);
+  }
+
+  /** Expansion of an alias, unless a command of the same name exists. */
+  getAlias(name: string): string | undefined {
+    if (!this.aliases.has(name) || this.get(name)) return undefined;
+    return this.aliases.get(name);
+  }
+
+  listAliases(): Array<[name: string, expansion: string]> {
+    return [...this.aliases.entries()].filter(([name]) => !this.get(name));
+  }
+
+  /** Command and alias names the user can run that look like `name`. */
+  suggest(name: string, isAdmin: boolean): string[] {
+    const names = [...this.list(isAdmin).map(cmd => cmd.name), ...this.listAliases().map(([alias]) => alias)];
+    return suggestCommands(name, names);
+  }
+
+  isBuiltin(name: string): boolean {
+    return Object.hasOwn(COMMANDS, name);
+  }
+
+  list(isAdmin: boolean): CommandEntry[] {
+    const plugins = (this.plugins?.listCommands() ?? [])
+      .map(name => this.get(name))
+      .filter((entry): entry is CommandEntry => entry?.source !== undefined);
+    return [...Object.values(COMMANDS), ...plugins].filter(cmd => !cmd.adminOnly || isAdmin);
+  }
+}
+
+function toEntry(name: string, registered: RegisteredCommand): CommandEntry {
+  return {
+    name,
+    description: registered.description ?? '插件命令',
+    adminOnly: registered.adminOnly ?? false,
+    source: registered.source,
+    run: registered.handler,
+  };
+}
+
+export function createCommandRegistry(plugins?: PluginCommandSource, aliases?: Record<string, string>): CommandRegistry {
+  return new CommandRegistry(plugins, aliases);
+}
@@ -0,0 +1,41 @@
+/**
+ * Edit distance where swapping two neighbouring letters counts as one edit,
+ * so typos like `modle` and `stauts` stay close to `model` and `status`.
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i]![j] = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+      }
+    }
+  }
+
+  return d[a.length]![b.length]!;
+}
+
+/**
+ * Picks the names closest to an unknown command: small edit distances (scaled
+ * with the input length) and names the input is a prefix of.
+ */
+export function suggestCommands(input: string, names: string[], limit = 3): string[] {
+  const maxDistance = Math.max(1, Math.floor(input.length / 3));
+
+  return names
+    .map((name) => ({
+      name,
+      distance: name.startsWith(input) && input.length >= 2 ? 0.5 : editDistance(input, name),
+    }))
+    .filter(candidate => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance
+      || Math.abs(a.name.length - input.length) - Math.abs(b.name.length - input.length)
+      || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(candidate => candidate.name);
+}
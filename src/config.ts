@@ -1,15 +1,33 @@
 import { z } from 'zod';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { join, isAbsolute } from 'node:path';
 import { existsSync, readFileSync } from 'node:fs';
 import { parse as parseToml } from 'smol-toml';
+import type { AgentConfig } from './types/agent';
+import type { Binding } from './types/binding';
+import type { QueueMode } from './queue/lane-queue';
+import { logger } from './utils/logger';
 
 export const CONFIG_DIR = join(homedir(), '.config', 'opencode-bot');
 export const CONFIG_FILE = join(CONFIG_DIR, 'config.toml');
+export const DEFAULT_DATABASE_PATH = join(CONFIG_DIR, 'bot.db');
 
 export interface ProjectConfig {
   path: string;
   name: string;
+  timeoutMs?: number;
+  /** 每轮对话附加给 Agent 的系统提示 */
+  systemPrompt?: string;
+  /** 指令文件路径（相对路径基于项目目录），内容追加在系统提示之后 */
+  instructionsFile?: string;
+  /** 选择该项目时使用的默认模型 */
+  model?: string;
+  /** 选择该项目时使用的默认 Agent，仅在没有路由规则命中时生效 */
+  agent?: string;
+  /** 选择该项目时使用的队列模式 */
+  queueMode?: QueueMode;
+  /** 允许使用该项目的用户，为空则不限制（管理员始终可用） */
+  allowedUsers?: string[];
 }
 
 export interface ModelConfig {
@@ -30,20 +48,35 @@ interface TomlAgentConfig {
   options?: Record<string, unknown>;
 }
 
+interface TomlBindingMatch {
+  channel_id?: string | string[];
+  channel_type?: string | string[];
+  chat_type?: 'private' | 'group' | '*';
+  chat_id?: string | string[];
+  user_id?: string | string[];
+  message_pattern?: string;
+  message_type?: string | string[];
+  mentioned_bot?: boolean;
+  is_session_group?: boolean;
+  time_window?: {
+    start?: string;
+    end?: string;
+    weekdays?: number[];
+    timezone?: string;
+  };
+  not?: TomlBindingMatch;
+  any?: TomlBindingMatch[];
+}
+
 interface TomlBindingConfig {
   id: string;
   name?: string;
   agent_id: string;
+  fallback_agents?: string[];
+  timeout_ms?: number;
   priority?: number;
   enabled?: boolean;
-  match?: {
-    channel_id?: string | string[];
-    channel_type?: string | string[];
-    chat_type?: 'private' | 'group' | '*';
-    chat_id?: string | string[];
-    user_id?: string | string[];
-    message_pattern?: string;
-  };
+  match?: TomlBindingMatch;
 }
 
 interface TomlMcpClientConfig {
@@ -87,6 +120,7 @@ interface TomlConfig {
   admin?: {
     user_ids?: string[];
     allow_all_users?: boolean;
+    project_roots?: string[];
   };
   database?: {
     path?: string;
@@ -97,6 +131,13 @@ interface TomlConfig {
   projects?: Array<{
     path: string;
     name?: string;
+    timeout_ms?: number;
+    system_prompt?: string;
+    instructions_file?: string;
+    model?: string;
+    agent?: string;
+    queue_mode?: QueueMode;
+    allowed_users?: string[];
   }>;
   models?: {
     default?: string;
@@ -108,11 +149,32 @@ interface TomlConfig {
   agents?: TomlAgentConfig[];
   bindings?: {
     default_agent?: string;
+    default_fallback_agents?: string[];
     rules?: TomlBindingConfig[];
   };
+  session?: {
+    idle_timeout_minutes?: number;
+    archive_after_days?: number;
+    disband_on_archive?: boolean;
+    auto_compact?: boolean;
+    compact_at_percent?: number;
+    memory_flush?: boolean;
+  };
+  queue?: {
+    max_concurrency?: number;
+    collect_window_ms?: number;
+    task_timeout_ms?: number;
+    max_per_user?: number;
+    max_per_group?: number;
+    admin_weight?: number;
+    persist?: boolean;
+  };
   mcp?: TomlMcpConfig;
   hooks?: TomlHookConfig;
   plugins?: TomlPluginConfig;
+  commands?: {
+    aliases?: Record<string, string>;
+  };
 }
 
 const agentConfigSchema = z.object({
@@ -123,6 +185,15 @@ const agentConfigSchema = z.object({
   options: z.record(z.string(), z.unknown()).optional(),
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$|^24:00$/, '时间格式应为 HH:mm');
+
+const timeWindowSchema = z.object({
+  start: timeOfDaySchema.optional(),
+  end: timeOfDaySchema.optional(),
+  weekdays: z.array(z.number().int().min(0).max(7)).optional(),
+  timezone: z.string().refine(isValidTimeZone, '无效的时区').optional(),
+});
+
 const bindingMatchSchema = z.object({
   channelId: z.union([z.string(), z.array(z.string())]).optional(),
   channelType: z.union([z.string(), z.array(z.string())]).optional(),
@@ -130,12 +201,24 @@ const bindingMatchSchema = z.object({
   chatId: z.union([z.string(), z.array(z.string())]).optional(),
   userId: z.union([z.string(), z.array(z.string())]).optional(),
   messagePattern: z.string().optional(),
+  messageType: z.union([z.string(), z.array(z.string())]).optional(),
+  mentionedBot: z.boolean().optional(),
+  isSessionGroup: z.boolean().optional(),
+  timeWindow: timeWindowSchema.optional(),
+  get not() {
+    return bindingMatchSchema.optional();
+  },
+  get any() {
+    return z.array(bindingMatchSchema).optional();
+  },
 });
 
 const bindingConfigSchema = z.object({
   id: z.string(),
   name: z.string().optional(),
   agentId: z.string(),
+  fallbackAgents: z.array(z.string()).optional(),
+  timeoutMs: z.number().int().positive().optional(),
   priority: z.number().default(0),
   enabled: z.boolean().default(true),
   match: bindingMatchSchema.optional(),
@@ -172,19 +255,47 @@ const pluginConfigSchema = z.object({
 
 const bindingsConfigSchema = z.object({
   defaultAgent: z.string().default('opencode'),
+  defaultFallbackAgents: z.array(z.string()).default([]),
   rules: z.array(bindingConfigSchema).default([]),
 });
 
+const sessionConfigSchema = z.object({
+  idleTimeoutMinutes: z.number().positive().default(30),
+  archiveAfterDays: z.number().nonnegative().default(7),
+  disbandOnArchive: z.boolean().default(false),
+  autoCompact: z.boolean().default(true),
+  compactAtPercent: z.number().int().min(1).max(100).default(80),
+  memoryFlush: z.boolean().default(true),
+});
+
+const queueConfigSchema = z.object({
+  maxConcurrency: z.number().int().positive().default(10),
+  collectWindowMs: z.number().int().nonnegative().default(0),
+  taskTimeoutMs: z.number().int().nonnegative().default(0),
+  maxPerUser: z.number().int().nonnegative().default(0),
+  maxPerGroup: z.number().int().nonnegative().default(0),
+  adminWeight: z.number().int().positive().default(2),
+  persist: z.boolean().default(true),
+});
+
 const configSchema = z.object({
   feishuAppId: z.string().min(1, '必须提供飞书应用 ID'),
   feishuAppSecret: z.string().min(1, '必须提供飞书应用密钥'),
   adminUserIds: z.array(z.string()).default([]),
   allowAllUsers: z.boolean().default(true),
+  projectRoots: z.array(z.string()).default([]),
   databasePath: z.string().optional(),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   projects: z.array(z.object({
     path: z.string(),
     name: z.string(),
+    timeoutMs: z.number().int().positive().optional(),
+    systemPrompt: z.string().optional(),
+    instructionsFile: z.string().optional(),
+    model: z.string().optional(),
+    agent: z.string().optional(),
+    queueMode: z.enum(['collect', 'steer', 'followup']).optional(),
+    allowedUsers: z.array(z.string()).optional(),
   })).default([]),
   defaultModel: z.string().optional(),
   availableModels: z.array(z.object({
@@ -196,10 +307,44 @@ const configSchema = z.object({
     wikiSpaceId: z.string().optional(),
   }).default({}),
   agents: z.array(agentConfigSchema).default([]),
-  bindings: bindingsConfigSchema.default({ defaultAgent: 'opencode', rules: [] }),
+  bindings: bindingsConfigSchema.default({ defaultAgent: 'opencode', defaultFallbackAgents: [], rules: [] }),
+  session: sessionConfigSchema.default({
+    idleTimeoutMinutes: 30,
+    archiveAfterDays: 7,
+    disbandOnArchive: false,
+    autoCompact: true,
+    compactAtPercent: 80,
+    memoryFlush: true,
+  }),
+  queue: queueConfigSchema.default({
+    maxConcurrency: 10,
+    collectWindowMs: 0,
+    taskTimeoutMs: 0,
+    maxPerUser: 0,
+    maxPerGroup: 0,
+    adminWeight: 2,
+    persist: true,
+  }),
   mcp: mcpConfigSchema.default({ servers: {}, clients: [] }),
   hooks: hookConfigSchema.default({ enabled: true, handlers: [] }),
   plugins: pluginConfigSchema.default({ enabled: true, bundled: [] }),
+  commandAliases: z.record(
+    z.string().regex(/^[^\s/]+$/, '别名只能是不含空格的命令名'),
+    z.string().refine(
+      value => value.split(/\s+&&\s+/).every(step => step.trim().startsWith('/')),
+      '别名的每一步都必须是以 / 开头的命令'
+    )
+  ).default({}),
+}).superRefine((config, ctx) => {
+  // 未声明 [[agents]] 时会按 default_agent 自动创建一个 OpenCode Agent
+  if (config.agents.length === 0) return;
+  if (!config.agents.some(agent => agent.enabled && agent.id === config.bindings.defaultAgent)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['bindings', 'defaultAgent'],
+      message: `默认 Agent ${config.bindings.defaultAgent} 不在已启用的 [[agents]] 中`,
+    });
+  }
 });
 
 export type Config = z.infer<typeof configSchema>;
@@ -211,6 +356,32 @@ export interface CliOverrides {
   configFile?: string;
 }
 
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toBindingMatch(match: TomlBindingMatch): z.input<typeof bindingMatchSchema> {
+  return {
+    channelId: match.channel_id,
+    channelType: match.channel_type,
+    chatType: match.chat_type,
+    chatId: match.chat_id,
+    userId: match.user_id,
+    messagePattern: match.message_pattern,
+    messageType: match.message_type,
+    mentionedBot: match.mentioned_bot,
+    isSessionGroup: match.is_session_group,
+    timeWindow: match.time_window,
+    not: match.not ? toBindingMatch(match.not) : undefined,
+    any: match.any?.map(toBindingMatch),
+  };
+}
+
 function loadTomlConfig(configPath: string): TomlConfig {
   if (!existsSync(configPath)) {
     return {};
@@ -238,10 +409,19 @@ export function loadConfig(overrides?: CliOverrides): Config {
     allowAllUsers: process.env.ALLOW_ALL_USERS !== undefined
       ? process.env.ALLOW_ALL_USERS !== 'false'
       : toml.admin?.allow_all_users ?? true,
+    projectRoots: toml.admin?.project_roots || [],
+    databasePath: process.env.DATABASE_PATH || toml.database?.path,
     logLevel: overrides?.logLevel || process.env.LOG_LEVEL || toml.logging?.level || 'info',
-    projects: toml.projects?.map(p => ({
+    projects: toml.projects?.map((p): ProjectConfig => ({
       path: p.path,
       name: p.name || p.path,
+      timeoutMs: p.timeout_ms,
+      systemPrompt: p.system_prompt,
+      instructionsFile: p.instructions_file,
+      model: p.model,
+      agent: p.agent,
+      queueMode: p.queue_mode,
+      allowedUsers: p.allowed_users,
     })) || [],
     defaultModel: overrides?.model || process.env.DEFAULT_MODEL || toml.models?.default,
     availableModels: toml.models?.available || [],
@@ -258,22 +438,35 @@ export function loadConfig(overrides?: CliOverrides): Config {
     })) || [],
     bindings: {
       defaultAgent: toml.bindings?.default_agent || 'opencode',
+      defaultFallbackAgents: toml.bindings?.default_fallback_agents || [],
       rules: toml.bindings?.rules?.map(r => ({
         id: r.id,
         name: r.name,
         agentId: r.agent_id,
+        fallbackAgents: r.fallback_agents,
+        timeoutMs: r.timeout_ms,
         priority: r.priority ?? 0,
         enabled: r.enabled ?? true,
-        match: r.match ? {
-          channelId: r.match.channel_id,
-          channelType: r.match.channel_type,
-          chatType: r.match.chat_type,
-          chatId: r.match.chat_id,
-          userId: r.match.user_id,
-          messagePattern: r.match.message_pattern,
-        } : undefined,
+        match: r.match ? toBindingMatch(r.match) : undefined,
       })) || [],
     },
+    session: {
+      idleTimeoutMinutes: toml.session?.idle_timeout_minutes ?? 30,
+      archiveAfterDays: toml.session?.archive_after_days ?? 7,
+      disbandOnArchive: toml.session?.disband_on_archive ?? false,
+      autoCompact: toml.session?.auto_compact ?? true,
+      compactAtPercent: toml.session?.compact_at_percent ?? 80,
+      memoryFlush: toml.session?.memory_flush ?? true,
+    },
+    queue: {
+      maxConcurrency: toml.queue?.max_concurrency ?? 10,
+      collectWindowMs: toml.queue?.collect_window_ms ?? 0,
+      taskTimeoutMs: toml.queue?.task_timeout_ms ?? 0,
+      maxPerUser: toml.queue?.max_per_user ?? 0,
+      maxPerGroup: toml.queue?.max_per_group ?? 0,
+      adminWeight: toml.queue?.admin_weight ?? 2,
+      persist: toml.queue?.persist ?? true,
+    },
     mcp: {
       servers: toml.mcp?.servers || {},
       clients: toml.mcp?.clients?.map(c => ({
@@ -298,6 +491,9 @@ export function loadConfig(overrides?: CliOverrides): Config {
       managedPath: toml.plugins?.managed_path,
       bundled: toml.plugins?.bundled || [],
     },
+    commandAliases: Object.fromEntries(
+      Object.entries(toml.commands?.aliases || {}).map(([name, expansion]) => [name.replace(/^\//, '').toLowerCase(), expansion.trim()])
+    ),
   };
   
   if (process.env.PROJECTS) {
@@ -349,6 +545,14 @@ export function getDefaultProjectPath(override?: string): string {
   return override || process.cwd();
 }
 
+export function expandHome(path: string): string {
+  return path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+}
+
+export function getDatabasePath(config: Config): string {
+  return expandHome(config.databasePath || DEFAULT_DATABASE_PATH);
+}
+
 export function getDefaultModel(config: Config): string | undefined {
   return config.defaultModel;
 }
@@ -357,6 +561,42 @@ export function getProjects(config: Config): ProjectConfig[] {
   return config.projects;
 }
 
+/**
+ * 目录可被 /switch_project 选中的根目录；未配置时只允许预配置项目与默认项目
+ */
+export function getProjectRoots(config: Config, defaultProjectPath: string): string[] {
+  if (config.projectRoots.length > 0) {
+    return config.projectRoots.map(expandHome);
+  }
+  return [...config.projects.map(p => p.path), defaultProjectPath];
+}
+
+export function findProject(projects: ProjectConfig[], projectPath: string): ProjectConfig | undefined {
+  return projects.find(p => p.path === projectPath);
+}
+
+/** 项目的系统提示与指令文件内容；指令文件每次读取，修改后无需重启 */
+export function getProjectInstructions(project: ProjectConfig): string | undefined {
+  const sections = project.systemPrompt?.trim() ? [project.systemPrompt.trim()] : [];
+
+  if (project.instructionsFile) {
+    const expanded = expandHome(project.instructionsFile);
+    const file = isAbsolute(expanded) ? expanded : join(project.path, expanded);
+    try {
+      const content = readFileSync(file, 'utf-8').trim();
+      if (content) sections.push(content);
+    } catch (error) {
+      logger.warn('Failed to read project instructions file', { project: project.name, file, error });
+    }
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+}
+
+export function canUseProject(project: ProjectConfig, userId: string, isAdmin: boolean): boolean {
+  return isAdmin || !project.allowedUsers?.length || project.allowedUsers.includes(userId);
+}
+
 export function getAvailableModels(config: Config): ModelConfig[] {
   return config.availableModels;
 }
@@ -385,14 +625,25 @@ export function getDocsConfig(config: Config): DocsConfig {
   return config.docs;
 }
 
-export function getAgentsConfig(config: Config) {
-  return config.agents;
+export function getAgentsConfig(config: Config): AgentConfig[] {
+  return config.agents.map(agent => ({
+    ...agent,
+    name: agent.name ?? agent.id,
+  }));
 }
 
-export function getBindingsConfig(config: Config) {
+export function getBindingsConfig(config: Config): { defaultAgent: string; defaultFallbackAgents: string[]; rules: Binding[] } {
   return config.bindings;
 }
 
+export function getSessionConfig(config: Config) {
+  return config.session;
+}
+
+export function getQueueConfig(config: Config) {
+  return config.queue;
+}
+
 export function getMcpConfig(config: Config) {
   return config.mcp;
 }
@@ -404,3 +655,11 @@ export function getHooksConfig(config: Config) {
 export function getPluginsConfig(config: Config) {
   return config.plugins;
 }
+
+/**
+ * 用户自定义的命令别名，键为不带 / 的别名，值为展开后的命令；
+ * 多条命令用 && 连接，依次执行
+ */
+export function getCommandAliases(config: Config): Record<string, string> {
+  return config.commandAliases;
+}
@@ -608,7 +608,7 @@ export class FeishuClient {
   }
 
   /** 发送消息 */
-  async sendMessage(chatId: string, content: string, msgType: 'text' | 'interactive' = 'text'): Promise<string | null> {
+  async sendMessage(chatId: string, content: string, msgType: 'text' | 'interactive' | 'file' = 'text'): Promise<string | null> {
     try {
       const response = await this.client.im.v1.message.create({
         params: { receive_id_type: 'chat_id' },
@@ -671,6 +671,57 @@ export class FeishuClient {
     return this.sendMessage(chatId, content, 'interactive');
   }
 
+  /** 回复指定消息（飞书会在回复中引用原消息） */
+  async replyMessage(messageId: string, content: string, msgType: 'text' | 'interactive' = 'text'): Promise<string | null> {
+    try {
+      const response = await this.client.im.v1.message.reply({
+        path: { message_id: messageId },
+        data: {
+          msg_type: msgType,
+          content,
+        },
+      });
+
+      if (response.code !== 0) {
+        logger.error('回复消息失败', { code: response.code, msg: response.msg });
+        return null;
+      }
+
+      return response.data?.message_id ?? null;
+    } catch (error) {
+      logger.error('回复消息时出错', error);
+      return null;
+    }
+  }
+
+  /** 以卡片回复指定消息 */
+  async replyCard(messageId: string, card: object): Promise<string | null> {
+    return this.replyMessage(messageId, JSON.stringify(card), 'interactive');
+  }
+
+  /** 上传文件并以文件消息发送 */
+  async sendFile(chatId: string, fileName: string, data: Buffer): Promise<string | null> {
+    try {
+      const response = await this.client.im.v1.file.create({
+        data: {
+          file_type: 'stream',
+          file_name: fileName,
+          file: data,
+        },
+      });
+
+      if (!response?.file_key) {
+        logger.error('上传文件失败', { fileName });
+        return null;
+      }
+
+      return this.sendMessage(chatId, JSON.stringify({ file_key: response.file_key }), 'file');
+    } catch (error) {
+      logger.error('上传文件时出错', { fileName, error });
+      return null;
+    }
+  }
+
   /** 更新卡片消息 */
   async updateCard(messageId: string, card: object): Promise<UpdateCardResult> {
     try {
@@ -796,6 +847,25 @@ export class FeishuClient {
     }
   }
 
+  async getBotInfo(): Promise<{ openId: string; name?: string } | null> {
+    try {
+      const response = await this.client.request({
+        method: 'GET',
+        url: '/open-apis/bot/v3/info',
+      }) as { code?: number; msg?: string; bot?: { open_id?: string; app_name?: string } };
+
+      if (response.code !== 0 || !response.bot?.open_id) {
+        logger.error('获取机器人信息失败', { code: response.code, msg: response.msg });
+        return null;
+      }
+
+      return { openId: response.bot.open_id, name: response.bot.app_name };
+    } catch (error) {
+      logger.error('获取机器人信息时出错', error);
+      return null;
+    }
+  }
+
   async getChatInfo(chatId: string): Promise<{ name?: string; userCount?: number } | null> {
     try {
       const response = await this.client.im.v1.chat.get({
@@ -1073,6 +1143,10 @@ export class FeishuClient {
     return this.blockWriter;
   }
 
+  getDocumentWriter(): DocumentWriter {
+    return this.documentWriter;
+  }
+
   getMediaUploader(): MediaUploader {
     return this.mediaUploader;
   }
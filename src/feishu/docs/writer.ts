@@ -8,6 +8,8 @@ import { parseDocumentUrl } from './reader';
 import { BlockReader } from './block-reader';
 import { logger } from '../../utils/logger';
 
+const MAX_CHILDREN_PER_REQUEST = 50;
+
 export class DocumentWriter {
   private client: Lark.Client;
   private defaultFolderToken?: string;
@@ -104,30 +106,32 @@ export class DocumentWriter {
         return { success: true };
       }
 
-      const createResponse = await this.client.docx.documentBlockChildren.create({
-        path: { 
-          document_id: documentId, 
-          block_id: rootBlockId,
-        },
-        params: {
-          document_revision_id: -1,
-        },
-        data: {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          children: contentBlocks as any,
-          index: 0, // 插入到开头
-        },
-      });
-
-      if (createResponse.code !== 0) {
-        logger.error('写入文档内容失败', { code: createResponse.code, msg: createResponse.msg });
-        return { success: false, error: createResponse.msg || '写入内容失败' };
+      // 单次最多创建 50 个子块，长内容分批按顺序插入
+      for (let start = 0; start < contentBlocks.length; start += MAX_CHILDREN_PER_REQUEST) {
+        const createResponse = await this.client.docx.documentBlockChildren.create({
+          path: { 
+            document_id: documentId, 
+            block_id: rootBlockId,
+          },
+          params: {
+            document_revision_id: -1,
+          },
+          data: {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            children: contentBlocks.slice(start, start + MAX_CHILDREN_PER_REQUEST) as any,
+            index: start, // 从开头依次插入
+          },
+        });
+
+        if (createResponse.code !== 0) {
+          logger.error('写入文档内容失败', { code: createResponse.code, msg: createResponse.msg });
+          return { success: false, error: createResponse.msg || '写入内容失败' };
+        }
       }
 
       logger.debug('写入文档内容成功', { 
         documentId, 
         blocksCount: contentBlocks.length,
-        newRevision: createResponse.data?.document_revision_id,
       });
 
       return { success: true };
@@ -1,4 +1,6 @@
 import type { ProjectConfig } from '../config';
+import type { BindingConditionCheck, RouteExplanation } from '../types/binding';
+import type { SessionSearchHit } from '../session/search';
 import { type CardTemplate, colors } from './design-tokens';
 
 export type MenuAction = 
@@ -250,6 +252,66 @@ export function createErrorCard(title: string, message: string): object {
   };
 }
 
+function formatConditionCheck(check: BindingConditionCheck): string {
+  const mark = check.passed ? '✅' : '❌';
+  const expected = check.expected !== undefined ? ` 期望 \`${check.expected}\`` : '';
+  const actual = check.actual !== undefined ? `，实际 \`${check.actual}\`` : '';
+  return `${mark} ${check.condition}${expected}${actual}`;
+}
+
+export function createRouteExplanationCard(explanation: RouteExplanation): object {
+  const { context, result, evaluations } = explanation;
+
+  const contextLines = [
+    `**渠道**: \`${context.channelType}\` / \`${context.channelId}\``,
+    `**会话**: \`${context.chatId}\` (${context.chatType})`,
+    `**用户**: \`${context.userId}\``,
+    context.messageText ? `**消息**: ${context.messageText}` : null,
+    `**会话群**: ${context.isSessionGroup ? '是' : '否'}`,
+  ].filter(Boolean);
+
+  const elements: object[] = [createMarkdown(contextLines.join('\n')), createDivider()];
+
+  if (evaluations.length === 0) {
+    elements.push(createMarkdown('未配置任何绑定规则'));
+  }
+
+  for (const evaluation of evaluations) {
+    const { binding } = evaluation;
+    const status = !evaluation.enabled
+      ? '⚪ 已禁用'
+      : evaluation.selected
+        ? '🎯 命中'
+        : evaluation.matched
+          ? '🟡 匹配（被更高优先级覆盖）'
+          : '❌ 未匹配';
+    const lines = [
+      `**${binding.id}** → \`${binding.agentId}\` (优先级 ${binding.priority}) ${status}`,
+      ...(evaluation.checks.length > 0
+        ? evaluation.checks.map(formatConditionCheck)
+        : ['✅ 无条件（通配）']),
+    ];
+    elements.push(createMarkdown(lines.join('\n')));
+  }
+
+  elements.push(createDivider());
+
+  const fallbacks = result.binding.fallbackAgents ?? [];
+  const resultLines = [
+    `**最终 Agent**: \`${result.agentId}\``,
+    `**命中规则**: \`${result.binding.id}\``,
+    `**匹配条件**: ${result.matchedBy.join(', ')}`,
+    fallbacks.length > 0 ? `**备用 Agent**: ${fallbacks.map(id => `\`${id}\``).join(' → ')}` : null,
+  ].filter(Boolean);
+  elements.push(createMarkdown(resultLines.join('\n')));
+
+  return {
+    config: { wide_screen_mode: true },
+    header: createHeader('🧭 路由解释', colors.info),
+    elements,
+  };
+}
+
 export interface SessionChatWelcomeInfo {
   sessionId: string;
   projectPath: string;
@@ -464,3 +526,90 @@ export function createQuickActionsCard(info: QuickActionsInfo): object {
     elements,
   };
 }
+
+export const SEARCH_REOPEN_ACTION = 'search_reopen';
+
+export function createSessionSearchCard(query: string, hits: SessionSearchHit[], userId: string): object {
+  const elements: object[] = [];
+
+  if (hits.length === 0) {
+    elements.push(createMarkdown(`没有找到包含 **${query}** 的会话`));
+  }
+
+  hits.forEach((hit, index) => {
+    if (index > 0) elements.push(createDivider());
+
+    const projectName = hit.projectPath.split('/').pop() || hit.projectPath;
+    const date = new Date(hit.lastMatchedAt).toISOString().slice(0, 10);
+    const source = hit.role === 'title' ? '标题' : hit.role === 'user' ? '提问' : '回复';
+    elements.push(createMarkdown(
+      `**${hit.title ?? hit.sessionId}**\n` +
+      `📁 ${projectName} · 📅 ${date} · 命中 ${hit.matchCount} 处\n` +
+      `> ${source}：${hit.snippet}`
+    ));
+
+    elements.push({
+      tag: 'action',
+      actions: [
+        hit.activeGroup
+          ? {
+              tag: 'button',
+              text: { tag: 'plain_text', content: '🚀 进入会话群' },
+              type: 'primary',
+              url: `https://applink.feishu.cn/client/chat/open?openChatId=${hit.chatId}`,
+            }
+          : {
+              tag: 'button',
+              text: { tag: 'plain_text', content: '♻️ 重新打开' },
+              type: 'default',
+              value: {
+                action: SEARCH_REOPEN_ACTION,
+                userId,
+                sessionId: hit.sessionId,
+                agentId: hit.agentId,
+                projectPath: hit.projectPath,
+                title: hit.title,
+              },
+            },
+      ],
+    });
+  });
+
+  return {
+    config: { wide_screen_mode: true },
+    header: createHeader(`🔍 搜索：${query}`, colors.info),
+    elements,
+  };
+}
+
+export const RUN_COMMAND_ACTION = 'run_command';
+
+export interface CommandSuggestion {
+  name: string;
+  description?: string;
+}
+
+export function createUnknownCommandCard(command: string, suggestions: CommandSuggestion[], userId: string): object {
+  return {
+    config: { wide_screen_mode: true },
+    header: createHeader(`未知命令: /${command}`, 'carmine'),  // 洋红：错误
+    elements: [
+      createMarkdown('你是不是想输入：\n' + suggestions
+        .map(s => `- \`/${s.name}\`${s.description ? ` ${s.description}` : ''}`)
+        .join('\n')),
+      {
+        tag: 'action',
+        actions: suggestions.map((s, index) => ({
+          tag: 'button',
+          text: { tag: 'plain_text', content: `/${s.name}` },
+          type: index === 0 ? 'primary' : 'default',
+          value: { action: RUN_COMMAND_ACTION, userId, command: `/${s.name}` },
+        })),
+      },
+      {
+        tag: 'note',
+        elements: [{ tag: 'plain_text', content: '发送 /help 查看全部命令' }],
+      },
+    ],
+  };
+}
@@ -1,30 +1,132 @@
-import type { IChannel } from '../types/channel';
-import type { IAgentRuntime } from '../types/agent';
+import type { IChannel, MessageEvent, CardActionEvent, ChannelEventHandler } from '../types/channel';
+import type { IAgentRuntime, AnyAgentEvent, SendOptions, TokenUsage } from '../types/agent';
+import type { UnifiedMessage, MessageContext, UnifiedReply } from '../types/message';
+import type { HookManager } from '../types/hook';
 import { BindingsRouter } from './router';
-import type { Binding } from '../types/binding';
-import { LaneQueue } from '../queue/lane-queue';
+import type { Binding, BindingContext, BindingResult, RouteExplanation } from '../types/binding';
+import type { SessionKeyType } from '../types/session';
+import { LaneQueue, SUPERSEDED_BY_STEER, TASK_CANCELLED, type QueueMode, type QueueEvent } from '../queue/lane-queue';
+import { getPendingMessageId, toPersistedEvent, type PendingMessage, type QueueStore } from '../queue/store';
+import { ReplyStream } from './reply';
 import { logger } from '../utils/logger';
 
 export interface GatewayConfig {
   defaultAgent: string;
+  defaultFallbackAgents?: string[];
   bindings?: Binding[];
   maxConcurrency?: number;
+  collectWindowMs?: number;
+  taskTimeoutMs?: number;
+  maxConcurrencyPerUser?: number;
+  maxConcurrencyPerGroup?: number;
+  userWeights?: Record<string, number>;
 }
 
+export interface GatewayDependencies {
+  resolveSession: (context: BindingContext, agent: IAgentRuntime) => Promise<string>;
+  interceptMessage?: (event: MessageEvent, channel: IChannel) => Promise<boolean>;
+  /** Returns true for an event the channel delivered before, and records the ones it has not. */
+  isDuplicateMessage?: (event: MessageEvent) => boolean;
+  isSessionGroup?: (channelId: string, chatId: string) => boolean;
+  getQueueMode?: (context: BindingContext) => QueueMode | undefined;
+  getSessionKeyType?: (context: BindingContext) => SessionKeyType | undefined;
+  getTaskTimeout?: (context: BindingContext) => number | undefined;
+  getSystemPrompt?: (context: BindingContext) => string | undefined;
+  /** Agent to use when no binding rule matches, e.g. the default agent of the chat's project. */
+  getDefaultAgent?: (context: BindingContext) => string | undefined;
+  queueStore?: QueueStore;
+  hookManager?: HookManager;
+  /** Called once the agent session of a turn is resolved, again for every fallback agent that takes over. */
+  onTurnStarted?: (context: BindingContext, session: { agentId: string; sessionId: string }) => void;
+  /** Called once a turn leaves its lane, whether it completed, failed or was stopped. */
+  onTurnEnded?: (context: BindingContext) => void;
+  onTurnCompleted?: (turn: CompletedTurn) => void | Promise<void>;
+  handleCardAction?: (event: CardActionEvent) => Promise<void>;
+}
+
+export interface CompletedTurn {
+  context: BindingContext;
+  agentId: string;
+  sessionId: string;
+  prompt: string;
+  reply: string;
+  completedAt: number;
+  usage?: TokenUsage;
+  model?: string;
+}
+
+interface TurnOutcome {
+  sessionId?: string;
+  error?: string;
+  recoverable?: boolean;
+  stopped?: boolean;
+}
+
+interface QueueTicket {
+  channel: IChannel;
+  chatId: string;
+  laneKey: string;
+  senderId: string;
+  messageId?: string;
+  replyTo?: string;
+  updateChain: Promise<void>;
+}
+
+const QUEUE_CANCEL_ACTION = 'queue_cancel';
+const QUEUE_RETRY_ACTION = 'queue_retry';
+
+/** Interrupted messages older than this are dropped instead of offered for retry. */
+const INTERRUPTED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const STOP_REASONS: Record<NonNullable<ActiveTurn['stopped']>, string> = {
+  superseded: 'Superseded by new message',
+  timeout: 'Task timeout',
+};
+
+interface ActiveTurn {
+  agent?: IAgentRuntime;
+  sessionId?: string;
+  usage?: TokenUsage;
+  model?: string;
+  stopped?: 'superseded' | 'timeout';
+  cancel?: () => void;
+}
+
+const MESSAGE_TYPE_MAP: Record<string, UnifiedMessage['type']> = {
+  text: 'text',
+  image: 'image',
+  file: 'file',
+  post: 'richtext',
+  interactive: 'card',
+};
+
 export class Gateway {
   private channels = new Map<string, IChannel>();
   private agents = new Map<string, IAgentRuntime>();
+  private messageListeners = new Map<string, ChannelEventHandler>();
+  private cardActionListeners = new Map<string, ChannelEventHandler>();
+  private activeTurns = new Map<string, ActiveTurn>();
+  private tickets = new Map<string, QueueTicket>();
+  private turnCounter = 0;
   private router: BindingsRouter;
   private queue: LaneQueue;
   private config: GatewayConfig;
+  private deps?: GatewayDependencies;
   private started = false;
 
-  constructor(config: GatewayConfig) {
+  constructor(config: GatewayConfig, deps?: GatewayDependencies) {
     this.config = config;
-    this.router = new BindingsRouter(config.defaultAgent);
+    this.deps = deps;
+    this.router = new BindingsRouter(config.defaultAgent, config.defaultFallbackAgents);
     this.queue = new LaneQueue({
       maxConcurrency: config.maxConcurrency ?? 10,
+      collectWindowMs: config.collectWindowMs,
+      taskTimeoutMs: config.taskTimeoutMs,
+      maxConcurrencyPerUser: config.maxConcurrencyPerUser,
+      maxConcurrencyPerGroup: config.maxConcurrencyPerGroup,
+      userWeights: config.userWeights,
     });
+    this.queue.subscribe((event) => this.handleQueueEvent(event));
 
     if (config.bindings) {
       for (const binding of config.bindings) {
@@ -39,12 +141,31 @@ export class Gateway {
     }
     
     this.channels.set(channel.id, channel);
+
+    const listener: ChannelEventHandler = (event) => this.receive(event as MessageEvent);
+    channel.on('message', listener);
+    this.messageListeners.set(channel.id, listener);
+
+    const cardActionListener: ChannelEventHandler = (event) => this.handleCardAction(event as CardActionEvent);
+    channel.on('card_action', cardActionListener);
+    this.cardActionListeners.set(channel.id, cardActionListener);
+
     logger.info('Channel registered', { channelId: channel.id, type: channel.type });
   }
 
   unregisterChannel(channelId: string): void {
     const channel = this.channels.get(channelId);
     if (channel) {
+      const listener = this.messageListeners.get(channelId);
+      if (listener) {
+        channel.off('message', listener);
+        this.messageListeners.delete(channelId);
+      }
+      const cardActionListener = this.cardActionListeners.get(channelId);
+      if (cardActionListener) {
+        channel.off('card_action', cardActionListener);
+        this.cardActionListeners.delete(channelId);
+      }
       this.channels.delete(channelId);
       logger.info('Channel unregistered', { channelId });
     }
@@ -83,6 +204,622 @@ export class Gateway {
     return this.queue;
   }
 
+  buildBindingContext(event: MessageEvent, channel: IChannel): BindingContext {
+    return {
+      channelId: channel.id,
+      channelType: channel.type,
+      chatId: event.chatId,
+      chatType: event.chatType,
+      userId: event.senderId,
+      messageText: event.content,
+      messageType: event.messageType,
+      mentionedBot: event.mentionedBot ?? false,
+      isSessionGroup: this.deps?.isSessionGroup?.(channel.id, event.chatId) ?? false,
+      timestamp: event.timestamp || Date.now(),
+      metadata: {
+        messageId: event.messageId,
+        messageType: event.messageType,
+      },
+    };
+  }
+
+  /** Explains the routing decision for a message the same way `dispatch` makes it. */
+  explainRoute(context: BindingContext): RouteExplanation {
+    const explanation = this.router.explain(context);
+    return { ...explanation, result: this.applyDefaultAgent(explanation.result, context) };
+  }
+
+  /** The project default agent replaces the global default route, never a matched binding. */
+  private applyDefaultAgent(result: BindingResult, context: BindingContext): BindingResult {
+    const projectAgent = result.matchedBy[0] === 'default' ? this.deps?.getDefaultAgent?.(context) : undefined;
+    return projectAgent ? { ...result, agentId: projectAgent } : result;
+  }
+
+  /** In `user_chat` chats every member gets their own lane, so turns of different members run side by side. */
+  getLaneKey(context: BindingContext): string {
+    const chatKey = `${context.channelId}:${context.chatId}`;
+    return this.isPerUser(context) ? `${chatKey}:${context.userId}` : chatKey;
+  }
+
+  private isPerUser(context: BindingContext): boolean {
+    return this.deps?.getSessionKeyType?.(context) === 'user_chat';
+  }
+
+  /** Entry point for channel events; replays of persisted messages call `dispatch` directly and skip the duplicate check. */
+  private async receive(event: MessageEvent): Promise<void> {
+    if (this.deps?.isDuplicateMessage?.(event)) {
+      logger.info('Duplicate message ignored', { chatId: event.chatId, messageId: event.messageId });
+      return;
+    }
+    await this.dispatch(event);
+  }
+
+  async dispatch(event: MessageEvent): Promise<void> {
+    const channel = this.channels.get(event.channelId);
+    if (!channel) {
+      logger.warn('Message from unknown channel', { channelId: event.channelId });
+      return;
+    }
+
+    if (event.senderType === 'bot') return;
+
+    if (this.deps?.interceptMessage && await this.deps.interceptMessage(event, channel)) {
+      return;
+    }
+
+    const hasAttachments = (event.attachments?.length ?? 0) > 0;
+    if (!event.content.trim() && !hasAttachments) return;
+
+    if (!this.deps) {
+      logger.warn('Gateway has no session resolver, message ignored', { chatId: event.chatId });
+      return;
+    }
+
+    const context = this.buildBindingContext(event, channel);
+    await this.emitMessageReceived(event, context);
+
+    const { binding, matchedBy, agentId } = this.applyDefaultAgent(this.router.route(context), context);
+    const chain = [agentId, ...(binding.fallbackAgents ?? [])]
+      .filter((id, index, ids) => ids.indexOf(id) === index)
+      .map(id => this.agents.get(id))
+      .filter((agent): agent is IAgentRuntime => agent !== undefined);
+
+    if (chain.length === 0) {
+      logger.error('Routed agent not registered', { agentId, chatId: event.chatId });
+      await this.sendError(channel, event.chatId, `Agent ${agentId} 不可用`);
+      return;
+    }
+
+    const laneKey = this.getLaneKey(context);
+    const mode = this.deps.getQueueMode?.(context) ?? this.queue.getDefaultMode();
+    const interrupt = () => this.supersedeTurn(laneKey);
+    const timeoutMs = binding.timeoutMs ?? this.deps.getTaskTimeout?.(context);
+    const afterRun = (completed: CompletedTurn | undefined) => completed && this.notifyTurnCompleted(completed);
+    const scheduling = { userId: context.userId, groupId: `${context.channelId}:${context.chatId}` };
+    logger.debug('Message routed', { chatId: event.chatId, agentId, matchedBy, fallbacks: binding.fallbackAgents, mode });
+
+    const pendingId = this.persistPending(event);
+    const taskId = `turn_${++this.turnCounter}`;
+    const ticket: QueueTicket = {
+      channel,
+      chatId: event.chatId,
+      laneKey,
+      senderId: event.senderId,
+      replyTo: this.isPerUser(context) ? event.messageId : undefined,
+      updateChain: Promise.resolve(),
+    };
+    this.tickets.set(taskId, ticket);
+
+    try {
+      if (mode === 'collect') {
+        await this.queue.collect(
+          laneKey,
+          event,
+          (events, signal) => this.runTurn(channel, chain, context, events, taskId, signal),
+          { id: taskId, interrupt, timeoutMs, afterRun, ...scheduling }
+        );
+      } else {
+        await this.queue.enqueue(
+          laneKey,
+          (signal) => this.runTurn(channel, chain, context, [event], taskId, signal),
+          { id: taskId, mode, interrupt, timeoutMs, afterRun, ...scheduling }
+        );
+      }
+    } catch (error) {
+      // Cancelling a collected batch rejects every message merged into it, not only the one that owns the card
+      if (error instanceof Error && error.message === TASK_CANCELLED) {
+        logger.info('Queued message cancelled', { chatId: event.chatId, taskId });
+        return;
+      }
+      if (error instanceof Error && error.message === SUPERSEDED_BY_STEER) {
+        logger.info('Queued message superseded by steer', { chatId: event.chatId, taskId });
+        if (ticket.messageId) {
+          this.updateQueueCard(ticket, {
+            status: 'cancelled',
+            blocks: [{ type: 'text', content: '⏭️ 已被新消息取代' }],
+          });
+        }
+        return;
+      }
+      if (error instanceof Error && error.message === STOP_REASONS.timeout) {
+        logger.warn('Turn timed out', { chatId: event.chatId, agentId, timeoutMs });
+        return;
+      }
+      logger.error('Failed to process message', { chatId: event.chatId, agentId, error });
+      await this.sendError(channel, event.chatId, `处理消息时出错: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      this.tickets.delete(taskId);
+      this.deps.queueStore?.remove(pendingId);
+    }
+  }
+
+  private persistPending(event: MessageEvent): string {
+    const id = getPendingMessageId(event);
+    this.deps?.queueStore?.save({
+      id,
+      event: toPersistedEvent(event),
+      status: 'queued',
+      enqueuedAt: Date.now(),
+    });
+    return id;
+  }
+
+  /**
+   * Replays messages left in the queue store by a previous run: queued ones are
+   * dispatched again in their original order, the ones that were being processed
+   * are marked interrupted and offered for retry.
+   */
+  private async recoverPending(): Promise<void> {
+    const store = this.deps?.queueStore;
+    if (!store) return;
+
+    const pending = store.load();
+    if (pending.length === 0) return;
+
+    const queued: PendingMessage[] = [];
+    const notifiedChats = new Set<string>();
+
+    for (const message of pending) {
+      const channel = this.channels.get(message.event.channelId);
+      if (!channel) {
+        logger.warn('Dropping persisted message from unknown channel', { id: message.id });
+        store.remove(message.id);
+        continue;
+      }
+
+      switch (message.status) {
+        case 'queued':
+          queued.push(message);
+          break;
+        case 'running':
+          store.setStatus(message.id, 'interrupted');
+          await this.sendInterruptedCard(channel, message);
+          break;
+        case 'interrupted':
+          if (Date.now() - message.enqueuedAt > INTERRUPTED_RETENTION_MS) {
+            store.remove(message.id);
+          }
+          break;
+      }
+    }
+
+    for (const message of queued) {
+      const { channelId, chatId } = message.event;
+      const chatKey = `${channelId}:${chatId}`;
+      if (notifiedChats.has(chatKey)) continue;
+      notifiedChats.add(chatKey);
+      await this.sendNotice(this.channels.get(channelId)!, chatId, '🔄 机器人已重启，继续处理你的消息');
+    }
+
+    logger.info('Recovered persisted queue', { replayed: queued.length, total: pending.length });
+
+    for (const message of queued) {
+      this.replay(message);
+    }
+  }
+
+  private replay(message: PendingMessage): void {
+    this.dispatch({ ...message.event }).catch((error) => {
+      logger.error('Failed to replay persisted message', { id: message.id, error });
+    });
+  }
+
+  private async sendInterruptedCard(channel: IChannel, message: PendingMessage): Promise<void> {
+    const preview = message.event.content.trim().slice(0, 100) || '(附件)';
+    try {
+      await channel.sendMessage(message.event.chatId, {
+        status: 'interrupted',
+        blocks: [
+          { type: 'text', content: `⚠️ 机器人重启时这条消息正在处理，已中断：\n> ${preview}` },
+          {
+            type: 'action',
+            actions: [{ id: QUEUE_RETRY_ACTION, label: '重试', value: { pendingId: message.id }, style: 'primary' }],
+          },
+        ],
+      });
+    } catch (error) {
+      logger.error('Failed to send interrupted notice', { chatId: message.event.chatId, error });
+    }
+  }
+
+  private handleQueueEvent(event: QueueEvent): void {
+    const ticket = this.tickets.get(event.taskId);
+    if (!ticket) return;
+
+    switch (event.type) {
+      case 'waiting':
+      case 'moved': {
+        const position = this.queue.getTaskPosition(event.sessionKey, event.taskId);
+        if (position === 0) return;
+        const estimate = this.queue.estimateWait(event.sessionKey, event.taskId);
+        this.updateQueueCard(ticket, buildQueuedReply(event.taskId, position, estimate));
+        break;
+      }
+      case 'cancelled':
+        if (ticket.messageId) {
+          this.updateQueueCard(ticket, {
+            status: 'cancelled',
+            blocks: [{ type: 'text', content: '已取消排队' }],
+          });
+        }
+        break;
+    }
+  }
+
+  private updateQueueCard(ticket: QueueTicket, reply: UnifiedReply): void {
+    ticket.updateChain = ticket.updateChain
+      .then(async () => {
+        if (ticket.messageId) {
+          await ticket.channel.updateMessage(ticket.messageId, reply);
+        } else {
+          ticket.messageId = await ticket.channel.sendMessage(ticket.chatId, reply, { replyTo: ticket.replyTo });
+        }
+      })
+      .catch((error) => {
+        logger.warn('Failed to update queue card', { chatId: ticket.chatId, error });
+      });
+  }
+
+  private async handleCardAction(event: CardActionEvent): Promise<void> {
+    const value = event.actionValue as { action?: string; taskId?: string; pendingId?: string } | undefined;
+
+    if (value?.action === QUEUE_RETRY_ACTION && value.pendingId) {
+      await this.retryInterrupted(event, value.pendingId);
+      return;
+    }
+    if (value?.action !== QUEUE_CANCEL_ACTION || !value.taskId) {
+      await this.deps?.handleCardAction?.(event);
+      return;
+    }
+
+    const ticket = this.tickets.get(value.taskId);
+    if (!ticket) return;
+
+    if (event.operatorId !== ticket.senderId) {
+      logger.warn('Queue cancel from another user ignored', { taskId: value.taskId, operatorId: event.operatorId });
+      return;
+    }
+
+    this.queue.cancel(ticket.laneKey, value.taskId);
+  }
+
+  private async retryInterrupted(event: CardActionEvent, pendingId: string): Promise<void> {
+    const message = this.deps?.queueStore?.get(pendingId);
+    if (!message || message.status !== 'interrupted') return;
+
+    if (event.operatorId !== message.event.senderId) {
+      logger.warn('Retry from another user ignored', { pendingId, operatorId: event.operatorId });
+      return;
+    }
+
+    const channel = this.channels.get(message.event.channelId);
+    if (!channel) return;
+
+    try {
+      await channel.updateMessage(event.messageId, {
+        status: 'pending',
+        blocks: [{ type: 'text', content: '🔁 已重新提交' }],
+      });
+    } catch (error) {
+      logger.warn('Failed to update interrupted card', { pendingId, error });
+    }
+
+    logger.info('Retrying interrupted message', { pendingId });
+    this.replay(message);
+  }
+
+  private async runTurn(
+    channel: IChannel,
+    chain: IAgentRuntime[],
+    context: BindingContext,
+    events: MessageEvent[],
+    taskId: string,
+    signal: AbortSignal
+  ): Promise<CompletedTurn | undefined> {
+    const laneKey = this.getLaneKey(context);
+    const turn: ActiveTurn = {};
+    this.activeTurns.set(laneKey, turn);
+    signal.addEventListener('abort', () => this.stopTurn(turn, 'timeout'), { once: true });
+
+    for (const event of events) {
+      this.deps?.queueStore?.setStatus(getPendingMessageId(event), 'running');
+    }
+
+    let queueCardId: string | undefined;
+    const ticket = this.tickets.get(taskId);
+    if (ticket) {
+      this.tickets.delete(taskId);
+      await ticket.updateChain;
+      queueCardId = ticket.messageId;
+    }
+
+    try {
+      return await this.executeTurn(channel, chain, context, events, turn, queueCardId);
+    } finally {
+      if (this.activeTurns.get(laneKey) === turn) {
+        this.activeTurns.delete(laneKey);
+      }
+      this.deps?.onTurnEnded?.(context);
+    }
+  }
+
+  private async executeTurn(
+    channel: IChannel,
+    chain: IAgentRuntime[],
+    context: BindingContext,
+    events: MessageEvent[],
+    turn: ActiveTurn,
+    queueCardId?: string
+  ): Promise<CompletedTurn | undefined> {
+    const text = events.map(e => e.content.trim()).filter(Boolean).join('\n\n');
+    const options = await this.buildSendOptions(channel, context, events);
+    // Shared chats with per-member sessions quote the sender so each member can follow their own thread
+    const replyTo = this.isPerUser(context) ? events[events.length - 1]?.messageId : undefined;
+    const reply = new ReplyStream(channel, context.chatId, { replyTo });
+    await reply.start(undefined, queueCardId);
+
+    if (events.length > 1) {
+      reply.setNotice(`📨 收到 ${events.length} 条消息，合并处理`);
+      logger.info('Collected messages into one prompt', { chatId: context.chatId, count: events.length });
+    }
+
+    let outcome: TurnOutcome = { error: 'No agent available' };
+    let completed: CompletedTurn | undefined;
+
+    for (let i = 0; i < chain.length; i++) {
+      const agent = chain[i]!;
+      if (turn.stopped) break;
+
+      if (i > 0) {
+        const previous = chain[i - 1]!;
+        const reason = outcome.error;
+        reply.reset();
+        reply.setNotice(`⚠️ ${previous.id} 不可用，已切换到 ${agent.id}`);
+        logger.warn('Falling back to next agent', { chatId: context.chatId, from: previous.id, to: agent.id, reason });
+
+        await this.deps?.hookManager?.emit({
+          type: 'agent.switched',
+          timestamp: Date.now(),
+          sessionId: outcome.sessionId ?? '',
+          fromAgent: previous.id,
+          toAgent: agent.id,
+          reason: `fallback: ${reason}`,
+        });
+      }
+
+      outcome = await this.runAgentTurn(agent, context, text, options, reply, turn);
+
+      if (!outcome.error || outcome.recoverable || turn.stopped) break;
+    }
+
+    if (turn.stopped === 'superseded') {
+      reply.setNotice('⏭️ 已被新消息打断，正在按新指令继续');
+      await reply.finish('superseded');
+    } else if (turn.stopped === 'timeout') {
+      reply.setNotice('⏱️ 任务超时，已中止');
+      await reply.finish('timeout');
+    } else if (outcome.error) {
+      await reply.finish('error', [{ type: 'error', message: outcome.error }]);
+    } else {
+      await reply.finish('completed');
+      if (turn.agent && turn.sessionId) {
+        completed = {
+          context,
+          agentId: turn.agent.id,
+          sessionId: turn.sessionId,
+          prompt: text,
+          reply: reply.getText(),
+          completedAt: Date.now(),
+          usage: turn.usage,
+          model: turn.model,
+        };
+      }
+    }
+
+    await this.deps?.hookManager?.emit({
+      type: 'session.completed',
+      timestamp: Date.now(),
+      sessionId: outcome.sessionId ?? '',
+      channelId: context.channelId,
+      chatId: context.chatId,
+      success: !outcome.error && !turn.stopped,
+      error: turn.stopped ? STOP_REASONS[turn.stopped] : outcome.error,
+    });
+
+    return completed;
+  }
+
+  /** Runs after the turn has left the task timeout, so slow follow-up work such as compaction is never cut short. */
+  private async notifyTurnCompleted(turn: CompletedTurn): Promise<void> {
+    if (!this.deps?.onTurnCompleted) return;
+
+    try {
+      await this.deps.onTurnCompleted(turn);
+    } catch (error) {
+      logger.warn('Turn completion handler failed', { chatId: turn.context.chatId, error });
+    }
+  }
+
+  private supersedeTurn(laneKey: string): void {
+    const turn = this.activeTurns.get(laneKey);
+    if (turn) {
+      this.stopTurn(turn, 'superseded');
+    }
+  }
+
+  private stopTurn(turn: ActiveTurn, reason: NonNullable<ActiveTurn['stopped']>): void {
+    if (turn.stopped) return;
+
+    turn.stopped = reason;
+    turn.cancel?.();
+    logger.info('Stopping running turn', { reason, agentId: turn.agent?.id, sessionId: turn.sessionId });
+
+    if (turn.agent && turn.sessionId) {
+      turn.agent.abort(turn.sessionId).catch((error) => {
+        logger.warn('Failed to abort stopped turn', { reason, sessionId: turn.sessionId, error });
+      });
+    }
+  }
+
+  private async runAgentTurn(
+    agent: IAgentRuntime,
+    context: BindingContext,
+    text: string,
+    options: SendOptions | undefined,
+    reply: ReplyStream,
+    turn: ActiveTurn
+  ): Promise<TurnOutcome> {
+    let sessionId: string;
+    try {
+      sessionId = await this.deps!.resolveSession(context, agent);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (turn.stopped) {
+      return { sessionId, stopped: true };
+    }
+
+    turn.agent = agent;
+    turn.sessionId = sessionId;
+    this.deps?.onTurnStarted?.(context, { agentId: agent.id, sessionId });
+
+    return new Promise<TurnOutcome>((resolve) => {
+      let settled = false;
+      const finish = (outcome: Omit<TurnOutcome, 'sessionId'>) => {
+        if (settled) return;
+        settled = true;
+        turn.cancel = undefined;
+        unsubscribe();
+        resolve({ sessionId, ...outcome });
+      };
+      turn.cancel = () => finish({ stopped: true });
+
+      const unsubscribe = agent.subscribe(sessionId, (agentEvent: AnyAgentEvent) => {
+        switch (agentEvent.type) {
+          case 'thinking.delta':
+            reply.appendThinking(agentEvent.delta);
+            break;
+          case 'message.delta':
+            reply.appendText(agentEvent.delta);
+            break;
+          case 'message.complete':
+            turn.usage = agentEvent.usage;
+            turn.model = agentEvent.model;
+            finish({});
+            break;
+          case 'error':
+            finish({ error: agentEvent.message, recoverable: agentEvent.recoverable });
+            break;
+        }
+      });
+
+      agent.send(sessionId, text, options).catch((err) => {
+        finish({ error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+  }
+
+  private async buildSendOptions(channel: IChannel, context: BindingContext, events: MessageEvent[]): Promise<SendOptions | undefined> {
+    const images: NonNullable<SendOptions['images']> = [];
+
+    for (const attachment of events.flatMap(e => e.attachments ?? [])) {
+      if (attachment.type !== 'image') continue;
+      try {
+        const data = await channel.downloadAttachment(attachment.id);
+        images.push({
+          data,
+          mimeType: attachment.mimeType ?? 'image/png',
+          filename: attachment.filename,
+        });
+      } catch (error) {
+        logger.warn('Failed to download attachment', { attachmentId: attachment.id, error });
+      }
+    }
+
+    const options: SendOptions = {};
+    if (images.length > 0) options.images = images;
+
+    const systemPrompt = this.deps?.getSystemPrompt?.(context);
+    if (systemPrompt) options.systemPrompt = systemPrompt;
+
+    return Object.keys(options).length > 0 ? options : undefined;
+  }
+
+  private async emitMessageReceived(event: MessageEvent, context: BindingContext): Promise<void> {
+    const hookManager = this.deps?.hookManager;
+    if (!hookManager) return;
+
+    const message: UnifiedMessage = {
+      id: event.messageId,
+      chatId: event.chatId,
+      chatType: event.chatType,
+      senderId: event.senderId,
+      type: MESSAGE_TYPE_MAP[event.messageType] ?? 'mixed',
+      text: event.content,
+      attachments: event.attachments,
+      mentions: event.mentions,
+      timestamp: event.timestamp,
+      raw: event.raw,
+    };
+    const messageContext: MessageContext = {
+      channelId: context.channelId,
+      channelType: context.channelType,
+      chatId: context.chatId,
+      chatType: context.chatType,
+      senderId: context.userId,
+    };
+
+    await hookManager.emit({
+      type: 'message.received',
+      timestamp: Date.now(),
+      message,
+      context: messageContext,
+    });
+  }
+
+  private async sendNotice(channel: IChannel, chatId: string, text: string): Promise<void> {
+    try {
+      await channel.sendMessage(chatId, {
+        status: 'completed',
+        blocks: [{ type: 'text', content: text }],
+      });
+    } catch (error) {
+      logger.error('Failed to send notice', { chatId, error });
+    }
+  }
+
+  private async sendError(channel: IChannel, chatId: string, message: string): Promise<void> {
+    try {
+      await channel.sendMessage(chatId, {
+        status: 'error',
+        blocks: [{ type: 'error', message }],
+      });
+    } catch (error) {
+      logger.error('Failed to send error reply', { chatId, error });
+    }
+  }
+
   async start(): Promise<void> {
     if (this.started) return;
 
@@ -92,6 +829,14 @@ export class Gateway {
       }
     }
 
+    for (const binding of this.router.getBindings()) {
+      for (const agentId of [binding.agentId, ...(binding.fallbackAgents ?? [])]) {
+        if (!this.agents.has(agentId)) {
+          logger.warn('Binding references unregistered agent', { bindingId: binding.id, agentId });
+        }
+      }
+    }
+
     for (const channel of this.channels.values()) {
       if (!channel.isConnected()) {
         await channel.connect();
@@ -103,6 +848,8 @@ export class Gateway {
       channels: Array.from(this.channels.keys()),
       agents: Array.from(this.agents.keys()),
     });
+
+    await this.recoverPending();
   }
 
   async stop(): Promise<void> {
@@ -128,3 +875,23 @@ export class Gateway {
     return this.started;
   }
 }
+
+function formatWait(ms: number | undefined): string {
+  if (ms === undefined) return '预计等待时间未知';
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `预计等待约 ${seconds} 秒`;
+  return `预计等待约 ${Math.round(seconds / 60)} 分钟`;
+}
+
+function buildQueuedReply(taskId: string, position: number, estimateMs: number | undefined): UnifiedReply {
+  return {
+    status: 'queued',
+    blocks: [
+      { type: 'text', content: `⏳ 排队中 (第 ${position} 位)\n${formatWait(estimateMs)}` },
+      {
+        type: 'action',
+        actions: [{ id: QUEUE_CANCEL_ACTION, label: '取消排队', value: { taskId }, style: 'danger' }],
+      },
+    ],
+  };
+}
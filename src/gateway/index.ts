@@ -1,2 +1,3 @@
-export { Gateway, type GatewayConfig } from './gateway';
+export { Gateway, type GatewayConfig, type GatewayDependencies, type CompletedTurn } from './gateway';
 export { BindingsRouter } from './router';
+export { ReplyStream } from './reply';
@@ -0,0 +1,140 @@
+import type { IChannel, SendMessageOptions } from '../types/channel';
+import type { ContentBlock, ReplyStatus, UnifiedReply } from '../types/message';
+import { logger } from '../utils/logger';
+
+const DEFAULT_THROTTLE_MS = 300;
+
+export class ReplyStream {
+  private channel: IChannel;
+  private chatId: string;
+  private messageId?: string;
+  private text = '';
+  private thinking = '';
+  private notice?: string;
+  private throttleMs: number;
+  private lastUpdateAt = 0;
+  private pendingTimer?: ReturnType<typeof setTimeout>;
+  private updateChain: Promise<void> = Promise.resolve();
+  private finished = false;
+  private sendOptions?: SendMessageOptions;
+
+  constructor(channel: IChannel, chatId: string, sendOptions?: SendMessageOptions) {
+    this.channel = channel;
+    this.chatId = chatId;
+    this.sendOptions = sendOptions;
+    this.throttleMs = channel.capabilities.streamingThrottleMs ?? DEFAULT_THROTTLE_MS;
+  }
+
+  /** Sends the placeholder reply, or turns an existing message (e.g. a queue card) into it. */
+  async start(placeholder = '正在思考...', existingMessageId?: string): Promise<string> {
+    const reply: UnifiedReply = {
+      status: 'pending',
+      blocks: [{ type: 'text', content: placeholder }],
+    };
+
+    if (existingMessageId) {
+      const result = await this.channel.updateMessage(existingMessageId, reply);
+      if (result.success) {
+        this.messageId = existingMessageId;
+        this.lastUpdateAt = Date.now();
+        return this.messageId;
+      }
+    }
+
+    this.messageId = await this.channel.sendMessage(this.chatId, reply, this.sendOptions);
+    this.lastUpdateAt = Date.now();
+    return this.messageId;
+  }
+
+  getMessageId(): string | undefined {
+    return this.messageId;
+  }
+
+  getText(): string {
+    return this.text;
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  reset(): void {
+    this.text = '';
+    this.thinking = '';
+    this.scheduleUpdate();
+  }
+
+  appendText(delta: string): void {
+    if (!delta) return;
+    this.text += delta;
+    this.scheduleUpdate();
+  }
+
+  appendThinking(delta: string): void {
+    if (!delta) return;
+    this.thinking += delta;
+  }
+
+  setNotice(notice: string | undefined): void {
+    this.notice = notice;
+    this.scheduleUpdate();
+  }
+
+  async finish(status: ReplyStatus, extraBlocks: ContentBlock[] = []): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = undefined;
+    }
+
+    this.enqueueUpdate(this.buildReply(status, extraBlocks));
+    await this.updateChain;
+  }
+
+  private scheduleUpdate(): void {
+    if (this.finished || this.pendingTimer || !this.messageId) return;
+
+    const delay = Math.max(0, this.throttleMs - (Date.now() - this.lastUpdateAt));
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = undefined;
+      if (!this.finished) {
+        this.enqueueUpdate(this.buildReply('streaming'));
+      }
+    }, delay);
+  }
+
+  private enqueueUpdate(reply: UnifiedReply): void {
+    this.updateChain = this.updateChain
+      .then(async () => {
+        if (!this.messageId) return;
+        this.lastUpdateAt = Date.now();
+        await this.channel.updateMessage(this.messageId, reply);
+      })
+      .catch((error) => {
+        logger.error('Failed to update reply', { chatId: this.chatId, messageId: this.messageId, error });
+      });
+  }
+
+  private buildReply(status: ReplyStatus, extraBlocks: ContentBlock[] = []): UnifiedReply {
+    const blocks: ContentBlock[] = [];
+
+    if (this.notice) {
+      blocks.push({ type: 'text', content: this.notice });
+    }
+    if (this.text) {
+      blocks.push({ type: 'text', content: this.text });
+    }
+    blocks.push(...extraBlocks);
+
+    const reply: UnifiedReply = { status, blocks };
+
+    if (this.thinking) {
+      reply.blocks = [{ type: 'thinking', content: this.thinking }, ...blocks];
+      reply.showThinking = true;
+    }
+
+    return reply;
+  }
+}
@@ -1,11 +1,23 @@
-import type { Binding, BindingMatch, BindingContext, BindingResult, IBindingsRouter } from '../types/binding';
+import type {
+  Binding,
+  BindingMatch,
+  BindingContext,
+  BindingResult,
+  BindingTimeWindow,
+  BindingConditionCheck,
+  BindingEvaluation,
+  RouteExplanation,
+  IBindingsRouter,
+} from '../types/binding';
 
 export class BindingsRouter implements IBindingsRouter {
   private bindings: Binding[] = [];
   private defaultAgent: string;
+  private defaultFallbackAgents: string[];
 
-  constructor(defaultAgent: string) {
+  constructor(defaultAgent: string, defaultFallbackAgents: string[] = []) {
     this.defaultAgent = defaultAgent;
+    this.defaultFallbackAgents = defaultFallbackAgents;
   }
 
   addBinding(binding: Binding): void {
@@ -40,18 +52,29 @@ export class BindingsRouter implements IBindingsRouter {
     }
 
     return {
-      binding: {
-        id: 'default',
-        agentId: this.defaultAgent,
-        priority: -1,
-        enabled: true,
-        match: {},
-      },
+      binding: this.getDefaultBinding(),
       agentId: this.defaultAgent,
       matchedBy: ['default'],
     };
   }
 
+  explain(context: BindingContext): RouteExplanation {
+    const result = this.route(context);
+
+    const evaluations = this.bindings.map((binding): BindingEvaluation => {
+      const checks = binding.match ? this.evaluateConditions(binding.match, context) : [];
+      return {
+        binding,
+        enabled: binding.enabled,
+        matched: binding.enabled && checks.every(c => c.passed),
+        selected: binding === result.binding,
+        checks,
+      };
+    });
+
+    return { context, result, evaluations };
+  }
+
   getBindings(): Binding[] {
     return [...this.bindings];
   }
@@ -68,6 +91,17 @@ export class BindingsRouter implements IBindingsRouter {
     this.defaultAgent = agentId;
   }
 
+  private getDefaultBinding(): Binding {
+    return {
+      id: 'default',
+      agentId: this.defaultAgent,
+      priority: -1,
+      enabled: true,
+      match: {},
+      fallbackAgents: this.defaultFallbackAgents,
+    };
+  }
+
   private sortBindings(): void {
     this.bindings.sort((a, b) => b.priority - a.priority);
   }
@@ -76,47 +110,79 @@ export class BindingsRouter implements IBindingsRouter {
     const match = binding.match;
     if (!match) return ['wildcard'];
 
-    const matchedBy: string[] = [];
+    const checks = this.evaluateConditions(match, context);
+    if (!checks.every(c => c.passed)) return [];
+    return checks.length > 0 ? checks.map(c => c.condition) : ['wildcard'];
+  }
+
+  private evaluateConditions(match: BindingMatch, context: BindingContext): BindingConditionCheck[] {
+    const checks: BindingConditionCheck[] = [];
+    const check = (condition: string, passed: boolean, expected: unknown, actual: unknown) => {
+      checks.push({ condition, passed, expected: describeValue(expected), actual: describeValue(actual) });
+    };
 
     if (match.channelId !== undefined) {
-      if (!this.matchValue(match.channelId, context.channelId)) return [];
-      matchedBy.push('channelId');
+      check('channelId', this.matchValue(match.channelId, context.channelId), match.channelId, context.channelId);
     }
 
     if (match.channelType !== undefined) {
-      if (!this.matchValue(match.channelType, context.channelType)) return [];
-      matchedBy.push('channelType');
+      check('channelType', this.matchValue(match.channelType, context.channelType), match.channelType, context.channelType);
     }
 
     if (match.chatType !== undefined && match.chatType !== '*') {
-      if (match.chatType !== context.chatType) return [];
-      matchedBy.push('chatType');
+      check('chatType', match.chatType === context.chatType, match.chatType, context.chatType);
     }
 
     if (match.chatId !== undefined) {
-      if (!this.matchValue(match.chatId, context.chatId)) return [];
-      matchedBy.push('chatId');
+      check('chatId', this.matchValue(match.chatId, context.chatId), match.chatId, context.chatId);
     }
 
     if (match.userId !== undefined) {
-      if (!this.matchValue(match.userId, context.userId)) return [];
-      matchedBy.push('userId');
+      check('userId', this.matchValue(match.userId, context.userId), match.userId, context.userId);
     }
 
     if (match.messagePattern !== undefined && context.messageText) {
       const pattern = typeof match.messagePattern === 'string' 
         ? new RegExp(match.messagePattern) 
         : match.messagePattern;
-      if (!pattern.test(context.messageText)) return [];
-      matchedBy.push('messagePattern');
+      check('messagePattern', pattern.test(context.messageText), pattern, context.messageText);
+    }
+
+    if (match.messageType !== undefined) {
+      const passed = context.messageType !== undefined && this.matchValue(match.messageType, context.messageType);
+      check('messageType', passed, match.messageType, context.messageType);
+    }
+
+    if (match.mentionedBot !== undefined) {
+      const actual = context.mentionedBot ?? false;
+      check('mentionedBot', actual === match.mentionedBot, match.mentionedBot, actual);
+    }
+
+    if (match.isSessionGroup !== undefined) {
+      const actual = context.isSessionGroup ?? false;
+      check('isSessionGroup', actual === match.isSessionGroup, match.isSessionGroup, actual);
+    }
+
+    if (match.timeWindow !== undefined) {
+      const timestamp = context.timestamp ?? Date.now();
+      check('timeWindow', matchTimeWindow(match.timeWindow, timestamp), match.timeWindow, describeLocalTime(timestamp, match.timeWindow.timezone));
+    }
+
+    if (match.not !== undefined) {
+      const inner = this.evaluateConditions(match.not, context);
+      check('not', !inner.every(c => c.passed), match.not, summarizeChecks(inner));
+    }
+
+    if (match.any !== undefined) {
+      const branches = match.any.map(sub => this.evaluateConditions(sub, context));
+      check('any', branches.some(b => b.every(c => c.passed)), match.any, branches.map(summarizeChecks).join(' | '));
     }
 
     if (match.custom !== undefined) {
-      if (!match.custom(context)) return [];
-      matchedBy.push('custom');
+      check('custom', match.custom(context), '(function)', undefined);
     }
 
-    return matchedBy.length > 0 ? matchedBy : ['wildcard'];
+    return checks;
   }
 
   private matchValue(pattern: string | string[], value: string): boolean {
@@ -126,3 +192,74 @@ export class BindingsRouter implements IBindingsRouter {
     return pattern === value;
   }
 }
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return hours * 60 + minutes;
+}
+
+function getLocalTime(timestamp: number, timezone?: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function describeLocalTime(timestamp: number, timezone?: string): string {
+  const { weekday, minutes } = getLocalTime(timestamp, timezone);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `weekday ${weekday} ${hh}:${mm}${timezone ? ` (${timezone})` : ''}`;
+}
+
+function describeValue(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  if (value instanceof RegExp) return value.toString();
+  return JSON.stringify(value);
+}
+
+function summarizeChecks(checks: BindingConditionCheck[]): string {
+  if (checks.length === 0) return 'wildcard';
+  return checks.map(c => `${c.condition}${c.passed ? '✓' : '✗'}`).join(',');
+}
+
+export function matchTimeWindow(window: BindingTimeWindow, timestamp: number): boolean {
+  const { weekday, minutes } = getLocalTime(timestamp, window.timezone);
+
+  if (window.weekdays && window.weekdays.length > 0) {
+    const days = window.weekdays.map(d => d % 7);
+    if (!days.includes(weekday)) return false;
+  }
+
+  const start = window.start !== undefined ? parseTimeOfDay(window.start) : 0;
+  const end = window.end !== undefined ? parseTimeOfDay(window.end) : 24 * 60;
+
+  if (start === end) return true;
+  if (start < end) {
+    return minutes >= start && minutes < end;
+  }
+  return minutes >= start || minutes < end;
+}
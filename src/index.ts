@@ -1,20 +1,24 @@
-import { loadConfig, getAdminUserIds, getDefaultProjectPath, getProjects, getAvailableModels, getDefaultModel, getMcpConfig } from './config';
+import { loadConfig, findProject, getProjectRoots, getCommandAliases, getProjectInstructions, getAdminUserIds, getDefaultProjectPath, getProjects, getAvailableModels, getDefaultModel, getMcpConfig, getAgentsConfig, getBindingsConfig, getQueueConfig, getSessionConfig, getDatabasePath } from './config';
 import { parseArgs, formatHelp, getVersion, isValidLogLevel } from './cli';
 import { logger, setLogLevel } from './utils/logger';
 import { setupGlobalErrorHandling } from './utils/reconnect';
 import { Gateway } from './gateway';
 import { FeishuChannel } from './channels/feishu';
 import { OpencodeAgent } from './agent/opencode';
+import { createAgentRegistry } from './agent/registry';
 import { createHookManager } from './hooks';
 import { createPluginManager, type PluginManagerDependencies } from './plugins';
 import { McpHub } from './mcp';
 import { createFeishuMcpServer } from './mcp/servers/feishu';
-import { createSessionManager } from './session';
+import { createSessionManager, createSessionSearchIndex, createCompactionManager, createProjectMemory } from './session';
+import { createQueueStore } from './queue';
+import { createDatabase } from './storage';
 import { createCommandHandler } from './commands/handler';
+import { createCommandRegistry } from './commands/registry';
 import { isCommand } from './commands/parser';
 import { createFeishuApiClient } from './feishu/api';
-import type { MessageEvent } from './types/channel';
-import type { ContentBlock, ReplyStatus } from './types/message';
+import type { BindingContext } from './types/binding';
+import type { SessionKey } from './types/session';
 
 async function listAvailableModels(): Promise<void> {
   const agent = new OpencodeAgent({});
@@ -71,6 +75,8 @@ async function main(): Promise<void> {
   const adminUserIds = getAdminUserIds(config);
   const projects = getProjects(config);
   const availableModels = getAvailableModels(config);
+  const database = createDatabase(getDatabasePath(config));
+  const searchIndex = createSessionSearchIndex(database);
   
   const mcpHub = new McpHub();
   const hookManager = createHookManager();
@@ -79,22 +85,305 @@ async function main(): Promise<void> {
     appId: config.feishuAppId,
     appSecret: config.feishuAppSecret,
   });
+  if (config.docs?.defaultFolderToken) {
+    channel.getFeishuClient().setDefaultDocumentFolder(config.docs.defaultFolderToken);
+  }
+  
+  const bindingsConfig = getBindingsConfig(config);
+  const queueConfig = getQueueConfig(config);
+  const sessionConfig = getSessionConfig(config);
+  const agentConfigs = getAgentsConfig(config);
+  const agentRegistry = createAgentRegistry({ defaultProjectPath });
+  const agents = agentRegistry.createAll(agentConfigs.length > 0 ? agentConfigs : [{
+    id: bindingsConfig.defaultAgent,
+    name: 'OpenCode',
+    type: 'opencode',
+    enabled: true,
+  }]);
+  
+  const agent = agents.find(a => a.id === bindingsConfig.defaultAgent);
+  if (!agent) {
+    throw new Error(`默认 Agent ${bindingsConfig.defaultAgent} 不可用，请检查 [bindings] default_agent 与 [[agents]] 配置`);
+  }
   
-  const agent = new OpencodeAgent({
-    directory: defaultProjectPath,
+  const feishuClient = channel.getFeishuClient();
+  const projectMemory = createProjectMemory({}, {
+    database,
+    createDocument: async (title) => {
+      const result = await feishuClient.createDocument({ title });
+      return result.success && result.data ? { documentId: result.data.documentId, url: result.data.url } : null;
+    },
+    appendToDocument: async (documentId, content) =>
+      (await feishuClient.getDocumentWriter().appendContent(documentId, content)).success,
+    sendMessage: (chatId, text) => channel.sendTextMessage(chatId, text),
+    pinMessage: (messageId) => feishuClient.pinMessage(messageId),
+    getProjectName: (projectPath) => findProject(projects, projectPath)?.name,
   });
   
-  const gateway = new Gateway({
-    defaultAgent: 'opencode',
-    maxConcurrency: 10,
+  const compactionManager = createCompactionManager(
+    {
+      autoCompactEnabled: sessionConfig.autoCompact,
+      compactAtPercent: sessionConfig.compactAtPercent,
+      preCompactMemoryFlush: sessionConfig.memoryFlush,
+    },
+    {
+      getAgent: (id) => gateway.getAgent(id),
+      notify: (chatId, text) => channel.sendTextMessage(chatId, text),
+      flushMemory: async (target, targetAgent) => !!target.projectPath && projectMemory.flush(
+        { chatId: target.chatId, sessionId: target.sessionId, projectPath: target.projectPath },
+        targetAgent
+      ),
+    }
+  );
+  
+  const commands = createCommandRegistry({
+    getCommand: (name) => pluginManager.getCommand(name),
+    listCommands: () => pluginManager.listCommands(),
+  }, getCommandAliases(config));
+
+  const commandHandler = createCommandHandler(channel, agent, {
+    projects,
+    availableModels,
+    defaultProjectPath,
+    defaultModel,
+    adminUserIds,
+    commands,
+    projectRoots: getProjectRoots(config, defaultProjectPath),
+    getAgent: (id) => gateway.getAgent(id),
+    whitelist: new Set(database.getWhitelist()),
+    onWhitelistChange: (whitelist) => database.replaceWhitelist(whitelist),
+    loadSession: (key) => {
+      const preferences = database.getChatPreferences(key);
+      const mapping = database.getChatSession(key);
+      if (!preferences && !mapping) return undefined;
+      return {
+        projectPath: preferences?.projectPath ?? defaultProjectPath,
+        model: preferences?.model ?? defaultModel,
+        queueMode: preferences?.queueMode,
+        keyType: preferences?.keyType,
+        sessionId: mapping?.sessionId,
+        agentId: mapping?.agentId,
+      };
+    },
+    onSessionChange: (key, session) => {
+      database.setChatPreferences(key, {
+        projectPath: session.projectPath,
+        model: session.model,
+        queueMode: session.queueMode,
+        keyType: session.keyType,
+      });
+      if (session.sessionId) {
+        database.setChatSession(key, session.sessionId, session.agentId);
+      } else {
+        database.deleteChatSession(key);
+      }
+    },
+    onChatDeleted: (chatId) => database.deleteChatState(chatId),
+    listPlugins: () => pluginManager.listPluginInfo().map(({ manifest }) => ({
+      name: manifest.name,
+      version: manifest.version,
+      loaded: pluginManager.isLoaded(manifest.name),
+    })),
+    setPluginEnabled: async (name, enabled) => {
+      if (enabled) {
+        await pluginManager.load(name);
+      } else {
+        await pluginManager.unload(name);
+      }
+    },
+    getQueueSnapshot: () => gateway.getQueue().getSnapshot(),
+    listIdleStatus: () => sessionManager.listIdleStatus(),
+    setIdlePolicy: (chatId, policy) => sessionManager.setIdlePolicy(chatId, policy),
+    forkSession: async (context, session, title) => {
+      const agentId = session.agentId ?? agent.id;
+      const group = await sessionManager.createSessionGroup(context.userId, session.projectPath, {
+        title,
+        model: session.model,
+        agentId,
+        forkFrom: { chatId: context.chatId, agentSessionId: session.sessionId! },
+      });
+      const forked = sessionManager.getSession(group.sessionKey)!;
+      return { chatId: group.chatId, sessionId: forked.agentSessionId, agentId };
+    },
+    getSessionLineage: (chatId) => sessionManager.getLineage(chatId),
+    getSessionGroup: (chatId) => sessionManager.getSessionGroup(chatId),
+    deleteSessionGroup: (chatId) => sessionManager.deleteSessionGroup(chatId),
+    searchSessions: (userId, query) => searchIndex.search(userId, query).map(hit => ({
+      ...hit,
+      activeGroup: sessionManager.isSessionGroup(hit.chatId),
+    })),
+    reopenSession: async (context, target) => {
+      const agentId = target.agentId ?? agent.id;
+      const group = await sessionManager.createSessionGroup(context.userId, target.projectPath, {
+        title: target.title,
+        model: commandHandler.getProjectDefaults(target.projectPath).model,
+        agentId,
+        resumeSessionId: target.sessionId,
+      });
+      return { chatId: group.chatId, sessionId: target.sessionId, agentId };
+    },
+    compactSession: (context, session) => compactionManager.compact({
+      chatId: context.chatId,
+      agentId: session.agentId ?? agent.id,
+      sessionId: session.sessionId!,
+      model: session.model,
+      projectPath: session.projectPath,
+    }),
+    getContextUsage: (session) => session.sessionId ? compactionManager.getUsage(session.sessionId) : undefined,
+    loadTranscript: async (session) => {
+      const sessionAgent = gateway.getAgent(session.agentId ?? agent.id);
+      if (!session.sessionId || !(sessionAgent instanceof OpencodeAgent)) return null;
+      const wrapper = sessionAgent.getWrapper();
+      const detail = await wrapper.getSessionDetail(session.sessionId);
+      if (!detail) return null;
+      return {
+        sessionId: detail.id,
+        title: detail.title,
+        projectPath: session.projectPath,
+        model: session.model,
+        messages: await wrapper.getSessionMessages(session.sessionId),
+        summary: detail.summary,
+      };
+    },
+    explainRoute: (context, text) => gateway.explainRoute({
+      channelId: channel.id,
+      channelType: channel.type,
+      chatId: context.chatId,
+      chatType: context.chatType ?? 'private',
+      userId: context.userId,
+      messageText: text || undefined,
+      messageType: 'text',
+      isSessionGroup: sessionManager.isSessionGroup(context.chatId),
+      timestamp: Date.now(),
+    }),
   });
   
+  const getSessionKey = (context: BindingContext): SessionKey => ({
+    channelId: context.channelId,
+    chatId: context.chatId,
+    userId: context.userId,
+    keyType: commandHandler.getKeyType(context.chatId),
+  });
+  
+  const gateway = new Gateway(
+    {
+      defaultAgent: bindingsConfig.defaultAgent,
+      defaultFallbackAgents: bindingsConfig.defaultFallbackAgents,
+      bindings: bindingsConfig.rules,
+      maxConcurrency: queueConfig.maxConcurrency,
+      collectWindowMs: queueConfig.collectWindowMs,
+      taskTimeoutMs: queueConfig.taskTimeoutMs,
+      maxConcurrencyPerUser: queueConfig.maxPerUser,
+      maxConcurrencyPerGroup: queueConfig.maxPerGroup,
+      userWeights: Object.fromEntries(adminUserIds.map(id => [id, queueConfig.adminWeight])),
+    },
+    {
+      hookManager,
+      queueStore: queueConfig.persist ? createQueueStore(database) : undefined,
+      interceptMessage: async (event) => {
+        const { chatId, senderId, content } = event;
+        logger.debug('收到消息', { chatId, senderId, type: event.messageType });
+        await sessionManager.restoreArchivedGroup(chatId);
+        
+        const context = {
+          chatId,
+          userId: senderId,
+          isAdmin: commandHandler.isAdmin(senderId),
+          chatType: event.chatType,
+        };
+        if (!isCommand(content)) {
+          return !await commandHandler.checkProjectAccess(context);
+        }
+        
+        const result = await commandHandler.handle(content, context);
+        return result.handled;
+      },
+      isDuplicateMessage: (event) => {
+        if (sessionManager.isDuplicateEvent(event.messageId)) return true;
+        sessionManager.markEventProcessed(event.messageId);
+        return false;
+      },
+      isSessionGroup: (_channelId, chatId) => sessionManager.isSessionGroup(chatId),
+      getQueueMode: (context) => commandHandler.getSession(context.chatId, context.userId).queueMode,
+      getSessionKeyType: (context) => commandHandler.getKeyType(context.chatId),
+      getTaskTimeout: (context) => {
+        const { projectPath } = commandHandler.getSession(context.chatId, context.userId);
+        return findProject(projects, projectPath)?.timeoutMs;
+      },
+      getSystemPrompt: (context) => {
+        const { projectPath } = commandHandler.getSession(context.chatId, context.userId);
+        const project = findProject(projects, projectPath);
+        return project && getProjectInstructions(project);
+      },
+      getDefaultAgent: (context) => {
+        const { projectPath } = commandHandler.getSession(context.chatId, context.userId);
+        return findProject(projects, projectPath)?.agent;
+      },
+      onTurnStarted: (context, turn) => {
+        const { projectPath, model } = commandHandler.getSession(context.chatId, context.userId);
+        sessionManager.startTurn(getSessionKey(context), {
+          agentId: turn.agentId,
+          agentSessionId: turn.sessionId,
+          projectPath,
+          model,
+          messageId: String(context.metadata?.messageId ?? ''),
+        });
+      },
+      onTurnEnded: (context) => sessionManager.completeTask(getSessionKey(context)),
+      onTurnCompleted: async (turn) => {
+        const { chatId, userId } = turn.context;
+        const { projectPath, model } = commandHandler.getSession(chatId, userId);
+        searchIndex.recordTurn({
+          userId,
+          chatId,
+          sessionId: turn.sessionId,
+          agentId: turn.agentId,
+          projectPath,
+          prompt: turn.prompt,
+          reply: turn.reply,
+          completedAt: turn.completedAt,
+        });
+        await compactionManager.recordUsage(
+          { chatId, agentId: turn.agentId, sessionId: turn.sessionId, model: turn.model ?? model, projectPath },
+          turn.usage
+        );
+
+        const turnAgent = gateway.getAgent(turn.agentId);
+        if (sessionManager.getSessionGroup(chatId)?.title || !(turnAgent instanceof OpencodeAgent)) return;
+        const detail = await turnAgent.getWrapper().getSessionDetail(turn.sessionId);
+        if (detail?.title) {
+          searchIndex.recordTitle({ userId, chatId, sessionId: turn.sessionId, agentId: turn.agentId, projectPath, title: detail.title });
+        }
+      },
+      handleCardAction: async (event) => {
+        await commandHandler.handleCardAction(event.actionValue, {
+          chatId: event.chatId,
+          userId: event.operatorId,
+          isAdmin: commandHandler.isAdmin(event.operatorId),
+        });
+      },
+      resolveSession: async (context, routedAgent) => {
+        const session = commandHandler.getSession(context.chatId, context.userId);
+        if (session.sessionId && (session.agentId ?? agent.id) === routedAgent.id) {
+          if (await routedAgent.resumeSession(session.sessionId, session.projectPath, session.model)) {
+            return session.sessionId;
+          }
+          logger.warn('Stored session is gone, creating a new one', { chatId: context.chatId, sessionId: session.sessionId });
+        }
+        
+        const sessionId = await routedAgent.createSession(session.projectPath, session.model);
+        commandHandler.setSessionId(context.chatId, sessionId, routedAgent.id, context.userId);
+        return sessionId;
+      },
+    }
+  );
+  
   const sessionManager = createSessionManager(
     {
       keyType: 'chat',
-      idleTimeoutMs: 30 * 60 * 1000,
-      autoCompact: true,
-      compactThreshold: 50,
+      idleTimeoutMs: sessionConfig.idleTimeoutMinutes * 60 * 1000,
+      archiveAfterMs: sessionConfig.archiveAfterDays * 24 * 60 * 60 * 1000,
+      disbandOnArchive: sessionConfig.disbandOnArchive,
     },
     {
       getAgent: (id) => gateway.getAgent(id),
@@ -105,6 +394,8 @@ async function main(): Promise<void> {
       },
       updateChatName: (chatId, name) => channel.updateChatName(chatId, name),
       deleteChat: (chatId) => channel.deleteChat(chatId),
+      database,
+      searchIndex,
     }
   );
   
@@ -130,106 +421,27 @@ async function main(): Promise<void> {
     registerChannel: (ch) => gateway.registerChannel(ch),
     registerAgent: (ag) => gateway.registerAgent(ag),
     registerMcpServer: (server) => mcpHub.registerServer(server),
+    isReservedCommand: (name) => commands.isBuiltin(name),
   };
   
-  createPluginManager({}, pluginDeps);
+  const pluginManager = createPluginManager({}, pluginDeps);
   
   gateway.registerChannel(channel);
-  gateway.registerAgent(agent);
-  
-  const commandHandler = createCommandHandler(channel, agent, {
-    projects,
-    availableModels,
-    defaultProjectPath,
-    defaultModel,
-    adminUserIds,
-  });
-  
-  channel.on('message', async (event) => {
-    const msgEvent = event as MessageEvent;
-    const { chatId, senderId, content } = msgEvent;
-    
-    logger.debug('收到消息', { chatId, senderId, type: msgEvent.messageType });
-    
-    const text = content || '';
-    
-    if (isCommand(text)) {
-      const result = await commandHandler.handle(text, {
-        chatId,
-        userId: senderId,
-        isAdmin: commandHandler.isAdmin(senderId),
-      });
-      
-      if (result.handled) {
-        return;
-      }
-    }
-    
-    if (!text.trim()) {
-      return;
-    }
-    
-    try {
-      const session = commandHandler.getSession(chatId);
-      
-      let sessionId = session.sessionId;
-      if (!sessionId) {
-        sessionId = await agent.createSession(session.projectPath, session.model);
-        commandHandler.setSessionId(chatId, sessionId);
-      }
-      
-      const initialReply = createReply('pending', [{ type: 'text', content: '正在思考...' }]);
-      const messageId = await channel.sendMessage(chatId, initialReply);
-      
-      let fullContent = '';
-      let thinkingContent = '';
-      
-      const unsubscribe = agent.subscribe(sessionId, async (agentEvent) => {
-        try {
-          switch (agentEvent.type) {
-            case 'thinking.delta':
-              thinkingContent += agentEvent.delta;
-              break;
-              
-            case 'message.delta':
-              fullContent += agentEvent.delta;
-              const streamingReply = createReply('streaming', [{ type: 'text', content: fullContent }], thinkingContent);
-              await channel.updateMessage(messageId, streamingReply);
-              break;
-              
-            case 'message.complete':
-              const completeReply = createReply('completed', [{ type: 'text', content: fullContent }], thinkingContent);
-              await channel.updateMessage(messageId, completeReply);
-              unsubscribe();
-              break;
-              
-            case 'error':
-              const errorReply = createReply('error', [{ type: 'error', message: agentEvent.message }]);
-              await channel.updateMessage(messageId, errorReply);
-              unsubscribe();
-              break;
-          }
-        } catch (updateError) {
-          logger.error('更新消息失败', { error: updateError });
-        }
-      });
-      
-      await agent.send(sessionId, text);
-      
-    } catch (error) {
-      logger.error('处理消息失败', { chatId, error });
-      await channel.sendTextMessage(chatId, `处理消息时出错: ${error instanceof Error ? error.message : '未知错误'}`);
-    }
-  });
+  for (const runtime of agents) {
+    gateway.registerAgent(runtime);
+  }
   
   await gateway.start();
+  await sessionManager.resumeSessions();
   
-  const opencodeUrl = agent.getWrapper().getServerUrl();
+  const opencodeUrl = agent instanceof OpencodeAgent ? agent.getWrapper().getServerUrl() : null;
   
   logger.info('飞书 OpenCode 机器人启动成功');
   logger.info('配置信息', {
     appId: config.feishuAppId.substring(0, 8) + '...',
     opencodeUrl,
+    agents: agents.map(a => a.id),
+    bindings: bindingsConfig.rules.length,
     defaultProject: defaultProjectPath,
     defaultModel: defaultModel || '(未设置)',
     adminCount: adminUserIds.length,
@@ -239,8 +451,10 @@ async function main(): Promise<void> {
     logger.info(`收到 ${signal} 信号，正在关闭...`);
     
     sessionManager.shutdown();
+    compactionManager.shutdown();
     await gateway.stop();
     hookManager.clear();
+    database.close();
     
     logger.info('关闭完成');
     process.exit(0);
@@ -250,24 +464,6 @@ async function main(): Promise<void> {
   process.on('SIGTERM', () => shutdown('SIGTERM'));
 }
 
-function createReply(status: ReplyStatus, blocks: ContentBlock[], thinking?: string): {
-  status: ReplyStatus;
-  blocks: ContentBlock[];
-  showThinking?: boolean;
-} {
-  const result: { status: ReplyStatus; blocks: ContentBlock[]; showThinking?: boolean } = {
-    status,
-    blocks,
-  };
-  
-  if (thinking) {
-    result.blocks = [{ type: 'thinking', content: thinking }, ...blocks];
-    result.showThinking = true;
-  }
-  
-  return result;
-}
-
 main().catch((error) => {
   logger.error('致命错误', error);
   process.exit(1);
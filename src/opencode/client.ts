@@ -4,6 +4,7 @@
  */
 import { createOpencode, createOpencodeClient, createOpencodeServer, type OpencodeClient } from '@opencode-ai/sdk';
 import type { Event, TextPart, ReasoningPart, ToolPart, Message } from '@opencode-ai/sdk/client';
+import type { TokenUsage } from '../types/agent';
 import { logger } from '../utils/logger';
 
 /** OpenCode 配置 */
@@ -100,8 +101,40 @@ export class OpencodeWrapper {
     return response.data.id;
   }
 
+  /** 分叉会话（复制到指定消息为止的历史） */
+  async forkSession(sessionId: string, messageId?: string): Promise<string> {
+    const client = this.ensureClient();
+    const response = await client.session.fork({
+      path: { id: sessionId },
+      query: { directory: this.directory },
+      body: messageId ? { messageID: messageId } : undefined,
+    });
+    
+    if (!response.data) {
+      throw new Error('分叉会话失败：未返回数据');
+    }
+    
+    return response.data.id;
+  }
+
+  /** 注入上下文（写入会话历史但不触发回复） */
+  async injectContext(sessionId: string, text: string): Promise<void> {
+    const client = this.ensureClient();
+    await client.session.promptAsync({
+      path: { id: sessionId },
+      query: { directory: this.directory },
+      body: { parts: [{ type: 'text', text }], noReply: true },
+    });
+  }
+
   /** 发送提示消息 */
-  async sendPrompt(sessionId: string, prompt: string, images?: ImageAttachment[], model?: { providerID: string; modelID: string }): Promise<void> {
+  async sendPrompt(
+    sessionId: string,
+    prompt: string,
+    images?: ImageAttachment[],
+    model?: { providerID: string; modelID: string },
+    system?: string
+  ): Promise<void> {
     const client = this.ensureClient();
     
     logger.info('OpenCode sendPrompt', { sessionId, model, hasImages: images && images.length > 0 });
@@ -129,7 +162,7 @@ export class OpencodeWrapper {
     await client.session.promptAsync({
       path: { id: sessionId },
       query: { directory: this.directory },
-      body: { parts, model },
+      body: { parts, model, system },
     });
   }
 
@@ -301,15 +334,17 @@ export class OpencodeWrapper {
   }
 
   /** 获取可用模型列表 */
-  async listModels(): Promise<Array<{ id: string; name: string; providerId: string }>> {
+  async listModels(): Promise<Array<{ id: string; name: string; providerId: string; contextWindow?: number }>> {
     try {
       const client = this.ensureClient();
       const response = await client.config.providers({
         query: { directory: this.directory },
       });
       
-      const models: Array<{ id: string; name: string; providerId: string }> = [];
-      const data = response.data as { providers?: Array<{ id: string; models?: Record<string, { id: string; name: string }> }> };
+      const models: Array<{ id: string; name: string; providerId: string; contextWindow?: number }> = [];
+      const data = response.data as {
+        providers?: Array<{ id: string; models?: Record<string, { id: string; name: string; limit?: { context?: number } }> }>;
+      };
       
       if (data?.providers) {
         for (const provider of data.providers) {
@@ -319,6 +354,7 @@ export class OpencodeWrapper {
                 id: `${provider.id}/${model.id}`,
                 name: model.name,
                 providerId: provider.id,
+                contextWindow: model.limit?.context || undefined,
               });
             }
           }
@@ -526,6 +562,28 @@ export function extractSubtaskFromPart(part: unknown): SubtaskInfo | null {
   return null;
 }
 
+/** 从助手消息的 info 提取 Token 统计 */
+export function extractTokenUsage(info: unknown): TokenUsage | null {
+  if (!info || typeof info !== 'object') return null;
+
+  const m = info as Record<string, unknown>;
+  const tokens = m.tokens as { input?: number; output?: number; cache?: { read?: number; write?: number } } | undefined;
+  if (m.role !== 'assistant' || !tokens) return null;
+
+  const inputTokens = tokens.input ?? 0;
+  const outputTokens = tokens.output ?? 0;
+  const cacheReadTokens = tokens.cache?.read ?? 0;
+  const cacheWriteTokens = tokens.cache?.write ?? 0;
+  if (inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens === 0) return null;
+
+  // 压缩产生的摘要消息读入的是旧上下文，压缩后只剩摘要本身
+  const contextTokens = m.summary === true
+    ? outputTokens
+    : inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens;
+
+  return { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens, contextTokens };
+}
+
 export { type Event, type TextPart, type ReasoningPart, type ToolPart, type Message };
 
 export interface ModelSelection {
@@ -7,7 +7,8 @@ import type {
   IPluginLoader,
   PluginLoaderConfig,
   CommandHandler,
-  CommandContext,
+  PluginCommandOptions,
+  RegisteredCommand,
 } from '../types/plugin';
 import type { IChannel } from '../types/channel';
 import type { IAgentRuntime } from '../types/agent';
@@ -23,12 +24,14 @@ export interface PluginManagerDependencies {
   registerChannel: (channel: IChannel) => void;
   registerAgent: (agent: IAgentRuntime) => void;
   registerMcpServer: (server: IMcpServer) => void;
+  /** Built-in command names plugins may not take over. */
+  isReservedCommand?: (name: string) => boolean;
 }
 
 export class PluginManager implements IPluginLoader {
   private plugins = new Map<string, IPlugin>();
   private pluginInfo = new Map<string, PluginInfo>();
-  private commands = new Map<string, { handler: CommandHandler; source: string }>();
+  private commands = new Map<string, RegisteredCommand>();
   private config: PluginLoaderConfig;
   private deps: PluginManagerDependencies;
 
@@ -105,8 +108,12 @@ export class PluginManager implements IPluginLoader {
     this.pluginInfo.set(info.manifest.name, info);
   }
 
-  getCommand(name: string): { handler: CommandHandler; source: string } | undefined {
-    return this.commands.get(name);
+  listPluginInfo(): PluginInfo[] {
+    return Array.from(this.pluginInfo.values());
+  }
+
+  getCommand(name: string): RegisteredCommand | undefined {
+    return this.commands.get(name.toLowerCase());
   }
 
   listCommands(): string[] {
@@ -139,11 +146,15 @@ export class PluginManager implements IPluginLoader {
         logger.debug('Plugin registered hook', { plugin: pluginName, event });
       },
 
-      registerCommand: (name: string, handler: CommandHandler) => {
+      registerCommand: (name: string, handler: CommandHandler, options: PluginCommandOptions = {}) => {
+        name = name.toLowerCase();
+        if (this.deps.isReservedCommand?.(name)) {
+          throw new Error(`Command ${name} is a built-in command`);
+        }
         if (this.commands.has(name)) {
           throw new Error(`Command ${name} already registered`);
         }
-        this.commands.set(name, { handler, source: pluginName });
+        this.commands.set(name, { ...options, handler, source: pluginName });
         logger.debug('Plugin registered command', { plugin: pluginName, command: name });
       },
 
@@ -1 +1,3 @@
-export { LaneQueue, type LaneQueueConfig, type QueuedTask } from './lane-queue';
+export { LaneQueue, type LaneQueueConfig, type QueuedTask, type QueueMode, type QueueEvent, type QueueEventListener, type LaneSnapshot } from './lane-queue';
+export { MemoryQueueStore, DatabaseQueueStore, createQueueStore, getPendingMessageId, toPersistedEvent } from './store';
+export type { QueueStore, PendingMessage, PendingMessageStatus, PersistedMessageEvent } from './store';
@@ -6,12 +6,18 @@ export type OverflowStrategy = 'drop' | 'reject' | 'wait';
 export interface QueuedTask<T = unknown> {
   id: string;
   sessionKey: string;
-  handler: () => Promise<T>;
+  handler: (signal: AbortSignal) => Promise<T>;
   mode: QueueMode;
   priority: number;
+  timeoutMs?: number;
+  /** Runs in the lane once the handler resolves, outside the timeout, before the next task starts. */
+  afterRun?: (result: T) => Promise<unknown> | unknown;
+  userId?: string;
+  groupId?: string;
   createdAt: number;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
+  interrupt?: () => void;
 }
 
 export interface LaneQueueConfig {
@@ -19,18 +25,72 @@ export interface LaneQueueConfig {
   maxQueueSize?: number;
   defaultMode?: QueueMode;
   overflowStrategy?: OverflowStrategy;
+  /** 0 means no timeout */
   taskTimeoutMs?: number;
+  collectWindowMs?: number;
+  /** 0 means unlimited */
+  maxConcurrencyPerUser?: number;
+  /** 0 means unlimited */
+  maxConcurrencyPerGroup?: number;
+  /** Scheduling weight per user, defaults to 1 */
+  userWeights?: Record<string, number>;
 }
 
+export interface LaneSnapshot {
+  sessionKey: string;
+  userId?: string;
+  groupId?: string;
+  processing: boolean;
+  pending: number;
+  waitingSince?: number;
+}
+
+export interface QueueEvent {
+  type: 'waiting' | 'moved' | 'started' | 'cancelled';
+  sessionKey: string;
+  taskId: string;
+}
+
+export type QueueEventListener = (event: QueueEvent) => void;
+
+/** Rejection reason of every caller whose queued task was cancelled, including all payloads of a collected batch. */
+export const TASK_CANCELLED = 'Task cancelled';
+
+/** Rejection reason of queued collect tasks dropped by a steer task. */
+export const SUPERSEDED_BY_STEER = 'Task superseded by steer mode';
+
+const DURATION_SAMPLE_SIZE = 20;
+
 interface Lane {
   queue: QueuedTask[];
   processing: boolean;
   currentTask?: QueuedTask;
 }
 
+interface Collector {
+  id?: string;
+  payloads: unknown[];
+  handler: (payloads: unknown[], signal: AbortSignal) => Promise<unknown>;
+  waiters: Array<{ resolve: (value: unknown) => void; reject: (error: Error) => void }>;
+  priority: number;
+  timeoutMs?: number;
+  afterRun?: (result: unknown) => Promise<unknown> | unknown;
+  userId?: string;
+  groupId?: string;
+  interrupt?: () => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
 export class LaneQueue {
   private lanes = new Map<string, Lane>();
+  /** Collectors whose window is still open, per lane */
+  private collectors = new Map<string, Collector[]>();
+  private listeners = new Set<QueueEventListener>();
+  private recentDurations: number[] = [];
   private globalConcurrency = 0;
+  private activeByUser = new Map<string, number>();
+  private activeByGroup = new Map<string, number>();
+  private userCredits = new Map<string, number>();
   private config: Required<LaneQueueConfig>;
   private taskIdCounter = 0;
 
@@ -40,16 +100,81 @@ export class LaneQueue {
       maxQueueSize: config.maxQueueSize ?? 100,
       defaultMode: config.defaultMode ?? 'collect',
       overflowStrategy: config.overflowStrategy ?? 'wait',
-      taskTimeoutMs: config.taskTimeoutMs ?? 300000,
+      taskTimeoutMs: config.taskTimeoutMs ?? 0,
+      collectWindowMs: config.collectWindowMs ?? 0,
+      maxConcurrencyPerUser: config.maxConcurrencyPerUser ?? 0,
+      maxConcurrencyPerGroup: config.maxConcurrencyPerGroup ?? 0,
+      userWeights: config.userWeights ?? {},
     };
   }
 
+  getDefaultMode(): QueueMode {
+    return this.config.defaultMode;
+  }
+
+  /**
+   * Buffers payloads of one user in a lane until no new payload from them arrives within
+   * `collectWindowMs`, then queues a single task with every payload collected so far.
+   * Once the window closes the batch is sealed, so later payloads start a new batch
+   * even while it still waits behind a busy lane; the handler of the first caller wins.
+   */
+  collect<P, T>(
+    sessionKey: string,
+    payload: P,
+    handler: (payloads: P[], signal: AbortSignal) => Promise<T>,
+    options?: {
+      id?: string;
+      priority?: number;
+      timeoutMs?: number;
+      afterRun?: (result: T) => Promise<unknown> | unknown;
+      userId?: string;
+      groupId?: string;
+      interrupt?: () => void;
+    }
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const waiter = { resolve: resolve as (value: unknown) => void, reject };
+      const open = this.collectors.get(sessionKey) ?? [];
+      const existing = open.find(c => c.userId === options?.userId);
+
+      if (existing) {
+        existing.payloads.push(payload);
+        existing.waiters.push(waiter);
+        clearTimeout(existing.timer);
+        existing.timer = setTimeout(() => this.flushCollector(sessionKey, existing), this.config.collectWindowMs);
+        return;
+      }
+
+      const collector: Collector = {
+        id: options?.id,
+        payloads: [payload],
+        handler: handler as (payloads: unknown[], signal: AbortSignal) => Promise<unknown>,
+        waiters: [waiter],
+        priority: options?.priority ?? 0,
+        timeoutMs: options?.timeoutMs,
+        afterRun: options?.afterRun as Collector['afterRun'],
+        userId: options?.userId,
+        groupId: options?.groupId,
+        interrupt: options?.interrupt,
+      };
+      collector.timer = setTimeout(() => this.flushCollector(sessionKey, collector), this.config.collectWindowMs);
+      open.push(collector);
+      this.collectors.set(sessionKey, open);
+    });
+  }
+
   async enqueue<T>(
     sessionKey: string,
-    handler: () => Promise<T>,
+    handler: (signal: AbortSignal) => Promise<T>,
     options?: {
+      id?: string;
       mode?: QueueMode;
       priority?: number;
+      timeoutMs?: number;
+      afterRun?: (result: T) => Promise<unknown> | unknown;
+      userId?: string;
+      groupId?: string;
+      interrupt?: () => void;
     }
   ): Promise<T> {
     const lane = this.getOrCreateLane(sessionKey);
@@ -69,36 +194,97 @@ export class LaneQueue {
 
     return new Promise<T>((resolve, reject) => {
       const task: QueuedTask<T> = {
-        id: `task_${++this.taskIdCounter}`,
+        id: options?.id ?? `task_${++this.taskIdCounter}`,
         sessionKey,
         handler,
         mode,
         priority,
+        timeoutMs: options?.timeoutMs,
+        afterRun: options?.afterRun,
+        userId: options?.userId,
+        groupId: options?.groupId,
         createdAt: Date.now(),
         resolve: resolve as (value: unknown) => void,
         reject,
+        interrupt: options?.interrupt,
       };
 
-      if (mode === 'steer' && lane.queue.length > 0) {
-        lane.queue = lane.queue.filter(t => {
-          if (t.mode === 'collect') {
-            t.reject(new Error('Task superseded by steer mode'));
-            return false;
-          }
-          return true;
-        });
-      }
+      if (mode === 'steer') {
+        if (lane.queue.length > 0) {
+          lane.queue = lane.queue.filter(t => {
+            if (t.mode === 'collect') {
+              t.reject(new Error(SUPERSEDED_BY_STEER));
+              return false;
+            }
+            return true;
+          });
+        }
+        this.interruptCurrent(lane);
 
-      this.insertByPriority(lane.queue, task as QueuedTask);
+        // The correction starts as soon as the running task stops, ahead of queued followups
+        const index = lane.queue.findIndex(t => t.mode !== 'steer');
+        lane.queue.splice(index === -1 ? lane.queue.length : index, 0, task as QueuedTask);
+      } else {
+        this.insertByPriority(lane.queue, task as QueuedTask);
+      }
       this.processLane(sessionKey);
+
+      if (lane.queue.includes(task as QueuedTask)) {
+        this.notify({ type: 'waiting', sessionKey, taskId: task.id });
+      }
     });
   }
 
-  async abort(sessionKey: string): Promise<number> {
+  subscribe(listener: QueueEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** 1-based position of a waiting task in its lane, or 0 if it is not waiting. */
+  getTaskPosition(sessionKey: string, taskId: string): number {
     const lane = this.lanes.get(sessionKey);
     if (!lane) return 0;
+    return lane.queue.findIndex(t => t.id === taskId) + 1;
+  }
+
+  getAverageTaskDuration(): number | undefined {
+    if (this.recentDurations.length === 0) return undefined;
+    const total = this.recentDurations.reduce((sum, ms) => sum + ms, 0);
+    return total / this.recentDurations.length;
+  }
+
+  /** Estimated wait before a waiting task starts, based on recent task durations. */
+  estimateWait(sessionKey: string, taskId: string): number | undefined {
+    const position = this.getTaskPosition(sessionKey, taskId);
+    const average = this.getAverageTaskDuration();
+    if (position === 0 || average === undefined) return undefined;
+
+    const lane = this.lanes.get(sessionKey)!;
+    const waitingForSlot = !lane.processing && this.globalConcurrency >= this.config.maxConcurrency;
+    const tasksAhead = position - 1 + (lane.processing || waitingForSlot ? 1 : 0);
+    return Math.round(tasksAhead * average);
+  }
+
+  cancel(sessionKey: string, taskId: string): boolean {
+    const lane = this.lanes.get(sessionKey);
+    if (!lane) return false;
+
+    const index = lane.queue.findIndex(t => t.id === taskId);
+    if (index === -1) return false;
+
+    const [task] = lane.queue.splice(index, 1);
+    task!.reject(new Error(TASK_CANCELLED));
+    this.notify({ type: 'cancelled', sessionKey, taskId });
+    this.notifyMoved(sessionKey, lane);
+    this.cleanupEmptyLane(sessionKey);
+    return true;
+  }
+
+  async abort(sessionKey: string): Promise<number> {
+    const lane = this.lanes.get(sessionKey);
+    if (!lane) return this.rejectCollector(sessionKey, 'Task aborted');
 
-    const abortedCount = lane.queue.length;
+    const abortedCount = lane.queue.length + this.rejectCollector(sessionKey, 'Task aborted');
     
     for (const task of lane.queue) {
       task.reject(new Error('Task aborted'));
@@ -128,8 +314,23 @@ export class LaneQueue {
     return this.globalConcurrency;
   }
 
+  getSnapshot(): LaneSnapshot[] {
+    return Array.from(this.lanes, ([sessionKey, lane]) => {
+      const task = lane.currentTask ?? lane.queue[0];
+      return {
+        sessionKey,
+        userId: task?.userId,
+        groupId: task?.groupId,
+        processing: lane.processing,
+        pending: lane.queue.length,
+        waitingSince: lane.queue[0]?.createdAt,
+      };
+    });
+  }
+
   clear(sessionKey?: string): void {
     if (sessionKey) {
+      this.rejectCollector(sessionKey, 'Queue cleared');
       const lane = this.lanes.get(sessionKey);
       if (lane) {
         for (const task of lane.queue) {
@@ -138,6 +339,9 @@ export class LaneQueue {
         lane.queue = [];
       }
     } else {
+      for (const key of [...this.collectors.keys()]) {
+        this.rejectCollector(key, 'Queue cleared');
+      }
       for (const lane of this.lanes.values()) {
         for (const task of lane.queue) {
           task.reject(new Error('Queue cleared'));
@@ -156,6 +360,93 @@ export class LaneQueue {
     return lane;
   }
 
+  private flushCollector(sessionKey: string, collector: Collector): void {
+    collector.timer = undefined;
+    this.removeCollector(sessionKey, collector);
+
+    const run = (signal: AbortSignal) => collector.handler(collector.payloads, signal);
+
+    this.enqueue(sessionKey, run, {
+      id: collector.id,
+      mode: 'collect',
+      priority: collector.priority,
+      timeoutMs: collector.timeoutMs,
+      afterRun: collector.afterRun,
+      userId: collector.userId,
+      groupId: collector.groupId,
+      interrupt: collector.interrupt,
+    }).then(
+      (result) => {
+        for (const waiter of collector.waiters) waiter.resolve(result);
+      },
+      (error: Error) => {
+        for (const waiter of collector.waiters) waiter.reject(error);
+      }
+    );
+  }
+
+  private removeCollector(sessionKey: string, collector: Collector): void {
+    const open = this.collectors.get(sessionKey);
+    if (!open) return;
+
+    const remaining = open.filter(c => c !== collector);
+    if (remaining.length > 0) {
+      this.collectors.set(sessionKey, remaining);
+    } else {
+      this.collectors.delete(sessionKey);
+    }
+  }
+
+  private rejectCollector(sessionKey: string, reason: string): number {
+    const open = this.collectors.get(sessionKey);
+    if (!open) return 0;
+
+    this.collectors.delete(sessionKey);
+    let rejected = 0;
+    for (const collector of open) {
+      clearTimeout(collector.timer);
+      for (const waiter of collector.waiters) {
+        waiter.reject(new Error(reason));
+      }
+      rejected += collector.payloads.length;
+    }
+    return rejected;
+  }
+
+  private notify(event: QueueEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('Queue listener failed', { event, error });
+      }
+    }
+  }
+
+  private notifyMoved(sessionKey: string, lane: Lane): void {
+    for (const task of lane.queue) {
+      this.notify({ type: 'moved', sessionKey, taskId: task.id });
+    }
+  }
+
+  private recordDuration(ms: number): void {
+    this.recentDurations.push(ms);
+    if (this.recentDurations.length > DURATION_SAMPLE_SIZE) {
+      this.recentDurations.shift();
+    }
+  }
+
+  private interruptCurrent(lane: Lane): void {
+    const current = lane.currentTask;
+    if (!current?.interrupt) return;
+
+    try {
+      current.interrupt();
+    } catch (error) {
+      logger.warn('Failed to interrupt running task', { taskId: current.id, error });
+    }
+  }
+
   private insertByPriority(queue: QueuedTask[], task: QueuedTask): void {
     let inserted = false;
     for (let i = 0; i < queue.length; i++) {
@@ -170,39 +461,72 @@ export class LaneQueue {
     }
   }
 
-  private async processLane(sessionKey: string): Promise<void> {
+  private processLane(sessionKey: string): void {
     const lane = this.lanes.get(sessionKey);
     if (!lane || lane.processing || lane.queue.length === 0) return;
+    if (!this.canStart(lane)) return;
+
+    void this.runNext(sessionKey, lane);
+  }
 
-    if (this.globalConcurrency >= this.config.maxConcurrency) {
-      return;
+  private canStart(lane: Lane): boolean {
+    if (this.globalConcurrency >= this.config.maxConcurrency) return false;
+
+    const head = lane.queue[0];
+    if (!head) return false;
+
+    const { maxConcurrencyPerUser, maxConcurrencyPerGroup } = this.config;
+    if (maxConcurrencyPerUser > 0 && head.userId && (this.activeByUser.get(head.userId) ?? 0) >= maxConcurrencyPerUser) {
+      return false;
+    }
+    if (maxConcurrencyPerGroup > 0 && head.groupId && (this.activeByGroup.get(head.groupId) ?? 0) >= maxConcurrencyPerGroup) {
+      return false;
     }
+    return true;
+  }
 
+  private async runNext(sessionKey: string, lane: Lane): Promise<void> {
+    const task = lane.queue.shift()!;
     lane.processing = true;
+    lane.currentTask = task;
     this.globalConcurrency++;
+    adjustCount(this.activeByUser, task.userId, 1);
+    adjustCount(this.activeByGroup, task.groupId, 1);
 
-    try {
-      while (lane.queue.length > 0) {
-        const task = lane.queue.shift()!;
-        lane.currentTask = task;
+    const startedAt = Date.now();
+    this.notify({ type: 'started', sessionKey, taskId: task.id });
+    this.notifyMoved(sessionKey, lane);
 
-        try {
-          const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error('Task timeout')), this.config.taskTimeoutMs);
-          });
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-          const result = await Promise.race([task.handler(), timeoutPromise]);
-          task.resolve(result);
-        } catch (error) {
-          task.reject(error instanceof Error ? error : new Error(String(error)));
-        }
-
-        lane.currentTask = undefined;
-      }
+    try {
+      const timeoutMs = task.timeoutMs ?? this.config.taskTimeoutMs;
+      const running = task.handler(controller.signal);
+      const result = timeoutMs > 0
+        ? await Promise.race([running, new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            const error = new Error('Task timeout');
+            controller.abort(error);
+            reject(error);
+          }, timeoutMs);
+        })])
+        : await running;
+      clearTimeout(timer);
+
+      await task.afterRun?.(result);
+      task.resolve(result);
+    } catch (error) {
+      task.reject(error instanceof Error ? error : new Error(String(error)));
     } finally {
+      clearTimeout(timer);
+      this.recordDuration(Date.now() - startedAt);
+
       lane.processing = false;
-      this.globalConcurrency--;
       lane.currentTask = undefined;
+      this.globalConcurrency--;
+      adjustCount(this.activeByUser, task.userId, -1);
+      adjustCount(this.activeByGroup, task.groupId, -1);
 
       this.cleanupEmptyLane(sessionKey);
       this.tryProcessPendingLanes();
@@ -216,14 +540,62 @@ export class LaneQueue {
     }
   }
 
+  /**
+   * Fills free concurrency slots with a smooth weighted round-robin across users,
+   * so one user with many lanes cannot take every slot. Within a user, the lane
+   * whose head task has the highest priority (then the oldest) goes first.
+   */
   private tryProcessPendingLanes(): void {
-    if (this.globalConcurrency >= this.config.maxConcurrency) return;
+    while (this.globalConcurrency < this.config.maxConcurrency) {
+      const sessionKey = this.pickNextLane();
+      if (!sessionKey) break;
+      this.processLane(sessionKey);
+    }
+  }
 
+  private pickNextLane(): string | undefined {
+    const candidates = new Map<string, Array<[string, QueuedTask]>>();
     for (const [sessionKey, lane] of this.lanes) {
-      if (!lane.processing && lane.queue.length > 0) {
-        this.processLane(sessionKey);
-        if (this.globalConcurrency >= this.config.maxConcurrency) break;
+      if (lane.processing || !this.canStart(lane)) continue;
+      const head = lane.queue[0]!;
+      const owner = head.userId ?? sessionKey;
+      const list = candidates.get(owner) ?? [];
+      list.push([sessionKey, head]);
+      candidates.set(owner, list);
+    }
+    if (candidates.size === 0) return undefined;
+
+    for (const owner of this.userCredits.keys()) {
+      if (!candidates.has(owner)) this.userCredits.delete(owner);
+    }
+
+    let totalWeight = 0;
+    let selected: string | undefined;
+    let selectedCredit = -Infinity;
+    for (const owner of candidates.keys()) {
+      const weight = this.config.userWeights[owner] ?? 1;
+      const credit = (this.userCredits.get(owner) ?? 0) + weight;
+      this.userCredits.set(owner, credit);
+      totalWeight += weight;
+      if (credit > selectedCredit) {
+        selected = owner;
+        selectedCredit = credit;
       }
     }
+    this.userCredits.set(selected!, selectedCredit - totalWeight);
+
+    const lanes = candidates.get(selected!)!;
+    lanes.sort(([, a], [, b]) => b.priority - a.priority || a.createdAt - b.createdAt);
+    return lanes[0]![0];
+  }
+}
+
+function adjustCount(counts: Map<string, number>, key: string | undefined, delta: number): void {
+  if (!key) return;
+  const next = (counts.get(key) ?? 0) + delta;
+  if (next > 0) {
+    counts.set(key, next);
+  } else {
+    counts.delete(key);
   }
 }
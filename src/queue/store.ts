@@ -0,0 +1,113 @@
+import type { MessageEvent } from '../types/channel';
+import type { BotDatabase } from '../storage/database';
+import { logger } from '../utils/logger';
+
+export type PendingMessageStatus = 'queued' | 'running' | 'interrupted';
+
+/** A message event stripped down to what can be replayed after a restart. */
+export type PersistedMessageEvent = Omit<MessageEvent, 'raw'>;
+
+export interface PendingMessage {
+  id: string;
+  event: PersistedMessageEvent;
+  status: PendingMessageStatus;
+  enqueuedAt: number;
+}
+
+export interface QueueStore {
+  load(): PendingMessage[];
+  get(id: string): PendingMessage | undefined;
+  save(message: PendingMessage): void;
+  setStatus(id: string, status: PendingMessageStatus): void;
+  remove(id: string): void;
+}
+
+export function getPendingMessageId(event: Pick<MessageEvent, 'channelId' | 'messageId'>): string {
+  return `${event.channelId}:${event.messageId}`;
+}
+
+/** Keeps attachment references (ids, names) but never downloaded bytes or raw payloads. */
+export function toPersistedEvent(event: MessageEvent): PersistedMessageEvent {
+  const { raw: _raw, ...rest } = event;
+  return {
+    ...rest,
+    attachments: event.attachments?.map(({ data: _data, ...attachment }) => attachment),
+  };
+}
+
+export class MemoryQueueStore implements QueueStore {
+  protected messages = new Map<string, PendingMessage>();
+
+  load(): PendingMessage[] {
+    return Array.from(this.messages.values()).sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+  }
+
+  get(id: string): PendingMessage | undefined {
+    return this.messages.get(id);
+  }
+
+  save(message: PendingMessage): void {
+    this.messages.delete(message.id);
+    this.messages.set(message.id, message);
+    this.flush();
+  }
+
+  setStatus(id: string, status: PendingMessageStatus): void {
+    const message = this.messages.get(id);
+    if (!message || message.status === status) return;
+    message.status = status;
+    this.flush();
+  }
+
+  remove(id: string): void {
+    if (this.messages.delete(id)) {
+      this.flush();
+    }
+  }
+
+  protected flush(): void {}
+}
+
+/**
+ * Writes through to the bot database on every change so a crash right after
+ * enqueueing still leaves the message on disk.
+ */
+export class DatabaseQueueStore implements QueueStore {
+  private database: BotDatabase;
+
+  constructor(database: BotDatabase) {
+    this.database = database;
+  }
+
+  load(): PendingMessage[] {
+    return this.database.loadPendingMessages();
+  }
+
+  get(id: string): PendingMessage | undefined {
+    return this.database.getPendingMessage(id);
+  }
+
+  save(message: PendingMessage): void {
+    this.write('save', () => this.database.savePendingMessage(message));
+  }
+
+  setStatus(id: string, status: PendingMessageStatus): void {
+    this.write('update', () => this.database.setPendingMessageStatus(id, status));
+  }
+
+  remove(id: string): void {
+    this.write('remove', () => this.database.removePendingMessage(id));
+  }
+
+  private write(action: string, run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      logger.error('Failed to persist queue', { action, error });
+    }
+  }
+}
+
+export function createQueueStore(database?: BotDatabase): QueueStore {
+  return database ? new DatabaseQueueStore(database) : new MemoryQueueStore();
+}
@@ -1,126 +1,203 @@
-import type { SessionKey, CompactionResult } from '../types/session';
-import type { IAgentRuntime } from '../types/agent';
-import type { SessionManager } from './manager';
+import type { CompactionResult } from '../types/session';
+import type { IAgentRuntime, TokenUsage } from '../types/agent';
 import { logger } from '../utils/logger';
 
 export interface CompactionManagerConfig {
   autoCompactEnabled?: boolean;
-  compactThreshold?: number;
+  /** Share of the model's context window (1-100) that triggers auto-compaction. */
+  compactAtPercent?: number;
   preCompactMemoryFlush?: boolean;
-  checkIntervalMs?: number;
 }
 
 export interface CompactionManagerDependencies {
-  sessionManager: SessionManager;
   getAgent: (agentId: string) => IAgentRuntime | undefined;
+  notify?: (chatId: string, text: string) => Promise<unknown>;
+  /** Saves what the session should remember before its context is summarized away. */
+  flushMemory?: (target: CompactionTarget, agent: IAgentRuntime) => Promise<boolean>;
+}
+
+export interface CompactionTarget {
+  chatId: string;
+  agentId: string;
+  sessionId: string;
+  model?: string;
+  projectPath?: string;
+}
+
+export interface ContextUsage {
+  tokens: number;
+  contextWindow?: number;
+  percent?: number;
+  model?: string;
+  updatedAt: number;
 }
 
 export class CompactionManager {
-  private config: CompactionManagerConfig;
+  private config: Required<CompactionManagerConfig>;
   private deps: CompactionManagerDependencies;
-  private checkTimer?: ReturnType<typeof setInterval>;
+  private usage = new Map<string, ContextUsage>();
+  private compacting = new Set<string>();
+  private contextWindows = new Map<string, Map<string, number>>();
 
   constructor(config: CompactionManagerConfig, deps: CompactionManagerDependencies) {
     this.config = {
       autoCompactEnabled: config.autoCompactEnabled ?? true,
-      compactThreshold: config.compactThreshold ?? 50,
+      compactAtPercent: config.compactAtPercent ?? 80,
       preCompactMemoryFlush: config.preCompactMemoryFlush ?? true,
-      checkIntervalMs: config.checkIntervalMs ?? 60000,
     };
     this.deps = deps;
+  }
 
-    if (this.config.autoCompactEnabled) {
-      this.startAutoCompaction();
-    }
+  getUsage(sessionId: string): ContextUsage | undefined {
+    return this.usage.get(sessionId);
+  }
+
+  /**
+   * Records the context size reported at the end of a turn and compacts the
+   * session once it crosses the configured share of the model's window.
+   */
+  async recordUsage(target: CompactionTarget, usage: TokenUsage | undefined): Promise<CompactionResult | null> {
+    if (!usage?.contextTokens) return null;
+
+    const contextWindow = await this.getContextWindow(target.agentId, target.model);
+    this.usage.set(target.sessionId, {
+      tokens: usage.contextTokens,
+      contextWindow,
+      percent: contextWindow ? Math.round((usage.contextTokens / contextWindow) * 100) : undefined,
+      model: target.model,
+      updatedAt: Date.now(),
+    });
+
+    if (!this.config.autoCompactEnabled) return null;
+    return this.compactIfNeeded(target);
   }
 
-  async compact(key: SessionKey): Promise<CompactionResult> {
-    const session = this.deps.sessionManager.getSession(key);
-    if (!session) {
-      return { success: false, error: 'Session not found' };
+  async compactIfNeeded(target: CompactionTarget): Promise<CompactionResult | null> {
+    const current = this.usage.get(target.sessionId);
+    if (current?.percent === undefined || current.percent < this.config.compactAtPercent) {
+      return null;
     }
 
-    const agent = this.deps.getAgent(session.agentId);
+    logger.info('Auto-compact threshold reached', {
+      sessionId: target.sessionId,
+      tokens: current.tokens,
+      contextWindow: current.contextWindow,
+      threshold: this.config.compactAtPercent,
+    });
+
+    await this.notify(target.chatId,
+      `🗜️ 上下文已占用 ${current.percent}%（${formatTokens(current.tokens)} / ${formatTokens(current.contextWindow!)} tokens），正在自动压缩...`);
+
+    const result = await this.compact(target);
+    await this.notify(target.chatId, result.success
+      ? `✅ 上下文压缩完成${formatChange(result)}`
+      : `❌ 上下文自动压缩失败：${result.error}`);
+    return result;
+  }
+
+  async compact(target: CompactionTarget): Promise<CompactionResult> {
+    const agent = this.deps.getAgent(target.agentId);
     if (!agent) {
       return { success: false, error: 'Agent not found' };
     }
+    if (this.compacting.has(target.sessionId)) {
+      return { success: false, error: 'Compaction already in progress' };
+    }
 
-    logger.info('Starting session compaction', { 
-      sessionId: session.agentSessionId,
-      messageCount: session.messageCount,
-    });
+    this.compacting.add(target.sessionId);
+    try {
+      const beforeTokens = this.usage.get(target.sessionId)?.tokens ?? await this.readContextTokens(agent, target.sessionId);
+      logger.info('Starting session compaction', { sessionId: target.sessionId, beforeTokens });
 
-    if (this.config.preCompactMemoryFlush) {
-      await this.flushMemory(session.agentSessionId, agent);
-    }
+      if (this.config.preCompactMemoryFlush) {
+        await this.flushMemory(target, agent);
+      }
 
-    const success = await agent.summarize(session.agentSessionId);
+      if (!await agent.summarize(target.sessionId)) {
+        return { success: false, beforeTokens, error: 'Compaction failed' };
+      }
 
-    if (success) {
-      logger.info('Session compaction completed', { sessionId: session.agentSessionId });
-      return { success: true };
-    }
+      const afterTokens = await this.readContextTokens(agent, target.sessionId);
+      const previous = this.usage.get(target.sessionId);
+      if (afterTokens !== undefined && previous) {
+        this.usage.set(target.sessionId, {
+          ...previous,
+          tokens: afterTokens,
+          percent: previous.contextWindow ? Math.round((afterTokens / previous.contextWindow) * 100) : undefined,
+          updatedAt: Date.now(),
+        });
+      }
 
-    return { success: false, error: 'Compaction failed' };
+      logger.info('Session compaction completed', { sessionId: target.sessionId, beforeTokens, afterTokens });
+      return { success: true, beforeTokens, afterTokens };
+    } finally {
+      this.compacting.delete(target.sessionId);
+    }
   }
 
-  async compactIfNeeded(key: SessionKey): Promise<CompactionResult | null> {
-    const session = this.deps.sessionManager.getSession(key);
-    if (!session) return null;
-
-    const threshold = this.config.compactThreshold || 50;
-    
-    if (session.messageCount >= threshold) {
-      logger.debug('Auto-compact threshold reached', { 
-        messageCount: session.messageCount, 
-        threshold 
-      });
-      return this.compact(key);
+  private async getContextWindow(agentId: string, model?: string): Promise<number | undefined> {
+    if (!model) return undefined;
+
+    let windows = this.contextWindows.get(agentId);
+    if (!windows) {
+      const agent = this.deps.getAgent(agentId);
+      if (!agent) return undefined;
+      try {
+        const models = await agent.listModels();
+        windows = new Map(models.filter(m => m.contextWindow).map(m => [m.id, m.contextWindow!]));
+        this.contextWindows.set(agentId, windows);
+      } catch (error) {
+        logger.warn('Failed to list models for context window', { agentId, error });
+        return undefined;
+      }
     }
 
-    return null;
+    return windows.get(model);
   }
 
-  private async flushMemory(sessionId: string, agent: IAgentRuntime): Promise<void> {
+  private async readContextTokens(agent: IAgentRuntime, sessionId: string): Promise<number | undefined> {
     try {
-      await agent.executeCommand(sessionId, '/memory');
-      logger.debug('Memory flushed before compaction', { sessionId });
+      return (await agent.getSessionInfo(sessionId))?.contextTokens;
     } catch (error) {
-      logger.warn('Memory flush failed', { sessionId, error });
+      logger.warn('Failed to read context usage', { sessionId, error });
+      return undefined;
     }
   }
 
-  private startAutoCompaction(): void {
-    this.checkTimer = setInterval(() => {
-      this.checkAllSessionsForCompaction();
-    }, this.config.checkIntervalMs);
+  private async flushMemory(target: CompactionTarget, agent: IAgentRuntime): Promise<void> {
+    if (!this.deps.flushMemory) return;
+    try {
+      if (await this.deps.flushMemory(target, agent)) {
+        logger.debug('Memory flushed before compaction', { sessionId: target.sessionId });
+      }
+    } catch (error) {
+      logger.warn('Memory flush failed', { sessionId: target.sessionId, error });
+    }
   }
 
-  private async checkAllSessionsForCompaction(): Promise<void> {
-    const sessions = this.deps.sessionManager.getAllSessions();
-    const threshold = this.config.compactThreshold || 50;
-
-    for (const session of sessions) {
-      if (session.messageCount >= threshold && session.status === 'active') {
-        try {
-          await this.compact(session.key);
-        } catch (error) {
-          logger.error('Auto-compaction failed', { 
-            sessionKey: session.key, 
-            error 
-          });
-        }
-      }
+  private async notify(chatId: string, text: string): Promise<void> {
+    try {
+      await this.deps.notify?.(chatId, text);
+    } catch (error) {
+      logger.warn('Failed to send compaction notice', { chatId, error });
     }
   }
 
   shutdown(): void {
-    if (this.checkTimer) {
-      clearInterval(this.checkTimer);
-    }
+    this.usage.clear();
+    this.compacting.clear();
   }
 }
 
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatChange(result: CompactionResult): string {
+  if (result.beforeTokens === undefined || result.afterTokens === undefined) return '';
+  return `：${formatTokens(result.beforeTokens)} → ${formatTokens(result.afterTokens)} tokens`;
+}
+
 export function createCompactionManager(
   config: CompactionManagerConfig,
   deps: CompactionManagerDependencies
@@ -0,0 +1,189 @@
+import { extractTextFromPart, extractToolCallFromPart } from '../opencode/client';
+import type { FileDiff, SessionSummary } from '../opencode/client';
+
+export type ExportFormat = 'doc' | 'md' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['doc', 'md', 'json'];
+
+/** Raw material for an export: the session metadata plus its messages as returned by OpenCode. */
+export interface SessionTranscript {
+  sessionId: string;
+  title?: string;
+  projectPath: string;
+  model?: string;
+  messages: Array<Record<string, unknown>>;
+  summary?: SessionSummary;
+}
+
+export interface ExportedToolCall {
+  name: string;
+  state: string;
+  title?: string;
+  input?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ExportedMessage {
+  role: 'user' | 'assistant';
+  createdAt?: number;
+  text: string;
+  tools: ExportedToolCall[];
+}
+
+export interface SessionExport {
+  sessionId: string;
+  title: string;
+  projectPath: string;
+  model?: string;
+  exportedAt: number;
+  messages: ExportedMessage[];
+  changes?: {
+    files: number;
+    additions: number;
+    deletions: number;
+    diffs: FileDiff[];
+  };
+}
+
+export interface MarkdownOptions {
+  /** Feishu docs drop raw HTML, so tool details and diffs are only expanded in plain Markdown files. */
+  expandDetails?: boolean;
+}
+
+const MAX_DIFF_LINES = 200;
+
+const TOOL_STATE_ICONS: Record<string, string> = {
+  completed: '✅',
+  error: '❌',
+  running: '⏳',
+  pending: '⏳',
+};
+
+export function buildSessionExport(transcript: SessionTranscript, exportedAt = Date.now()): SessionExport {
+  const messages: ExportedMessage[] = [];
+
+  for (const message of transcript.messages) {
+    const info = message.info as Record<string, unknown> | undefined;
+    const parts = (message.parts as unknown[] | undefined) ?? [];
+    const text = parts
+      .filter(part => (part as Record<string, unknown>).type === 'text')
+      .map(part => extractTextFromPart(part))
+      .filter((t): t is string => !!t)
+      .join('\n')
+      .trim();
+    const tools = parts
+      .map(part => extractToolCallFromPart(part))
+      .filter((tool): tool is NonNullable<typeof tool> => tool !== null)
+      .map(({ name, state, title, input, error }) => ({ name, state, title, input, error }));
+
+    if (!text && tools.length === 0) continue;
+
+    const time = info?.time as { created?: number } | undefined;
+    messages.push({
+      role: info?.role === 'user' ? 'user' : 'assistant',
+      createdAt: time?.created,
+      text,
+      tools,
+    });
+  }
+
+  const { summary } = transcript;
+  return {
+    sessionId: transcript.sessionId,
+    title: transcript.title || transcript.sessionId,
+    projectPath: transcript.projectPath,
+    model: transcript.model,
+    exportedAt,
+    messages,
+    changes: summary && summary.files > 0
+      ? { files: summary.files, additions: summary.additions, deletions: summary.deletions, diffs: summary.diffs ?? [] }
+      : undefined,
+  };
+}
+
+export function renderExportMarkdown(data: SessionExport, options: MarkdownOptions = {}): string {
+  const lines: string[] = [
+    `# ${data.title}`,
+    '',
+    `- 会话: \`${data.sessionId}\``,
+    `- 项目: \`${data.projectPath}\``,
+  ];
+  if (data.model) lines.push(`- 模型: \`${data.model}\``);
+  lines.push(`- 导出时间: ${formatTime(data.exportedAt)}`, '');
+
+  for (const message of data.messages) {
+    const heading = message.role === 'user' ? '## 👤 用户' : '## 🤖 助手';
+    lines.push(message.createdAt ? `${heading}（${formatTime(message.createdAt)}）` : heading, '');
+
+    if (message.tools.length > 0) {
+      lines.push(...renderToolCalls(message.tools, options.expandDetails ?? false), '');
+    }
+    if (message.text) {
+      lines.push(message.text, '');
+    }
+  }
+
+  if (data.changes) {
+    const { files, additions, deletions, diffs } = data.changes;
+    lines.push(`## 📝 文件变更（${files} 个文件，+${additions} -${deletions}）`, '');
+    for (const diff of diffs) {
+      lines.push(`- \`${diff.file}\` +${diff.additions} -${diff.deletions}`);
+    }
+    lines.push('');
+
+    if (options.expandDetails) {
+      for (const diff of diffs) {
+        lines.push(`<details><summary>${diff.file}</summary>`, '', '```diff', ...renderDiff(diff), '```', '', '</details>', '');
+      }
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+export function renderExportJson(data: SessionExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+function renderToolCalls(tools: ExportedToolCall[], expand: boolean): string[] {
+  const summary = tools.map(tool => `${TOOL_STATE_ICONS[tool.state] ?? '•'} ${tool.name}`).join('，');
+
+  if (!expand) {
+    return [`> 🔧 工具调用 ${tools.length} 次：${summary}`];
+  }
+
+  const lines = [`<details><summary>🔧 工具调用 ${tools.length} 次：${summary}</summary>`, ''];
+  for (const tool of tools) {
+    lines.push(`- **${tool.name}** ${tool.title ?? ''}`.trimEnd());
+    if (tool.input && Object.keys(tool.input).length > 0) {
+      lines.push('', '```json', JSON.stringify(tool.input, null, 2), '```', '');
+    }
+    if (tool.error) {
+      lines.push(`  错误: ${tool.error}`);
+    }
+  }
+  lines.push('', '</details>');
+  return lines;
+}
+
+/** A line-level before/after comparison; good enough to read, not meant to be applied as a patch. */
+function renderDiff(diff: FileDiff): string[] {
+  const before = diff.before ? diff.before.split('\n') : [];
+  const after = diff.after ? diff.after.split('\n') : [];
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+
+  const lines = [
+    ...before.filter(line => !afterSet.has(line)).map(line => `-${line}`),
+    ...after.filter(line => !beforeSet.has(line)).map(line => `+${line}`),
+  ];
+
+  if (lines.length > MAX_DIFF_LINES) {
+    return [...lines.slice(0, MAX_DIFF_LINES), `… 省略 ${lines.length - MAX_DIFF_LINES} 行`];
+  }
+  return lines;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16);
+}
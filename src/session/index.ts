@@ -1,4 +1,10 @@
 export { SessionManager, createSessionManager } from './manager';
-export type { SessionManagerConfig, SessionManagerDependencies } from './manager';
-export { CompactionManager, createCompactionManager } from './compaction';
-export type { CompactionManagerConfig } from './compaction';
+export type { SessionManagerConfig, SessionManagerDependencies, TurnSession } from './manager';
+export { CompactionManager, createCompactionManager, formatTokens } from './compaction';
+export type { CompactionManagerConfig, CompactionTarget, ContextUsage } from './compaction';
+export { buildSessionExport, renderExportMarkdown, renderExportJson, EXPORT_FORMATS } from './export';
+export type { ExportFormat, SessionTranscript, SessionExport } from './export';
+export { SessionSearchIndex, createSessionSearchIndex } from './search';
+export type { IndexedTurn, IndexedTitle, SessionSearchHit } from './search';
+export { ProjectMemory, createProjectMemory, collectReply, MEMORY_FLUSH_PROMPT } from './memory';
+export type { ProjectMemoryConfig, ProjectMemoryDependencies, MemoryFlushTarget } from './memory';
@@ -5,11 +5,17 @@ import type {
   SessionStatus,
   SessionConfig,
   SessionGroupInfo,
+  SessionGroupIdleStatus,
+  SessionIdlePolicy,
+  SessionGroupOptions,
+  SessionLineage,
   CompactionResult,
   ISessionManager,
 } from '../types/session';
 import type { IAgentRuntime } from '../types/agent';
 import type { IChannel } from '../types/channel';
+import type { BotDatabase } from '../storage/database';
+import type { SessionSearchIndex } from './search';
 import { logger } from '../utils/logger';
 
 export interface SessionManagerConfig extends SessionConfig {
@@ -23,6 +29,8 @@ export interface SessionManagerDependencies {
   createChat?: (name: string, userIds: string[]) => Promise<{ chatId: string } | null>;
   updateChatName?: (chatId: string, name: string) => Promise<boolean>;
   deleteChat?: (chatId: string) => Promise<boolean>;
+  database?: BotDatabase;
+  searchIndex?: SessionSearchIndex;
 }
 
 interface ProcessingTask {
@@ -32,11 +40,22 @@ interface ProcessingTask {
   abortController?: AbortController;
 }
 
+export interface TurnSession {
+  agentId: string;
+  agentSessionId: string;
+  projectPath: string;
+  model?: string;
+  messageId: string;
+}
+
 interface EventRecord {
   eventId: string;
   timestamp: number;
 }
 
+const ARCHIVED_PREFIX = '[已归档] ';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class SessionManager implements ISessionManager {
   private sessions = new Map<string, SessionState>();
   private sessionGroups = new Map<string, SessionGroupInfo>();
@@ -53,8 +72,8 @@ export class SessionManager implements ISessionManager {
       keyType: config.keyType || 'chat',
       idleTimeoutMs: config.idleTimeoutMs || 30 * 60 * 1000,
       maxHistoryLength: config.maxHistoryLength || 100,
-      autoCompact: config.autoCompact ?? true,
-      compactThreshold: config.compactThreshold || 50,
+      archiveAfterMs: config.archiveAfterMs ?? 7 * DAY_MS,
+      disbandOnArchive: config.disbandOnArchive ?? false,
       eventDedupeWindowMs: config.eventDedupeWindowMs || 5 * 60 * 1000,
       persistPath: config.persistPath,
     };
@@ -101,7 +120,7 @@ export class SessionManager implements ISessionManager {
     return this.sessions.get(keyStr);
   }
 
-  async createSession(key: SessionKey, projectPath: string, model?: string): Promise<SessionState> {
+  async createSession(key: SessionKey, projectPath: string, model?: string, agentId = 'opencode'): Promise<SessionState> {
     const keyStr = this.buildKeyString(key);
     const existingSession = this.sessions.get(keyStr);
     
@@ -110,7 +129,6 @@ export class SessionManager implements ISessionManager {
       return existingSession;
     }
 
-    const agentId = 'opencode';
     const agent = this.deps.getAgent(agentId);
     
     if (!agent) {
@@ -141,7 +159,12 @@ export class SessionManager implements ISessionManager {
   async getOrCreateSession(key: SessionKey, projectPath: string, model?: string): Promise<SessionState> {
     const existing = this.getSession(key);
     if (existing) {
+      if (existing.status === 'idle' && !(await this.wakeSession(existing))) {
+        this.deleteSession(key);
+        return this.createSession(key, projectPath, model);
+      }
       existing.lastActiveAt = Date.now();
+      await this.restoreArchivedGroup(key.chatId);
       return existing;
     }
     return this.createSession(key, projectPath, model);
@@ -244,6 +267,44 @@ export class SessionManager implements ISessionManager {
     }
   }
 
+  /**
+   * Reattaches restored sessions to their agents after a restart.
+   * Sessions the agent no longer knows about are dropped; suspended ones
+   * stay suspended until their chat's next turn resumes them.
+   */
+  async resumeSessions(): Promise<{ resumed: number; dropped: number }> {
+    let resumed = 0;
+    let dropped = 0;
+
+    for (const [keyStr, session] of Array.from(this.sessions)) {
+      if (session.status === 'idle') continue;
+      const agent = this.deps.getAgent(session.agentId);
+      if (!agent) continue;
+
+      try {
+        if (await agent.resumeSession(session.agentSessionId, session.projectPath, session.model)) {
+          session.status = 'active';
+          resumed++;
+          continue;
+        }
+      } catch (error) {
+        logger.warn('Failed to resume session', { key: keyStr, error });
+        continue;
+      }
+
+      this.sessions.delete(keyStr);
+      dropped++;
+      logger.info('Dropped session missing from agent', { key: keyStr, agentSessionId: session.agentSessionId });
+    }
+
+    if (dropped > 0) {
+      this.persistState();
+    }
+
+    logger.info('Resumed persisted sessions', { resumed, dropped });
+    return { resumed, dropped };
+  }
+
   isSessionGroup(chatId: string): boolean {
     return this.sessionGroups.has(chatId);
   }
@@ -252,11 +313,21 @@ export class SessionManager implements ISessionManager {
     return this.sessionGroups.get(chatId);
   }
 
-  async createSessionGroup(userId: string, projectPath: string): Promise<SessionGroupInfo> {
+  async createSessionGroup(userId: string, projectPath: string, options: SessionGroupOptions = {}): Promise<SessionGroupInfo> {
     if (!this.deps.createChat) {
       throw new Error('createChat not configured');
     }
 
+    const agentId = options.agentId ?? 'opencode';
+    const { forkFrom, resumeSessionId } = options;
+    const agent = this.deps.getAgent(agentId);
+    if ((forkFrom || resumeSessionId) && !agent) {
+      throw new Error(`Agent not found: ${agentId}`);
+    }
+    if (resumeSessionId && !(await agent!.resumeSession(resumeSessionId, projectPath, options.model))) {
+      throw new Error(`Session not found: ${resumeSessionId}`);
+    }
+
     const result = await this.deps.createChat('新会话', [userId]);
     if (!result) {
       throw new Error('Failed to create chat');
@@ -265,24 +336,80 @@ export class SessionManager implements ISessionManager {
     const sessionKey: SessionKey = {
       channelId: 'feishu',
       chatId: result.chatId,
-      keyType: 'chat',
+      userId,
+      keyType: this.config.keyType,
     };
 
-    await this.createSession(sessionKey, projectPath);
+    if (forkFrom || resumeSessionId) {
+      const agentSessionId = forkFrom
+        ? await agent!.forkSession(forkFrom.agentSessionId, projectPath, options.model)
+        : resumeSessionId!;
+      this.sessions.set(this.buildKeyString(sessionKey), {
+        key: sessionKey,
+        agentSessionId,
+        agentId,
+        status: 'active',
+        projectPath,
+        model: options.model,
+        createdAt: Date.now(),
+        lastActiveAt: Date.now(),
+        messageCount: 0,
+      });
+      if (forkFrom) {
+        logger.info('Session forked into new group', { from: forkFrom.agentSessionId, to: agentSessionId, chatId: result.chatId });
+      } else {
+        logger.info('Session reopened in new group', { agentSessionId, chatId: result.chatId });
+      }
+    } else {
+      await this.createSession(sessionKey, projectPath, options.model, agentId);
+    }
 
     const groupInfo: SessionGroupInfo = {
       chatId: result.chatId,
       sessionKey,
       createdAt: Date.now(),
       createdBy: userId,
+      parentChatId: forkFrom?.chatId,
+      parentSessionId: forkFrom?.agentSessionId,
     };
 
     this.sessionGroups.set(result.chatId, groupInfo);
+
+    const parent = forkFrom ? this.sessionGroups.get(forkFrom.chatId) : undefined;
+    if (parent) {
+      parent.childChatIds = [...(parent.childChatIds ?? []), result.chatId];
+    }
+
     this.persistState();
 
+    if (options.title) {
+      await this.updateSessionGroupTitle(result.chatId, options.title);
+    }
+
     return groupInfo;
   }
 
+  getLineage(chatId: string): SessionLineage {
+    const groupInfo = this.sessionGroups.get(chatId);
+    const ancestors: SessionGroupInfo[] = [];
+    const seen = new Set([chatId]);
+
+    let parentChatId = groupInfo?.parentChatId;
+    while (parentChatId && !seen.has(parentChatId)) {
+      seen.add(parentChatId);
+      const parent = this.sessionGroups.get(parentChatId);
+      if (!parent) break;
+      ancestors.unshift(parent);
+      parentChatId = parent.parentChatId;
+    }
+
+    const children = (groupInfo?.childChatIds ?? [])
+      .map(id => this.sessionGroups.get(id))
+      .filter((child): child is SessionGroupInfo => child !== undefined);
+
+    return { parentChatId: groupInfo?.parentChatId, ancestors, children };
+  }
+
   async deleteSessionGroup(chatId: string): Promise<void> {
     const groupInfo = this.sessionGroups.get(chatId);
     if (!groupInfo) return;
@@ -304,13 +431,200 @@ export class SessionManager implements ISessionManager {
     groupInfo.title = title;
 
     if (this.deps.updateChatName) {
-      const sessionId = this.getSession(groupInfo.sessionKey)?.agentSessionId || '';
-      const shortId = sessionId.slice(0, 6);
-      const fullTitle = `o${shortId}-${title}`;
-      await this.deps.updateChatName(chatId, fullTitle);
+      await this.deps.updateChatName(chatId, this.buildGroupName(groupInfo));
+    }
+
+    this.persistState();
+
+    const session = this.getSession(groupInfo.sessionKey);
+    if (session) {
+      this.deps.searchIndex?.recordTitle({
+        userId: groupInfo.createdBy,
+        chatId,
+        sessionId: session.agentSessionId,
+        agentId: session.agentId,
+        projectPath: session.projectPath,
+        title,
+      });
     }
+  }
+
+  private buildGroupName(groupInfo: SessionGroupInfo): string {
+    if (!groupInfo.title) return '新会话';
+    const sessionId = this.getSession(groupInfo.sessionKey)?.agentSessionId || '';
+    return `o${sessionId.slice(0, 6)}-${groupInfo.title}`;
+  }
+
+  setIdlePolicy(chatId: string, policy: SessionIdlePolicy | undefined): boolean {
+    const groupInfo = this.sessionGroups.get(chatId);
+    if (!groupInfo) return false;
 
+    groupInfo.idlePolicy = policy;
     this.persistState();
+    logger.info('Session group idle policy updated', { chatId, policy });
+    return true;
+  }
+
+  getIdleStatus(chatId: string): SessionGroupIdleStatus | undefined {
+    const groupInfo = this.sessionGroups.get(chatId);
+    return groupInfo ? this.buildIdleStatus(groupInfo) : undefined;
+  }
+
+  listIdleStatus(): SessionGroupIdleStatus[] {
+    return Array.from(this.sessionGroups.values()).map(info => this.buildIdleStatus(info));
+  }
+
+  private buildIdleStatus(groupInfo: SessionGroupInfo): SessionGroupIdleStatus {
+    const session = this.getSession(groupInfo.sessionKey);
+    const policy = this.resolveIdlePolicy(groupInfo);
+    const activity = this.getGroupActivity(groupInfo);
+    return {
+      chatId: groupInfo.chatId,
+      title: groupInfo.title,
+      status: groupInfo.archivedAt ? 'archived' : activity.processing ? 'processing' : session?.status ?? 'idle',
+      lastActiveAt: activity.lastActiveAt,
+      idleTimeoutMs: this.config.idleTimeoutMs || 30 * 60 * 1000,
+      archiveAfterMs: policy.archiveAfterMs,
+      disbandOnArchive: policy.disbandOnArchive,
+      overridden: groupInfo.idlePolicy !== undefined,
+    };
+  }
+
+  private resolveIdlePolicy(groupInfo: SessionGroupInfo): { archiveAfterMs?: number; disbandOnArchive: boolean } {
+    const override = groupInfo.idlePolicy;
+    const archiveAfterMs = override?.archiveAfterMs ?? this.config.archiveAfterMs;
+    return {
+      archiveAfterMs: override?.keep || !archiveAfterMs ? undefined : archiveAfterMs,
+      disbandOnArchive: override?.disbandOnArchive ?? this.config.disbandOnArchive ?? false,
+    };
+  }
+
+  /**
+   * Runs the idle lifecycle: sessions idle longer than `idleTimeoutMs` are
+   * suspended, session groups idle longer than their archive window are archived.
+   */
+  async checkIdleSessions(now = Date.now()): Promise<void> {
+    const idleTimeout = this.config.idleTimeoutMs || 30 * 60 * 1000;
+
+    for (const [keyStr, session] of Array.from(this.sessions)) {
+      if (session.status === 'idle' || session.status === 'processing') continue;
+      if (now - session.lastActiveAt <= idleTimeout) continue;
+      await this.suspendSession(keyStr, session);
+    }
+
+    for (const groupInfo of Array.from(this.sessionGroups.values())) {
+      if (groupInfo.archivedAt) continue;
+
+      const { archiveAfterMs, disbandOnArchive } = this.resolveIdlePolicy(groupInfo);
+      if (archiveAfterMs === undefined) continue;
+
+      const { processing, lastActiveAt } = this.getGroupActivity(groupInfo);
+      if (processing) continue;
+
+      if (now - lastActiveAt > archiveAfterMs) {
+        await this.archiveSessionGroup(groupInfo, archiveAfterMs, disbandOnArchive);
+      }
+    }
+  }
+
+  /** Members of a `user_chat` group each have their own session, so activity counts across every session in the chat. */
+  private getGroupActivity(groupInfo: SessionGroupInfo): { lastActiveAt: number; processing: boolean } {
+    let lastActiveAt = groupInfo.createdAt;
+    let processing = false;
+    for (const session of this.sessions.values()) {
+      if (session.key.chatId !== groupInfo.chatId) continue;
+      lastActiveAt = Math.max(lastActiveAt, session.lastActiveAt);
+      processing ||= session.status === 'processing';
+    }
+    return { lastActiveAt, processing };
+  }
+
+  private async suspendSession(keyStr: string, session: SessionState): Promise<void> {
+    try {
+      await this.deps.getAgent(session.agentId)?.suspendSession(session.agentSessionId);
+    } catch (error) {
+      logger.warn('Failed to suspend idle session', { key: keyStr, error });
+    }
+
+    session.status = 'idle';
+    this.activeTasks.delete(keyStr);
+    this.subtaskMap.delete(keyStr);
+    this.persistState();
+    logger.info('Session suspended after idle timeout', { key: keyStr });
+  }
+
+  private async wakeSession(session: SessionState): Promise<boolean> {
+    const agent = this.deps.getAgent(session.agentId);
+    if (!agent) return false;
+
+    try {
+      if (!(await agent.resumeSession(session.agentSessionId, session.projectPath, session.model))) {
+        return false;
+      }
+    } catch (error) {
+      logger.warn('Failed to resume idle session', { agentSessionId: session.agentSessionId, error });
+      return false;
+    }
+
+    session.status = 'active';
+    return true;
+  }
+
+  private async archiveSessionGroup(groupInfo: SessionGroupInfo, archiveAfterMs: number, disband: boolean): Promise<void> {
+    const { chatId } = groupInfo;
+    const session = this.getSession(groupInfo.sessionKey);
+    groupInfo.archivedAt = Date.now();
+
+    try {
+      await this.deps.updateChatName?.(chatId, `${ARCHIVED_PREFIX}${this.buildGroupName(groupInfo)}`);
+    } catch (error) {
+      logger.warn('Failed to rename archived session group', { chatId, error });
+    }
+
+    const lines = [
+      `📦 会话已归档（空闲超过 ${Math.round(archiveAfterMs / DAY_MS * 10) / 10} 天）`,
+      `项目: \`${session?.projectPath ?? '未知'}\``,
+      `消息数: ${session?.messageCount ?? 0}`,
+      `创建时间: ${new Date(groupInfo.createdAt).toLocaleString('zh-CN')}`,
+      `最后活跃: ${new Date(session?.lastActiveAt ?? groupInfo.createdAt).toLocaleString('zh-CN')}`,
+      disband ? '该会话群即将解散' : '发送新消息即可恢复会话',
+    ];
+
+    try {
+      await this.deps.getChannel(groupInfo.sessionKey.channelId)?.sendMessage(chatId, {
+        status: 'completed',
+        blocks: [{ type: 'text', content: lines.join('\n') }],
+      });
+    } catch (error) {
+      logger.warn('Failed to post archive summary', { chatId, error });
+    }
+
+    logger.info('Session group archived', { chatId, disband });
+
+    if (disband) {
+      await this.deleteSessionGroup(chatId);
+    } else {
+      this.persistState();
+    }
+  }
+
+  /** Brings an archived session group back when someone talks in it again. */
+  async restoreArchivedGroup(chatId: string): Promise<void> {
+    const groupInfo = this.sessionGroups.get(chatId);
+    if (!groupInfo?.archivedAt) return;
+
+    groupInfo.archivedAt = undefined;
+    const session = this.getSession(groupInfo.sessionKey);
+    if (session) {
+      session.lastActiveAt = Date.now();
+    }
+    try {
+      await this.deps.updateChatName?.(chatId, this.buildGroupName(groupInfo));
+    } catch (error) {
+      logger.warn('Failed to restore archived session group name', { chatId, error });
+    }
+    this.persistState();
+    logger.info('Session group restored from archive', { chatId });
   }
 
   getAllSessions(): SessionState[] {
@@ -326,18 +640,18 @@ export class SessionManager implements ISessionManager {
   }
 
   isDuplicateEvent(eventId: string): boolean {
-    const existing = this.processedEvents.get(eventId);
-    if (!existing) return false;
+    const timestamp = this.processedEvents.get(eventId)?.timestamp
+      ?? this.deps.database?.getEventProcessedAt(eventId);
+    if (timestamp === undefined) return false;
     
     const windowMs = this.config.eventDedupeWindowMs || 5 * 60 * 1000;
-    return Date.now() - existing.timestamp < windowMs;
+    return Date.now() - timestamp < windowMs;
   }
 
   markEventProcessed(eventId: string): void {
-    this.processedEvents.set(eventId, {
-      eventId,
-      timestamp: Date.now(),
-    });
+    const timestamp = Date.now();
+    this.processedEvents.set(eventId, { eventId, timestamp });
+    this.deps.database?.markEventProcessed(eventId, timestamp);
   }
 
   startTask(key: SessionKey, messageId: string): AbortController {
@@ -370,7 +684,35 @@ export class SessionManager implements ISessionManager {
       session.status = 'active';
       session.messageCount++;
       session.lastActiveAt = Date.now();
+      this.persistState();
+    }
+  }
+
+  /**
+   * Records the agent session a gateway turn runs in and marks it as processing,
+   * so the idle check suspends sessions of every chat, not only session groups.
+   * Call `completeTask` with the same key once the turn ends.
+   */
+  startTurn(key: SessionKey, turn: TurnSession): void {
+    const keyStr = this.buildKeyString(key);
+    const session = this.sessions.get(keyStr);
+    const { messageId, ...state } = turn;
+
+    if (session) {
+      Object.assign(session, state, { model: state.model ?? session.model, lastActiveAt: Date.now() });
+    } else {
+      this.sessions.set(keyStr, {
+        key,
+        ...state,
+        status: 'active',
+        createdAt: Date.now(),
+        lastActiveAt: Date.now(),
+        messageCount: 0,
+      });
     }
+
+    this.startTask(key, messageId);
+    this.persistState();
   }
 
   abortTask(key: SessionKey): boolean {
@@ -422,6 +764,10 @@ export class SessionManager implements ISessionManager {
   }
 
   private loadPersistedState(): void {
+    if (this.deps.database) {
+      this.loadDatabaseState(this.deps.database);
+      return;
+    }
     if (!this.config.persistPath) return;
 
     try {
@@ -450,7 +796,36 @@ export class SessionManager implements ISessionManager {
     }
   }
 
+  private loadDatabaseState(database: BotDatabase): void {
+    try {
+      for (const { key, state } of database.loadSessions()) {
+        this.sessions.set(key, state);
+      }
+      for (const info of database.loadSessionGroups()) {
+        this.sessionGroups.set(info.chatId, info);
+      }
+
+      logger.info('Loaded session state from database', {
+        sessions: this.sessions.size,
+        groups: this.sessionGroups.size,
+      });
+    } catch (error) {
+      logger.error('Failed to load session state from database', { error });
+    }
+  }
+
   private persistState(): void {
+    if (this.deps.database) {
+      try {
+        this.deps.database.replaceSessionState(
+          Array.from(this.sessions.entries()).map(([key, state]) => ({ key, state })),
+          Array.from(this.sessionGroups.values())
+        );
+      } catch (error) {
+        logger.error('Failed to persist session state', { error });
+      }
+      return;
+    }
     if (!this.config.persistPath) return;
 
     const data = {
@@ -470,7 +845,9 @@ export class SessionManager implements ISessionManager {
     
     this.persistTimer = setInterval(() => {
       this.cleanupStaleEvents();
-      this.cleanupIdleSessions();
+      this.checkIdleSessions().catch((error) => {
+        logger.error('Idle session check failed', { error });
+      });
     }, cleanupInterval);
   }
 
@@ -483,17 +860,7 @@ export class SessionManager implements ISessionManager {
         this.processedEvents.delete(eventId);
       }
     }
-  }
-
-  private cleanupIdleSessions(): void {
-    const now = Date.now();
-    const idleTimeout = this.config.idleTimeoutMs || 30 * 60 * 1000;
-
-    for (const [keyStr, session] of this.sessions) {
-      if (now - session.lastActiveAt > idleTimeout && session.status !== 'processing') {
-        logger.debug('Cleaning up idle session', { key: keyStr });
-      }
-    }
+    this.deps.database?.pruneProcessedEvents(now - windowMs);
   }
 
   shutdown(): void {
@@ -0,0 +1,152 @@
+import { basename } from 'path';
+import type { BotDatabase, MemoryDocRecord } from '../storage/database';
+import type { IAgentRuntime, AnyAgentEvent } from '../types/agent';
+import { logger } from '../utils/logger';
+
+export const MEMORY_FLUSH_PROMPT = [
+  '上下文即将被压缩。请整理本次会话中需要长期记住的内容，供之后的会话参考。',
+  '只输出下面两个小节的 Markdown 列表，不要调用工具，没有内容的小节写“无”：',
+  '### 关键决策',
+  '### 待办事项',
+].join('\n');
+
+export interface ProjectMemoryConfig {
+  /** How long to wait for the agent's summary before giving up. */
+  flushTimeoutMs?: number;
+}
+
+export interface ProjectMemoryDependencies {
+  database: BotDatabase;
+  createDocument: (title: string) => Promise<{ documentId: string; url: string } | null>;
+  appendToDocument: (documentId: string, content: string) => Promise<boolean>;
+  sendMessage: (chatId: string, text: string) => Promise<string | null>;
+  pinMessage: (messageId: string) => Promise<boolean>;
+  getProjectName?: (projectPath: string) => string | undefined;
+}
+
+export interface MemoryFlushTarget {
+  chatId: string;
+  sessionId: string;
+  projectPath: string;
+}
+
+/**
+ * Keeps one "工作记忆" document per project. Before a session is compacted the
+ * agent is asked for its key decisions and open TODOs, which are appended to
+ * the document so they outlive the compacted context and reach other sessions
+ * on the same project.
+ */
+export class ProjectMemory {
+  private config: Required<ProjectMemoryConfig>;
+  private deps: ProjectMemoryDependencies;
+  private pendingDocs = new Map<string, Promise<MemoryDocRecord | null>>();
+
+  constructor(config: ProjectMemoryConfig, deps: ProjectMemoryDependencies) {
+    this.config = {
+      flushTimeoutMs: config.flushTimeoutMs ?? 120000,
+    };
+    this.deps = deps;
+  }
+
+  getDocument(projectPath: string): MemoryDocRecord | undefined {
+    return this.deps.database.getMemoryDoc(projectPath);
+  }
+
+  async flush(target: MemoryFlushTarget, agent: IAgentRuntime): Promise<boolean> {
+    const summary = await collectReply(agent, target.sessionId, MEMORY_FLUSH_PROMPT, this.config.flushTimeoutMs);
+    if (!summary) {
+      logger.warn('Agent returned no memory summary', { sessionId: target.sessionId });
+      return false;
+    }
+
+    const doc = await this.ensureDocument(target.projectPath);
+    if (!doc) return false;
+
+    const heading = `## ${formatDate(Date.now())} · 会话 ${target.sessionId.slice(0, 16)}`;
+    if (!await this.deps.appendToDocument(doc.documentId, `${heading}\n\n${summary}\n`)) {
+      logger.warn('Failed to append to memory document', { projectPath: target.projectPath, documentId: doc.documentId });
+      return false;
+    }
+
+    await this.ensurePinned(target.chatId, target.projectPath, doc);
+    logger.info('Memory flushed to project document', { sessionId: target.sessionId, documentId: doc.documentId });
+    return true;
+  }
+
+  private async ensureDocument(projectPath: string): Promise<MemoryDocRecord | null> {
+    const existing = this.deps.database.getMemoryDoc(projectPath);
+    if (existing) return existing;
+
+    // Sessions on the same project may compact at the same time; create the document once.
+    let pending = this.pendingDocs.get(projectPath);
+    if (!pending) {
+      pending = this.createDocument(projectPath).finally(() => this.pendingDocs.delete(projectPath));
+      this.pendingDocs.set(projectPath, pending);
+    }
+    return pending;
+  }
+
+  private async createDocument(projectPath: string): Promise<MemoryDocRecord | null> {
+    const name = this.deps.getProjectName?.(projectPath) ?? (basename(projectPath) || projectPath);
+    const created = await this.deps.createDocument(`工作记忆 · ${name}`);
+    if (!created) {
+      logger.warn('Failed to create memory document', { projectPath });
+      return null;
+    }
+
+    const doc = { projectPath, ...created };
+    this.deps.database.setMemoryDoc(doc);
+    return doc;
+  }
+
+  private async ensurePinned(chatId: string, projectPath: string, doc: MemoryDocRecord): Promise<void> {
+    if (this.deps.database.getMemoryPin(chatId, projectPath)) return;
+
+    const messageId = await this.deps.sendMessage(chatId, `📒 项目工作记忆已更新，压缩前的关键决策和待办都记录在这里：\n${doc.url}`);
+    if (messageId && await this.deps.pinMessage(messageId)) {
+      this.deps.database.setMemoryPin(chatId, projectPath, messageId);
+    }
+  }
+}
+
+/** Sends a prompt and gathers the streamed reply until the agent finishes, errors or times out. */
+export function collectReply(agent: IAgentRuntime, sessionId: string, prompt: string, timeoutMs: number): Promise<string> {
+  return new Promise((resolve) => {
+    let text = '';
+    let settled = false;
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(text.trim());
+    };
+
+    const timer = setTimeout(() => {
+      logger.warn('Timed out waiting for agent reply', { sessionId, timeoutMs });
+      agent.abort(sessionId).catch(() => {});
+      finish();
+    }, timeoutMs);
+
+    const unsubscribe = agent.subscribe(sessionId, (event: AnyAgentEvent) => {
+      if (event.type === 'message.delta') {
+        text += event.delta;
+      } else if (event.type === 'message.complete' || event.type === 'error') {
+        finish();
+      }
+    });
+
+    agent.send(sessionId, prompt).catch((error) => {
+      logger.warn('Failed to send prompt', { sessionId, error });
+      finish();
+    });
+  });
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16);
+}
+
+export function createProjectMemory(config: ProjectMemoryConfig, deps: ProjectMemoryDependencies): ProjectMemory {
+  return new ProjectMemory(config, deps);
+}
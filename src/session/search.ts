@@ -0,0 +1,137 @@
+import type { BotDatabase, SearchEntryRole } from '../storage/database';
+import { logger } from '../utils/logger';
+
+export interface IndexedTurn {
+  userId: string;
+  chatId: string;
+  sessionId: string;
+  agentId?: string;
+  projectPath: string;
+  prompt: string;
+  reply: string;
+  completedAt: number;
+}
+
+export interface IndexedTitle {
+  userId: string;
+  chatId: string;
+  sessionId: string;
+  agentId?: string;
+  projectPath: string;
+  title: string;
+}
+
+export interface SessionSearchHit {
+  sessionId: string;
+  chatId: string;
+  agentId?: string;
+  projectPath: string;
+  title?: string;
+  role: SearchEntryRole;
+  snippet: string;
+  matchCount: number;
+  lastMatchedAt: number;
+  /** Filled in by the caller: whether the session group still exists and can be jumped to. */
+  activeGroup?: boolean;
+}
+
+/** Entries fetched before grouping by session; enough for a few hundred matching turns. */
+const MAX_SCANNED_ENTRIES = 500;
+const SNIPPET_RADIUS = 40;
+
+export class SessionSearchIndex {
+  private database: BotDatabase;
+
+  constructor(database: BotDatabase) {
+    this.database = database;
+  }
+
+  recordTurn(turn: IndexedTurn): void {
+    const base = {
+      userId: turn.userId,
+      chatId: turn.chatId,
+      sessionId: turn.sessionId,
+      agentId: turn.agentId,
+      projectPath: turn.projectPath,
+      createdAt: turn.completedAt,
+    };
+
+    try {
+      if (turn.prompt.trim()) {
+        this.database.addSearchEntry({ ...base, role: 'user', content: turn.prompt.trim() });
+      }
+      if (turn.reply.trim()) {
+        this.database.addSearchEntry({ ...base, role: 'assistant', content: turn.reply.trim() });
+      }
+    } catch (error) {
+      logger.error('Failed to index turn', { sessionId: turn.sessionId, error });
+    }
+  }
+
+  recordTitle(entry: IndexedTitle): void {
+    const title = entry.title.trim();
+    if (!title || this.database.getSearchTitle(entry.sessionId) === title) return;
+
+    try {
+      this.database.setSearchTitle({
+        userId: entry.userId,
+        chatId: entry.chatId,
+        sessionId: entry.sessionId,
+        agentId: entry.agentId,
+        projectPath: entry.projectPath,
+        content: title,
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      logger.error('Failed to index session title', { sessionId: entry.sessionId, error });
+    }
+  }
+
+  /** Returns one hit per session, most recently matched first. */
+  search(userId: string, query: string, limit = 10): SessionSearchHit[] {
+    const terms = query.trim().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const hits = new Map<string, SessionSearchHit>();
+    for (const entry of this.database.findSearchEntries(userId, terms, MAX_SCANNED_ENTRIES)) {
+      const existing = hits.get(entry.sessionId);
+      if (existing) {
+        existing.matchCount++;
+        continue;
+      }
+      if (hits.size >= limit) continue;
+
+      hits.set(entry.sessionId, {
+        sessionId: entry.sessionId,
+        chatId: entry.chatId,
+        agentId: entry.agentId,
+        projectPath: entry.projectPath,
+        role: entry.role,
+        snippet: buildSnippet(entry.content, terms),
+        matchCount: 1,
+        lastMatchedAt: entry.createdAt,
+      });
+    }
+
+    for (const hit of hits.values()) {
+      hit.title = this.database.getSearchTitle(hit.sessionId);
+    }
+
+    return Array.from(hits.values());
+  }
+}
+
+export function buildSnippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, ' ');
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term.toLowerCase())).filter(i => i >= 0);
+  const index = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+export function createSessionSearchIndex(database: BotDatabase): SessionSearchIndex {
+  return new SessionSearchIndex(database);
+}
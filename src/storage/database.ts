@@ -0,0 +1,498 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { SessionGroupInfo, SessionKeyType, SessionState } from '../types/session';
+import type { QueueMode } from '../queue/lane-queue';
+import type { PendingMessage, PendingMessageStatus } from '../queue/store';
+import { logger } from '../utils/logger';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/** Append-only: never edit a migration that has shipped, add a new version instead. */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    up: `
+      CREATE TABLE chat_sessions (
+        chat_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        agent_id TEXT,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE chat_preferences (
+        chat_id TEXT PRIMARY KEY,
+        project_path TEXT,
+        model TEXT,
+        queue_mode TEXT,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE sessions (
+        session_key TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        last_active_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE session_groups (
+        chat_id TEXT PRIMARY KEY,
+        info TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE whitelist (
+        user_id TEXT PRIMARY KEY,
+        added_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE processed_events (
+        event_id TEXT PRIMARY KEY,
+        processed_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_processed_events_processed_at ON processed_events (processed_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'session_search',
+    up: `
+      CREATE TABLE session_search (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        chat_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        agent_id TEXT,
+        project_path TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_session_search_user ON session_search (user_id, created_at);
+      CREATE INDEX idx_session_search_session ON session_search (session_id, role);
+    `,
+  },
+  {
+    version: 3,
+    name: 'chat_key_type',
+    up: 'ALTER TABLE chat_preferences ADD COLUMN key_type TEXT',
+  },
+  {
+    version: 4,
+    name: 'project_memory',
+    up: `
+      CREATE TABLE project_memory_docs (
+        project_path TEXT PRIMARY KEY,
+        document_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE project_memory_pins (
+        chat_id TEXT NOT NULL,
+        project_path TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (chat_id, project_path)
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'pending_messages',
+    up: `
+      CREATE TABLE pending_messages (
+        id TEXT PRIMARY KEY,
+        event TEXT NOT NULL,
+        status TEXT NOT NULL,
+        enqueued_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_pending_messages_enqueued ON pending_messages (enqueued_at);
+    `,
+  },
+];
+
+export interface ChatSessionRecord {
+  chatId: string;
+  sessionId: string;
+  agentId?: string;
+}
+
+export interface ChatPreferences {
+  projectPath?: string;
+  model?: string;
+  queueMode?: QueueMode;
+  keyType?: SessionKeyType;
+}
+
+export type SearchEntryRole = 'title' | 'user' | 'assistant';
+
+export interface SearchEntry {
+  userId: string;
+  chatId: string;
+  sessionId: string;
+  agentId?: string;
+  projectPath: string;
+  role: SearchEntryRole;
+  content: string;
+  createdAt: number;
+}
+
+export interface MemoryDocRecord {
+  projectPath: string;
+  documentId: string;
+  url: string;
+}
+
+interface SearchEntryRow {
+  user_id: string;
+  chat_id: string;
+  session_id: string;
+  agent_id: string | null;
+  project_path: string;
+  role: SearchEntryRole;
+  content: string;
+  created_at: number;
+}
+
+interface ChatSessionRow {
+  chat_id: string;
+  session_id: string;
+  agent_id: string | null;
+}
+
+interface PendingMessageRow {
+  id: string;
+  event: string;
+  status: PendingMessageStatus;
+  enqueued_at: number;
+}
+
+interface ChatPreferencesRow {
+  project_path: string | null;
+  model: string | null;
+  queue_mode: string | null;
+  key_type: string | null;
+}
+
+export class BotDatabase {
+  private db: Database;
+
+  constructor(path: string, migrations: Migration[] = MIGRATIONS) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA foreign_keys = ON');
+    this.migrate(migrations);
+  }
+
+  getSchemaVersion(): number {
+    const row = this.db.query('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  private migrate(migrations: Migration[]): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
+
+    const current = this.getSchemaVersion();
+    const pending = migrations
+      .filter(m => m.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db
+          .query('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, Date.now());
+      })();
+      logger.info('Applied database migration', { version: migration.version, name: migration.name });
+    }
+  }
+
+  // ============ 会话映射 ============
+
+  getChatSession(chatId: string): ChatSessionRecord | undefined {
+    const row = this.db
+      .query('SELECT chat_id, session_id, agent_id FROM chat_sessions WHERE chat_id = ?')
+      .get(chatId) as ChatSessionRow | null;
+    if (!row) return undefined;
+    return { chatId: row.chat_id, sessionId: row.session_id, agentId: row.agent_id ?? undefined };
+  }
+
+  listChatSessions(): ChatSessionRecord[] {
+    const rows = this.db.query('SELECT chat_id, session_id, agent_id FROM chat_sessions').all() as ChatSessionRow[];
+    return rows.map(row => ({ chatId: row.chat_id, sessionId: row.session_id, agentId: row.agent_id ?? undefined }));
+  }
+
+  setChatSession(chatId: string, sessionId: string, agentId?: string): void {
+    this.db
+      .query(`
+        INSERT INTO chat_sessions (chat_id, session_id, agent_id, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (chat_id) DO UPDATE SET session_id = excluded.session_id, agent_id = excluded.agent_id, updated_at = excluded.updated_at
+      `)
+      .run(chatId, sessionId, agentId ?? null, Date.now());
+  }
+
+  deleteChatSession(chatId: string): void {
+    this.db.query('DELETE FROM chat_sessions WHERE chat_id = ?').run(chatId);
+  }
+
+  // ============ 聊天偏好 ============
+
+  /** Deletes the mapping and preferences of a chat together with those of its members (`chatId:userId`). */
+  deleteChatState(chatId: string): void {
+    const memberPrefix = `${chatId}:`;
+    for (const table of ['chat_sessions', 'chat_preferences']) {
+      this.db
+        .query(`DELETE FROM ${table} WHERE chat_id = ? OR substr(chat_id, 1, length(?)) = ?`)
+        .run(chatId, memberPrefix, memberPrefix);
+    }
+  }
+
+  getChatPreferences(chatId: string): ChatPreferences | undefined {
+    const row = this.db
+      .query('SELECT project_path, model, queue_mode, key_type FROM chat_preferences WHERE chat_id = ?')
+      .get(chatId) as ChatPreferencesRow | null;
+    if (!row) return undefined;
+    return {
+      projectPath: row.project_path ?? undefined,
+      model: row.model ?? undefined,
+      queueMode: (row.queue_mode as QueueMode | null) ?? undefined,
+      keyType: (row.key_type as SessionKeyType | null) ?? undefined,
+    };
+  }
+
+  setChatPreferences(chatId: string, preferences: ChatPreferences): void {
+    this.db
+      .query(`
+        INSERT INTO chat_preferences (chat_id, project_path, model, queue_mode, key_type, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (chat_id) DO UPDATE SET
+          project_path = excluded.project_path,
+          model = excluded.model,
+          queue_mode = excluded.queue_mode,
+          key_type = excluded.key_type,
+          updated_at = excluded.updated_at
+      `)
+      .run(
+        chatId,
+        preferences.projectPath ?? null,
+        preferences.model ?? null,
+        preferences.queueMode ?? null,
+        preferences.keyType ?? null,
+        Date.now()
+      );
+  }
+
+  // ============ SessionManager 状态 ============
+
+  loadSessions(): Array<{ key: string; state: SessionState }> {
+    const rows = this.db.query('SELECT session_key, state FROM sessions').all() as Array<{ session_key: string; state: string }>;
+    return rows.map(row => ({ key: row.session_key, state: JSON.parse(row.state) as SessionState }));
+  }
+
+  loadSessionGroups(): SessionGroupInfo[] {
+    const rows = this.db.query('SELECT info FROM session_groups ORDER BY created_at').all() as Array<{ info: string }>;
+    return rows.map(row => JSON.parse(row.info) as SessionGroupInfo);
+  }
+
+  /** Replaces the stored sessions and groups with a snapshot in a single transaction. */
+  replaceSessionState(sessions: Array<{ key: string; state: SessionState }>, groups: SessionGroupInfo[]): void {
+    const insertSession = this.db.query('INSERT INTO sessions (session_key, state, last_active_at) VALUES (?, ?, ?)');
+    const insertGroup = this.db.query('INSERT INTO session_groups (chat_id, info, created_at) VALUES (?, ?, ?)');
+
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM sessions');
+      this.db.exec('DELETE FROM session_groups');
+      for (const { key, state } of sessions) {
+        insertSession.run(key, JSON.stringify(state), state.lastActiveAt);
+      }
+      for (const group of groups) {
+        insertGroup.run(group.chatId, JSON.stringify(group), group.createdAt);
+      }
+    })();
+  }
+
+  // ============ 白名单 ============
+
+  getWhitelist(): string[] {
+    const rows = this.db.query('SELECT user_id FROM whitelist ORDER BY added_at').all() as Array<{ user_id: string }>;
+    return rows.map(row => row.user_id);
+  }
+
+  replaceWhitelist(userIds: Iterable<string>): void {
+    const existing = new Set(this.getWhitelist());
+    const next = new Set(userIds);
+    const insert = this.db.query('INSERT INTO whitelist (user_id, added_at) VALUES (?, ?)');
+    const remove = this.db.query('DELETE FROM whitelist WHERE user_id = ?');
+
+    this.db.transaction(() => {
+      for (const userId of existing) {
+        if (!next.has(userId)) remove.run(userId);
+      }
+      for (const userId of next) {
+        if (!existing.has(userId)) insert.run(userId, Date.now());
+      }
+    })();
+  }
+
+  // ============ 会话搜索索引 ============
+
+  addSearchEntry(entry: SearchEntry): void {
+    this.db
+      .query(`
+        INSERT INTO session_search (user_id, chat_id, session_id, agent_id, project_path, role, content, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(entry.userId, entry.chatId, entry.sessionId, entry.agentId ?? null, entry.projectPath, entry.role, entry.content, entry.createdAt);
+  }
+
+  /** A session has at most one title entry; setting a new one replaces it. */
+  setSearchTitle(entry: Omit<SearchEntry, 'role'>): void {
+    this.db.transaction(() => {
+      this.db.query("DELETE FROM session_search WHERE session_id = ? AND role = 'title'").run(entry.sessionId);
+      this.addSearchEntry({ ...entry, role: 'title' });
+    })();
+  }
+
+  getSearchTitle(sessionId: string): string | undefined {
+    const row = this.db
+      .query("SELECT content FROM session_search WHERE session_id = ? AND role = 'title'")
+      .get(sessionId) as { content: string } | null;
+    return row?.content;
+  }
+
+  /** Newest first; every term must appear in the entry (case-insensitive for ASCII). */
+  findSearchEntries(userId: string, terms: string[], limit: number): SearchEntry[] {
+    const conditions = terms.map(() => "content LIKE ? ESCAPE '\\'").join(' AND ');
+    const patterns = terms.map(term => `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+    const rows = this.db
+      .query(`
+        SELECT user_id, chat_id, session_id, agent_id, project_path, role, content, created_at FROM session_search
+        WHERE user_id = ?${conditions ? ` AND ${conditions}` : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      `)
+      .all(userId, ...patterns, limit) as SearchEntryRow[];
+
+    return rows.map(row => ({
+      userId: row.user_id,
+      chatId: row.chat_id,
+      sessionId: row.session_id,
+      agentId: row.agent_id ?? undefined,
+      projectPath: row.project_path,
+      role: row.role,
+      content: row.content,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // ============ 项目工作记忆 ============
+
+  getMemoryDoc(projectPath: string): MemoryDocRecord | undefined {
+    const row = this.db
+      .query('SELECT project_path, document_id, url FROM project_memory_docs WHERE project_path = ?')
+      .get(projectPath) as { project_path: string; document_id: string; url: string } | null;
+    if (!row) return undefined;
+    return { projectPath: row.project_path, documentId: row.document_id, url: row.url };
+  }
+
+  setMemoryDoc(doc: MemoryDocRecord): void {
+    this.db
+      .query(`
+        INSERT INTO project_memory_docs (project_path, document_id, url, created_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (project_path) DO UPDATE SET document_id = excluded.document_id, url = excluded.url
+      `)
+      .run(doc.projectPath, doc.documentId, doc.url, Date.now());
+  }
+
+  getMemoryPin(chatId: string, projectPath: string): string | undefined {
+    const row = this.db
+      .query('SELECT message_id FROM project_memory_pins WHERE chat_id = ? AND project_path = ?')
+      .get(chatId, projectPath) as { message_id: string } | null;
+    return row?.message_id;
+  }
+
+  setMemoryPin(chatId: string, projectPath: string, messageId: string): void {
+    this.db
+      .query('INSERT OR REPLACE INTO project_memory_pins (chat_id, project_path, message_id, created_at) VALUES (?, ?, ?, ?)')
+      .run(chatId, projectPath, messageId, Date.now());
+  }
+
+  // ============ 持久化队列 ============
+
+  loadPendingMessages(): PendingMessage[] {
+    const rows = this.db
+      .query('SELECT id, event, status, enqueued_at FROM pending_messages ORDER BY enqueued_at, rowid')
+      .all() as PendingMessageRow[];
+    return rows.map(toPendingMessage);
+  }
+
+  getPendingMessage(id: string): PendingMessage | undefined {
+    const row = this.db
+      .query('SELECT id, event, status, enqueued_at FROM pending_messages WHERE id = ?')
+      .get(id) as PendingMessageRow | null;
+    return row ? toPendingMessage(row) : undefined;
+  }
+
+  savePendingMessage(message: PendingMessage): void {
+    this.db
+      .query('INSERT OR REPLACE INTO pending_messages (id, event, status, enqueued_at) VALUES (?, ?, ?, ?)')
+      .run(message.id, JSON.stringify(message.event), message.status, message.enqueuedAt);
+  }
+
+  setPendingMessageStatus(id: string, status: PendingMessageStatus): void {
+    this.db.query('UPDATE pending_messages SET status = ? WHERE id = ?').run(status, id);
+  }
+
+  removePendingMessage(id: string): void {
+    this.db.query('DELETE FROM pending_messages WHERE id = ?').run(id);
+  }
+
+  // ============ 事件去重 ============
+
+  getEventProcessedAt(eventId: string): number | undefined {
+    const row = this.db
+      .query('SELECT processed_at FROM processed_events WHERE event_id = ?')
+      .get(eventId) as { processed_at: number } | null;
+    return row?.processed_at;
+  }
+
+  markEventProcessed(eventId: string, processedAt: number): void {
+    this.db
+      .query('INSERT OR REPLACE INTO processed_events (event_id, processed_at) VALUES (?, ?)')
+      .run(eventId, processedAt);
+  }
+
+  pruneProcessedEvents(before: number): number {
+    return this.db.query('DELETE FROM processed_events WHERE processed_at < ?').run(before).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function toPendingMessage(row: PendingMessageRow): PendingMessage {
+  return {
+    id: row.id,
+    event: JSON.parse(row.event) as PendingMessage['event'],
+    status: row.status,
+    enqueuedAt: row.enqueued_at,
+  };
+}
+
+export function createDatabase(path: string): BotDatabase {
+  return new BotDatabase(path);
+}
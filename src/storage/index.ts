@@ -0,0 +1,2 @@
+export { BotDatabase, createDatabase, MIGRATIONS } from './database';
+export type { Migration, ChatSessionRecord, ChatPreferences, SearchEntry, SearchEntryRole, MemoryDocRecord } from './database';
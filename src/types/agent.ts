@@ -57,6 +57,10 @@ export interface SessionCreatedEvent extends AgentEvent {
 /** 会话恢复事件 */
 export interface SessionResumedEvent extends AgentEvent {
   type: 'session.resumed';
+  /** 项目路径 */
+  projectPath: string;
+  /** 模型ID */
+  model?: string;
 }
 
 /** 消息开始事件 */
@@ -77,7 +81,7 @@ export interface MessageDeltaEvent extends AgentEvent {
   block?: ContentBlock;
 }
 
-/** 消息完成事件 */
+/** 消息完成事件，Agent 结束整轮回复（含所有工具步骤）后触发一次 */
 export interface MessageCompleteEvent extends AgentEvent {
   type: 'message.complete';
   /** 消息ID */
@@ -85,10 +89,21 @@ export interface MessageCompleteEvent extends AgentEvent {
   /** 完整内容 */
   content: ContentBlock[];
   /** 使用统计 */
-  usage?: {
-    inputTokens?: number;
-    outputTokens?: number;
-  };
+  usage?: TokenUsage;
+  /** 生成该消息的模型（provider/model） */
+  model?: string;
+}
+
+/** Token 使用统计 */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  /** 命中缓存的输入 Token */
+  cacheReadTokens?: number;
+  /** 写入缓存的输入 Token */
+  cacheWriteTokens?: number;
+  /** 本轮结束后会话上下文占用的 Token 总数 */
+  contextTokens?: number;
 }
 
 /** 工具开始事件 */
@@ -208,6 +223,8 @@ export interface SendOptions {
   }>;
   /** 是否允许工具调用 */
   allowTools?: boolean;
+  /** 附加到本轮的系统提示 */
+  systemPrompt?: string;
 }
 
 /** Agent 运行时接口 */
@@ -228,6 +245,12 @@ export interface IAgentRuntime {
   createSession(projectPath: string, model?: string): Promise<string>;
   /** 获取或创建会话 */
   getOrCreateSession(projectPath: string, model?: string): Promise<string>;
+  /** 恢复已有会话（重启后重新订阅事件），会话不存在时返回 false */
+  resumeSession(sessionId: string, projectPath: string, model?: string): Promise<boolean>;
+  /** 分叉会话：新会话继承原会话的历史 */
+  forkSession(sessionId: string, projectPath: string, model?: string): Promise<string>;
+  /** 挂起空闲会话（取消事件订阅并释放内存状态），之后可通过 resumeSession 恢复 */
+  suspendSession(sessionId: string): Promise<void>;
   /** 切换会话模型 */
   switchModel(sessionId: string, model: string): Promise<void>;
   /** 清除会话历史 */
@@ -241,6 +264,8 @@ export interface IAgentRuntime {
   executeCommand(sessionId: string, command: string): Promise<string>;
   /** 压缩/总结会话 */
   summarize(sessionId: string): Promise<boolean>;
+  /** 注入上下文（写入会话历史但不触发回复） */
+  injectContext?(sessionId: string, text: string): Promise<void>;
 
   /** 订阅事件 */
   subscribe(sessionId: string, handler: AgentEventHandler): () => void;
@@ -254,5 +279,6 @@ export interface IAgentRuntime {
     model?: string;
     projectPath?: string;
     messageCount?: number;
+    contextTokens?: number;
   } | null>;
 }
@@ -1,3 +1,14 @@
+export interface BindingTimeWindow {
+  /** 开始时间 HH:mm（含），缺省为 00:00 */
+  start?: string;
+  /** 结束时间 HH:mm（不含），早于 start 时表示跨午夜 */
+  end?: string;
+  /** 生效的星期，0 或 7 表示周日 */
+  weekdays?: number[];
+  /** IANA 时区，缺省为系统时区 */
+  timezone?: string;
+}
+
 export interface BindingMatch {
   channelId?: string | string[];
   channelType?: string | string[];
@@ -5,6 +16,12 @@ export interface BindingMatch {
   chatId?: string | string[];
   userId?: string | string[];
   messagePattern?: string | RegExp;
+  messageType?: string | string[];
+  mentionedBot?: boolean;
+  isSessionGroup?: boolean;
+  timeWindow?: BindingTimeWindow;
+  not?: BindingMatch;
+  any?: BindingMatch[];
   custom?: (context: BindingContext) => boolean;
 }
 
@@ -13,6 +30,10 @@ export interface Binding {
   name?: string;
   match?: BindingMatch;
   agentId: string;
+  /** 主 Agent 失败时依次尝试的备用 Agent */
+  fallbackAgents?: string[];
+  /** 命中此规则的任务超时时间（毫秒），优先于项目和全局配置 */
+  timeoutMs?: number;
   priority: number;
   enabled: boolean;
 }
@@ -24,6 +45,10 @@ export interface BindingContext {
   chatType: 'private' | 'group';
   userId: string;
   messageText?: string;
+  messageType?: string;
+  mentionedBot?: boolean;
+  isSessionGroup?: boolean;
+  timestamp?: number;
   metadata?: Record<string, unknown>;
 }
 
@@ -33,8 +58,30 @@ export interface BindingResult {
   matchedBy: string[];
 }
 
+export interface BindingConditionCheck {
+  condition: string;
+  passed: boolean;
+  expected?: string;
+  actual?: string;
+}
+
+export interface BindingEvaluation {
+  binding: Binding;
+  enabled: boolean;
+  matched: boolean;
+  selected: boolean;
+  checks: BindingConditionCheck[];
+}
+
+export interface RouteExplanation {
+  context: BindingContext;
+  result: BindingResult;
+  evaluations: BindingEvaluation[];
+}
+
 export interface BindingsConfig {
   defaultAgent: string;
+  defaultFallbackAgents?: string[];
   bindings: Binding[];
 }
 
@@ -44,6 +91,7 @@ export interface IBindingsRouter {
   updateBinding(id: string, updates: Partial<Binding>): void;
   
   route(context: BindingContext): BindingResult;
+  explain(context: BindingContext): RouteExplanation;
   
   getBindings(): Binding[];
   getBinding(id: string): Binding | undefined;
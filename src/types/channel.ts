@@ -90,6 +90,8 @@ export interface MessageEvent extends ChannelEvent {
   attachments?: MessageAttachment[];
   /** @提及列表 */
   mentions?: Array<{ key: string; id: string; name: string }>;
+  /** 是否@机器人 */
+  mentionedBot?: boolean;
 }
 
 /** 消息撤回事件 */
@@ -75,7 +75,8 @@ export type ContentBlockType =
   | 'tool_result' 
   | 'image'
   | 'file'
-  | 'error';
+  | 'error'
+  | 'action';
 
 /** 文本内容块 */
 export interface TextBlock {
@@ -143,6 +144,24 @@ export interface ErrorBlock {
   details?: unknown;
 }
 
+/** 交互按钮 */
+export interface ReplyAction {
+  /** 动作标识（回传到 card_action 事件） */
+  id: string;
+  /** 按钮文字 */
+  label: string;
+  /** 附加回传数据 */
+  value?: Record<string, unknown>;
+  /** 按钮样式 */
+  style?: 'default' | 'primary' | 'danger';
+}
+
+/** 交互按钮块 */
+export interface ActionBlock {
+  type: 'action';
+  actions: ReplyAction[];
+}
+
 /** 内容块联合类型 */
 export type ContentBlock = 
   | TextBlock 
@@ -152,15 +171,20 @@ export type ContentBlock =
   | ToolResultBlock
   | ImageBlock
   | FileBlock
-  | ErrorBlock;
+  | ErrorBlock
+  | ActionBlock;
 
 /** 回复状态 */
 export type ReplyStatus = 
+  | 'queued'       // 排队中
   | 'pending'      // 等待中
   | 'streaming'    // 流式输出中
   | 'completed'    // 已完成
   | 'error'        // 出错
-  | 'cancelled';   // 已取消
+  | 'cancelled'    // 已取消
+  | 'timeout'      // 已超时
+  | 'superseded'   // 已被新消息取代
+  | 'interrupted'; // 因重启中断
 
 /** 统一回复格式 - 输出 */
 export interface UnifiedReply {
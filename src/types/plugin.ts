@@ -25,7 +25,7 @@ export interface PluginAPI {
   registerAgent(agent: IAgentRuntime): void;
   registerMcpServer(server: IMcpServer): void;
   registerHook<T extends string>(event: T, handler: (data: unknown) => Promise<void>): void;
-  registerCommand(name: string, handler: CommandHandler): void;
+  registerCommand(name: string, handler: CommandHandler, options?: PluginCommandOptions): void;
   
   getChannel(id: string): IChannel | undefined;
   getAgent(id: string): IAgentRuntime | undefined;
@@ -46,6 +46,19 @@ export interface PluginAPI {
 
 export type CommandHandler = (args: string[], context: CommandContext) => Promise<string>;
 
+export interface PluginCommandOptions {
+  /** 在 /help 中显示的说明 */
+  description?: string;
+  /** 仅管理员可用，默认 false */
+  adminOnly?: boolean;
+}
+
+export interface RegisteredCommand extends PluginCommandOptions {
+  handler: CommandHandler;
+  /** 注册该命令的插件名 */
+  source: string;
+}
+
 export interface CommandContext {
   channelId: string;
   chatId: string;
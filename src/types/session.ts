@@ -11,8 +11,8 @@ export interface SessionConfig {
   keyType: SessionKeyType;
   idleTimeoutMs?: number;
   maxHistoryLength?: number;
-  autoCompact?: boolean;
-  compactThreshold?: number;
+  archiveAfterMs?: number;
+  disbandOnArchive?: boolean;
 }
 
 export type SessionStatus = 'active' | 'idle' | 'processing' | 'error';
@@ -30,12 +30,51 @@ export interface SessionState {
   metadata?: Record<string, unknown>;
 }
 
+export interface SessionIdlePolicy {
+  keep?: boolean;
+  archiveAfterMs?: number;
+  disbandOnArchive?: boolean;
+}
+
 export interface SessionGroupInfo {
   chatId: string;
   sessionKey: SessionKey;
   title?: string;
   createdAt: number;
   createdBy: string;
+  idlePolicy?: SessionIdlePolicy;
+  archivedAt?: number;
+  parentChatId?: string;
+  parentSessionId?: string;
+  childChatIds?: string[];
+}
+
+export interface SessionGroupOptions {
+  title?: string;
+  model?: string;
+  agentId?: string;
+  forkFrom?: {
+    chatId: string;
+    agentSessionId: string;
+  };
+  resumeSessionId?: string;
+}
+
+export interface SessionLineage {
+  parentChatId?: string;
+  ancestors: SessionGroupInfo[];
+  children: SessionGroupInfo[];
+}
+
+export interface SessionGroupIdleStatus {
+  chatId: string;
+  title?: string;
+  status: SessionStatus | 'archived';
+  lastActiveAt: number;
+  idleTimeoutMs: number;
+  archiveAfterMs?: number;
+  disbandOnArchive: boolean;
+  overridden: boolean;
 }
 
 export interface CompactionResult {
@@ -47,7 +86,7 @@ export interface CompactionResult {
 
 export interface ISessionManager {
   getSession(key: SessionKey): SessionState | undefined;
-  createSession(key: SessionKey, projectPath: string, model?: string): Promise<SessionState>;
+  createSession(key: SessionKey, projectPath: string, model?: string, agentId?: string): Promise<SessionState>;
   getOrCreateSession(key: SessionKey, projectPath: string, model?: string): Promise<SessionState>;
   
   updateSession(key: SessionKey, updates: Partial<SessionState>): void;
@@ -62,7 +101,7 @@ export interface ISessionManager {
   
   isSessionGroup(chatId: string): boolean;
   getSessionGroup(chatId: string): SessionGroupInfo | undefined;
-  createSessionGroup(userId: string, projectPath: string): Promise<SessionGroupInfo>;
+  createSessionGroup(userId: string, projectPath: string, options?: SessionGroupOptions): Promise<SessionGroupInfo>;
   deleteSessionGroup(chatId: string): Promise<void>;
   
   getAllSessions(): SessionState[];